@@ -10,6 +10,12 @@ const vscode = acquireVsCodeApi();
 // ---- State ----
 let currentConfig = {};
 
+const OPERATION_KIND_LABELS = {
+  read: 'Leitura',
+  write: 'Escrita',
+  destructive: 'Destrutiva'
+};
+
 // ---- Init ----
 document.addEventListener('DOMContentLoaded', () => {
   renderProfiles();
@@ -71,6 +77,14 @@ function applyProfile(profile) {
       payload: { section: tool.configKey, value: state[tool.id] !== false }
     });
   });
+
+  // Operation switches: profile keys in the form `toolId.operation`
+  const operations = {};
+  Object.keys(state).filter(key => key.includes('.') && state[key] === false).forEach(key => {
+    operations[key] = false;
+  });
+  setOperationCheckboxes(operations);
+  saveOperations(operations);
   updateToolsCount();
 }
 
@@ -91,6 +105,13 @@ function renderTools() {
       tool.isAdvanced ? '<span class="badge-advanced">AVANÇADO</span>' : ''
     ].filter(Boolean).join('');
 
+    const operations = Object.entries(tool.operations || {}).map(([operation, kind]) => `
+      <label class="operation-item" title="${OPERATION_KIND_LABELS[kind] || kind}">
+        <input type="checkbox" data-operation-key="${tool.id}.${operation}" checked>
+        <span class="operation-name operation-${kind}">${escapeHtml(operation)}</span>
+      </label>
+    `).join('');
+
     item.innerHTML = `
       <label class="tool-switch">
         <input type="checkbox" data-tool-id="${tool.id}" data-key="${tool.configKey}" ${tool.defaultEnabled ? 'checked' : ''}>
@@ -99,11 +120,23 @@ function renderTools() {
       <div class="tool-info">
         <div class="tool-name">${escapeHtml(tool.name)} ${badges}</div>
         <div class="tool-desc">${escapeHtml(tool.description)}</div>
+        ${operations ? `<div class="tool-operations">${operations}</div>` : ''}
       </div>
     `;
 
+    // Operation toggles
+    item.querySelectorAll('input[data-operation-key]').forEach(opCheckbox => {
+      opCheckbox.addEventListener('change', (e) => {
+        const operations = { ...(currentConfig['tools.operations'] || {}) };
+        // Allowed is the default: only blocked operations need to be stored
+        if (e.target.checked) delete operations[e.target.dataset.operationKey];
+        else operations[e.target.dataset.operationKey] = false;
+        saveOperations(operations);
+      });
+    });
+
     // Toggle handler
-    const checkbox = item.querySelector('input[type="checkbox"]');
+    const checkbox = item.querySelector('input[data-tool-id]');
     checkbox.addEventListener('change', (e) => {
       const enabled = e.target.checked;
       item.classList.toggle('disabled', !enabled);
@@ -135,16 +168,25 @@ function bindControls() {
   document.getElementById('btn-clear-token')?.addEventListener('click', () =>
     vscode.postMessage({ type: 'clearToken' })
   );
+  document.getElementById('btn-edit-profiles')?.addEventListener('click', () =>
+    vscode.postMessage({ type: 'editProfiles' })
+  );
 
-  // Auth method change → show/hide secret field
+  // Auth method change → show/hide the fields of the method
   document.getElementById('auth-method')?.addEventListener('change', (e) => {
-    const secretGroup = document.getElementById('secret-group');
-    if (secretGroup) {
-      secretGroup.style.display = e.target.value === 'clientCredentials' ? 'flex' : 'none';
-    }
+    showAuthFields(e.target.value);
     saveInputValue(e.target);
   });
 
+  // Secrets go to SecretStorage, never to settings; the field is cleared once sent
+  document.querySelectorAll('[data-secret]').forEach(el => {
+    el.addEventListener('change', () => {
+      vscode.postMessage({ type: 'setSecret', payload: { name: el.dataset.secret, value: el.value } });
+      el.placeholder = el.value ? 'Salvo' : 'Não configurado';
+      el.value = '';
+    });
+  });
+
   // Generic input/select/checkbox save on change
   document.querySelectorAll('[data-key]').forEach(el => {
     const eventName = el.tagName === 'SELECT' || el.tagName === 'INPUT' ? 'change' : 'change';
@@ -223,22 +265,28 @@ function applyConfigToUI(config) {
       checkbox.closest('.tool-item')?.classList.toggle('disabled', !enabled);
     }
   });
+  setOperationCheckboxes(config['tools.operations'] || {});
 
   // Server options
   setCheckbox('autoStart', config['server.autoStart']);
   setCheckbox('readOnly', config['server.readOnly']);
   setCheckbox('requireConfirmation', config['server.requireConfirmation']);
 
+  // Connection profile
+  setProfileOptions(config['connectionProfiles'] || [], config['activeProfile'] || '');
+
   // Auth
   setInputValue('auth-method', config['auth.method']);
   setInputValue('auth-tenantId', config['auth.tenantId']);
   setInputValue('auth-clientId', config['auth.clientId']);
-
-  // Show/hide secret field
-  const secretGroup = document.getElementById('secret-group');
-  if (secretGroup) {
-    secretGroup.style.display = config['auth.method'] === 'clientCredentials' ? 'flex' : 'none';
-  }
+  setInputValue('auth-certificatePath', config['auth.certificatePath']);
+  setInputValue('auth-certificateThumbprint', config['auth.certificateThumbprint']);
+  setInputValue('auth-clientAssertionFile', config['auth.clientAssertionFile']);
+  const secrets = config['secrets'] || {};
+  document.querySelectorAll('[data-secret]').forEach(el => {
+    el.placeholder = secrets[el.dataset.secret] ? 'Salvo' : 'Não configurado';
+  });
+  showAuthFields(config['auth.method']);
 
   // Connection
   setInputValue('xmla-endpoint', config['connection.xmlaEndpoint']);
@@ -251,6 +299,20 @@ function applyConfigToUI(config) {
   updateToolsCount();
 }
 
+function setOperationCheckboxes(operations) {
+  document.querySelectorAll('input[data-operation-key]').forEach(checkbox => {
+    checkbox.checked = operations[checkbox.dataset.operationKey] !== false;
+  });
+}
+
+function saveOperations(operations) {
+  currentConfig['tools.operations'] = operations;
+  vscode.postMessage({
+    type: 'updateConfig',
+    payload: { section: 'tools.operations', value: operations }
+  });
+}
+
 function setCheckbox(id, value) {
   const el = document.getElementById(id);
   if (el) el.checked = Boolean(value);
@@ -261,6 +323,25 @@ function setInputValue(id, value) {
   if (el && value !== undefined && value !== null) el.value = String(value);
 }
 
+function setProfileOptions(names, active) {
+  const select = document.getElementById('active-profile');
+  if (!select) return;
+  select.querySelectorAll('option[value]:not([value=""])').forEach(option => option.remove());
+  names.forEach(name => {
+    const option = document.createElement('option');
+    option.value = name;
+    option.textContent = name;
+    select.appendChild(option);
+  });
+  select.value = names.includes(active) ? active : '';
+}
+
+function showAuthFields(method) {
+  document.querySelectorAll('[data-auth-methods]').forEach(el => {
+    el.style.display = el.dataset.authMethods.split(' ').includes(method) ? 'flex' : 'none';
+  });
+}
+
 // ---- Update Tools Count ----
 function updateToolsCount() {
   const allCheckboxes = document.querySelectorAll('[data-tool-id]');
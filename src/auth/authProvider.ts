@@ -1,117 +1,224 @@
-import { PublicClientApplication, ConfidentialClientApplication, AuthenticationResult } from '@azure/msal-node';
-import { execSync } from 'child_process';
+import { PublicClientApplication, ConfidentialClientApplication, AuthenticationResult, Configuration } from '@azure/msal-node';
+import { AzureCliCredential } from '@azure/identity';
+import { promises as fs } from 'fs';
 import { AuthConfig } from '../types/index.js';
+import { TokenCachePlugin } from './tokenCache.js';
+import { SecretSource, secretFromEnv } from './secrets.js';
+import { loadClientCertificate } from './clientCertificate.js';
+import { InteractiveLoginUnavailableError, TimedLoopbackClient, UrlOpener, openSignInPage } from './interactiveLogin.js';
+import { POWER_BI_SCOPE } from './tokenScopes.js';
 
 // ============================================================
 // Authentication Provider for Power BI APIs
-// Supports: Interactive, Device Code, Client Credentials
+// Supports: Interactive, Device Code, Client Credentials (secret),
+// Certificate, Workload Identity Federation and Azure CLI
+// Tokens persist across restarts when a cache plugin is given,
+// one per scope (Power BI, Fabric, Analysis Services)
 // ============================================================
 
-const POWER_BI_SCOPE = 'https://analysis.windows.net/powerbi/api/.default';
+// Service Principal methods, served by a ConfidentialClientApplication
+const CONFIDENTIAL_METHODS = ['clientCredentials', 'certificate', 'federated'];
+
+type AccessToken = Pick<AuthenticationResult, 'accessToken' | 'expiresOn'>;
 
 export class AuthProvider {
   private pca?: PublicClientApplication;
-  private cca?: ConfidentialClientApplication;
-  private cachedToken?: AuthenticationResult;
+  private cca?: Promise<ConfidentialClientApplication>;
+  private cliCredential?: AzureCliCredential;
+  private cachedTokens = new Map<string, AccessToken>();
   private config: AuthConfig;
+  private cachePlugin?: TokenCachePlugin;
 
-  constructor(config: AuthConfig) {
+  // cachePlugin: persistent token cache, one per connection profile.
+  // secrets: where the client secret and certificate password come from when
+  // the config has none (extension SecretStorage, environment).
+  // openExternal: the extension's way of opening the sign-in page, if any.
+  constructor(
+    config: AuthConfig,
+    cachePlugin?: TokenCachePlugin,
+    private readonly secrets: SecretSource = async name => secretFromEnv(name),
+    private readonly openExternal?: UrlOpener
+  ) {
     this.config = config;
+    this.cachePlugin = cachePlugin;
     this.initializeClients();
   }
 
   private initializeClients(): void {
-    const msalConfig = {
+    // Confidential clients are built on first use: their credential is read
+    // from SecretStorage or disk, asynchronously
+    this.cca = undefined;
+    this.pca = undefined;
+    this.cliCredential = undefined;
+    if (this.config.method === 'azureCli') {
+      const tenantId = this.config.tenantId && !['common', 'organizations'].includes(this.config.tenantId) ? this.config.tenantId : undefined;
+      this.cliCredential = new AzureCliCredential({ ...(tenantId && { tenantId }) });
+    } else if (!CONFIDENTIAL_METHODS.includes(this.config.method)) {
+      this.pca = new PublicClientApplication(this.msalConfig());
+    }
+  }
+
+  private msalConfig(): Configuration {
+    return {
       auth: {
         clientId: this.config.clientId,
         authority: `https://login.microsoftonline.com/${this.config.tenantId || 'common'}`
-      }
+      },
+      ...(this.cachePlugin && { cache: { cachePlugin: this.cachePlugin } })
     };
+  }
 
-    if (this.config.method === 'clientCredentials' && this.config.clientSecret) {
-      this.cca = new ConfidentialClientApplication({
-        auth: {
-          ...msalConfig.auth,
-          clientSecret: this.config.clientSecret
-        }
+  private confidentialClient(): Promise<ConfidentialClientApplication> {
+    if (!this.cca) {
+      const cca = this.createConfidentialClient();
+      this.cca = cca;
+      // A missing secret or unreadable certificate is retried on the next call
+      cca.catch(() => {
+        if (this.cca === cca) this.cca = undefined;
       });
-    } else {
-      this.pca = new PublicClientApplication(msalConfig);
+    }
+    return this.cca;
+  }
+
+  private async createConfidentialClient(): Promise<ConfidentialClientApplication> {
+    const base = this.msalConfig();
+    switch (this.config.method) {
+      case 'certificate': {
+        if (!this.config.certificatePath) throw new Error('certificatePath é obrigatório para autenticação por certificado');
+        const certificate = await loadClientCertificate(
+          this.config.certificatePath,
+          this.config.certificateThumbprint,
+          await this.secrets('certificatePassword')
+        );
+        return new ConfidentialClientApplication({ ...base, auth: { ...base.auth, clientCertificate: certificate } });
+      }
+      case 'federated':
+        // Read on every token request: federated tokens are short-lived and rotated on disk
+        return new ConfidentialClientApplication({ ...base, auth: { ...base.auth, clientAssertion: () => this.readClientAssertion() } });
+      default: {
+        const clientSecret = this.config.clientSecret || await this.secrets('clientSecret');
+        if (!clientSecret) {
+          throw new Error('Client Secret não configurado. Use o comando "PowerBi MCP AeC: Configurar Client Secret" ou a variável POWERBI_CLIENT_SECRET.');
+        }
+        return new ConfidentialClientApplication({ ...base, auth: { ...base.auth, clientSecret } });
+      }
     }
   }
 
+  // Workload identity: the token file of the configuration or of the platform
+  // (AZURE_FEDERATED_TOKEN_FILE), or the assertion itself in POWERBI_CLIENT_ASSERTION
+  private async readClientAssertion(): Promise<string> {
+    const file = this.config.clientAssertionFile || process.env.AZURE_FEDERATED_TOKEN_FILE;
+    if (file) {
+      const assertion = (await fs.readFile(file, 'utf8')).trim();
+      if (!assertion) throw new Error(`Arquivo de token federado vazio: ${file}`);
+      return assertion;
+    }
+    if (process.env.POWERBI_CLIENT_ASSERTION) return process.env.POWERBI_CLIENT_ASSERTION;
+    throw new Error('Nenhum token federado: configure clientAssertionFile ou AZURE_FEDERATED_TOKEN_FILE.');
+  }
+
   // Update config and reinitialize
   updateConfig(config: AuthConfig): void {
     this.config = config;
-    this.cachedToken = undefined;
+    this.cachedTokens.clear();
     this.initializeClients();
   }
 
-  async getAccessToken(): Promise<string> {
+  get tenantId(): string {
+    return this.config.tenantId || 'common';
+  }
+
+  // scope: audience of the token (see tokenScopes), the Power BI API by default.
+  // forceRefresh skips every cache, e.g. after the API rejected the token with 401
+  async getAccessToken(scope = POWER_BI_SCOPE, forceRefresh = false): Promise<string> {
     // Check cached token validity (5 min buffer)
-    if (this.cachedToken && this.cachedToken.expiresOn) {
-      const expiresOn = new Date(this.cachedToken.expiresOn);
+    const cached = this.cachedTokens.get(scope);
+    if (!forceRefresh && cached && cached.expiresOn) {
+      const expiresOn = new Date(cached.expiresOn);
       if (expiresOn.getTime() - Date.now() > 5 * 60 * 1000) {
-        return this.cachedToken.accessToken;
+        return cached.accessToken;
       }
     }
 
-    const token = await this.acquireToken();
-    this.cachedToken = token;
+    const token = await this.acquireToken(scope, forceRefresh);
+    this.cachedTokens.set(scope, token);
     return token.accessToken;
   }
 
-  private async acquireToken(): Promise<AuthenticationResult> {
+  private async acquireToken(scope: string, forceRefresh: boolean): Promise<AccessToken> {
     switch (this.config.method) {
       case 'interactive':
-        return this.acquireInteractive();
+        return this.acquireInteractive(scope, forceRefresh);
       case 'deviceCode':
-        return this.acquireDeviceCode();
+        return this.acquireDeviceCode(scope, forceRefresh);
       case 'clientCredentials':
-        return this.acquireClientCredentials();
+      case 'certificate':
+      case 'federated':
+        return this.acquireClientCredentials(scope, forceRefresh);
+      case 'azureCli':
+        return this.acquireAzureCli(scope);
       default:
         throw new Error(`Método de autenticação desconhecido: ${this.config.method}`);
     }
   }
 
-  private async acquireInteractive(): Promise<AuthenticationResult> {
+  // Uses the cached account (persisted across restarts), refreshing its token when needed.
+  // With `account` configured, only that account; otherwise the first one.
+  // The refresh token of the account also serves the other scopes.
+  private async acquireSilent(pca: PublicClientApplication, scope: string, forceRefresh: boolean): Promise<AuthenticationResult | undefined> {
+    const accounts = await pca.getAllAccounts();
+    const wanted = this.config.account?.toLowerCase();
+    const account = wanted ? accounts.find(a => a.username.toLowerCase() === wanted) : accounts[0];
+    if (!account) return undefined;
+    try {
+      return await pca.acquireTokenSilent({
+        scopes: [scope],
+        account,
+        forceRefresh
+      }) ?? undefined;
+    } catch {
+      // Refresh token expired or revoked: a new login is needed
+      return undefined;
+    }
+  }
+
+  private async acquireInteractive(scope: string, forceRefresh: boolean): Promise<AuthenticationResult> {
     if (!this.pca) throw new Error('PublicClientApplication não inicializado');
 
     // Try silent first
-    const accounts = await this.pca.getAllAccounts();
-    if (accounts.length > 0) {
-      try {
-        const result = await this.pca.acquireTokenSilent({
-          scopes: [POWER_BI_SCOPE],
-          account: accounts[0]
-        });
-        if (result) return result;
-      } catch {
-        // Silent failed, fall through to interactive
-      }
-    }
+    const silent = await this.acquireSilent(this.pca, scope, forceRefresh);
+    if (silent) return silent;
 
-    // Interactive: open browser automatically
-    return this.pca.acquireTokenInteractive({
-      scopes: [POWER_BI_SCOPE],
-      openBrowser: async (url: string) => {
-        process.stderr.write(`[PowerBi MCP AeC] Abrindo browser para autenticação: ${url}\n`);
-        try {
-          execSync(`start "" "${url}"`, { stdio: 'ignore' });
-        } catch {
-          process.stderr.write(`[PowerBi MCP AeC] Abra manualmente: ${url}\n`);
-        }
-      },
-      successTemplate: '<h1>Autenticação concluída! Pode fechar esta janela.</h1>',
-      errorTemplate: '<h1>Erro: {errorCode}</h1>'
-    });
+    // Interactive: open browser automatically, redirect back to a loopback port
+    try {
+      return await this.pca.acquireTokenInteractive({
+        scopes: [scope],
+        openBrowser: async (url: string) => {
+          process.stderr.write(`[PowerBi MCP AeC] Abrindo browser para autenticação: ${url}\n`);
+          await openSignInPage(url, this.openExternal);
+        },
+        loopbackClient: new TimedLoopbackClient(),
+        ...(this.config.account && { loginHint: this.config.account }),
+        successTemplate: '<h1>Autenticação concluída! Pode fechar esta janela.</h1>',
+        errorTemplate: '<h1>Erro: {errorCode}</h1>'
+      });
+    } catch (e) {
+      // No browser, page refused or login abandoned: device code works anywhere
+      if (!(e instanceof InteractiveLoginUnavailableError)) throw e;
+      process.stderr.write(`[PowerBi MCP AeC] Login interativo indisponível (${e.message}) — usando código de dispositivo\n`);
+      return this.acquireDeviceCode(scope, false);
+    }
   }
 
-  private async acquireDeviceCode(): Promise<AuthenticationResult> {
+  private async acquireDeviceCode(scope: string, forceRefresh: boolean): Promise<AuthenticationResult> {
     if (!this.pca) throw new Error('PublicClientApplication não inicializado');
 
+    const silent = await this.acquireSilent(this.pca, scope, forceRefresh);
+    if (silent) return silent;
+
     const result = await this.pca.acquireTokenByDeviceCode({
-      scopes: [POWER_BI_SCOPE],
+      scopes: [scope],
       deviceCodeCallback: (response) => {
         process.stderr.write(`\n[PowerBi MCP AeC] Para autenticar, acesse:\n${response.verificationUri}\nE insira o código: ${response.userCode}\n\n`);
       }
@@ -120,39 +227,43 @@ export class AuthProvider {
     return result;
   }
 
-  private async acquireClientCredentials(): Promise<AuthenticationResult> {
-    if (!this.cca) throw new Error('ConfidentialClientApplication não inicializado');
-    if (!this.config.tenantId) throw new Error('tenantId é obrigatório para Client Credentials');
+  private async acquireClientCredentials(scope: string, forceRefresh: boolean): Promise<AuthenticationResult> {
+    if (!this.config.tenantId) throw new Error('tenantId é obrigatório para Service Principal');
+    const cca = await this.confidentialClient();
 
-    const result = await this.cca.acquireTokenByClientCredential({
-      scopes: [POWER_BI_SCOPE]
+    const result = await cca.acquireTokenByClientCredential({
+      scopes: [scope],
+      skipCache: forceRefresh
     });
-    if (!result) throw new Error('Client Credentials retornou token nulo. Verifique clientId/clientSecret/tenantId.');
+    if (!result) throw new Error('Service Principal retornou token nulo. Verifique clientId, tenantId e a credencial.');
     return result;
   }
 
-  clearCache(): void {
-    this.cachedToken = undefined;
+  // Reuses the login of `az login`; the CLI refreshes its own tokens
+  private async acquireAzureCli(scope: string): Promise<AccessToken> {
+    if (!this.cliCredential) throw new Error('Credencial do Azure CLI não inicializada');
+    const token = await this.cliCredential.getToken(scope);
+    return { accessToken: token.token, expiresOn: new Date(token.expiresOnTimestamp) };
   }
 
-  isAuthenticated(): boolean {
-    if (!this.cachedToken) return false;
-    if (!this.cachedToken.expiresOn) return false;
-    return new Date(this.cachedToken.expiresOn).getTime() > Date.now();
+  // Signs out: removes every account and token from memory and from the persistent cache
+  async clearCache(): Promise<void> {
+    this.cachedTokens.clear();
+    if (this.pca) {
+      const cache = this.pca.getTokenCache();
+      for (const account of await cache.getAllAccounts()) {
+        await cache.removeAccount(account);
+      }
+    }
+    await this.cachePlugin?.clear();
+    // Fresh clients also drop the app tokens of client credentials, which have no account
+    this.initializeClients();
   }
-}
-
-// Singleton instance (used by MCP server process)
-let authProviderInstance: AuthProvider | null = null;
 
-export function getAuthProvider(config?: AuthConfig): AuthProvider {
-  if (!authProviderInstance && config) {
-    authProviderInstance = new AuthProvider(config);
-  } else if (authProviderInstance && config) {
-    authProviderInstance.updateConfig(config);
-  }
-  if (!authProviderInstance) {
-    throw new Error('AuthProvider não inicializado. Forneça config na primeira chamada.');
+  // Whether any scope has an unexpired token in memory
+  isAuthenticated(): boolean {
+    return [...this.cachedTokens.values()].some(token =>
+      token.expiresOn !== null && new Date(token.expiresOn).getTime() > Date.now()
+    );
   }
-  return authProviderInstance;
 }
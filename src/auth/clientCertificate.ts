@@ -0,0 +1,89 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+
+// ============================================================
+// Client certificate
+// Loads the certificate of a Service Principal in the form MSAL
+// takes: the private key as unencrypted PEM and the SHA-256
+// thumbprint of the certificate. PEM files are read directly;
+// PFX files go through the openssl CLI, since Node cannot read
+// PKCS#12.
+// ============================================================
+
+export interface ClientCertificate {
+  thumbprintSha256: string;
+  privateKey: string;
+}
+
+const PEM_CERTIFICATE = /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+const PEM_PRIVATE_KEY = /-----BEGIN (ENCRYPTED |RSA |EC )?PRIVATE KEY-----[\s\S]+?-----END \1?PRIVATE KEY-----/;
+
+// Carries the PFX password to openssl without putting it on the command line
+const PFX_PASSWORD_ENV = 'POWERBI_MCP_AEC_PFX_PASSWORD';
+
+const execFileAsync = promisify(execFile);
+
+// With a thumbprint (SHA-1 or SHA-256), that certificate of the file is used;
+// otherwise the one matching the private key
+export async function loadClientCertificate(file: string, thumbprint?: string, password?: string): Promise<ClientCertificate> {
+  const pem = /\.(pfx|p12)$/i.test(file) ? await pfxToPem(file, password) : await readPem(file);
+
+  const certificates = (pem.match(PEM_CERTIFICATE) ?? []).map(block => new crypto.X509Certificate(block));
+  if (certificates.length === 0) throw new Error(`Nenhum certificado encontrado em ${file}`);
+  const keyPem = PEM_PRIVATE_KEY.exec(pem)?.[0];
+  if (!keyPem) throw new Error(`Nenhuma chave privada encontrada em ${file}`);
+
+  let privateKey: crypto.KeyObject;
+  try {
+    privateKey = crypto.createPrivateKey({ key: keyPem, format: 'pem', ...(password && { passphrase: password }) });
+  } catch (e) {
+    throw new Error(`Não foi possível ler a chave privada de ${file}: ${e instanceof Error ? e.message : e}. Confira a senha do certificado.`);
+  }
+
+  const wanted = thumbprint?.replace(/[^0-9a-f]/gi, '').toUpperCase();
+  const certificate = wanted
+    ? certificates.find(c => [c.fingerprint, c.fingerprint256].some(f => f.replace(/:/g, '') === wanted))
+    : certificates.find(c => c.checkPrivateKey(privateKey));
+  if (!certificate) {
+    throw new Error(wanted
+      ? `Certificado com thumbprint ${thumbprint} não encontrado em ${file}`
+      : `Nenhum certificado de ${file} corresponde à chave privada`);
+  }
+  if (!certificate.checkPrivateKey(privateKey)) {
+    throw new Error(`A chave privada de ${file} não pertence ao certificado ${thumbprint}`);
+  }
+
+  return {
+    thumbprintSha256: certificate.fingerprint256.replace(/:/g, ''),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+  };
+}
+
+async function readPem(file: string): Promise<string> {
+  try {
+    return await fs.readFile(file, 'utf8');
+  } catch (e) {
+    throw new Error(`Não foi possível ler o certificado ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+// Certificates and unencrypted key of a PFX. OpenSSL 3 needs -legacy for
+// PFX files exported with the older algorithms (RC2/3DES).
+async function pfxToPem(file: string, password?: string): Promise<string> {
+  const env = { ...process.env, [PFX_PASSWORD_ENV]: password ?? '' };
+  const args = ['pkcs12', '-in', file, '-nodes', '-passin', `env:${PFX_PASSWORD_ENV}`];
+  try {
+    return (await execFileAsync('openssl', args, { env })).stdout;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`openssl não encontrado para ler ${file}. Converta o PFX para PEM (openssl pkcs12 -in certificado.pfx -out certificado.pem -nodes) e use o arquivo .pem.`);
+    }
+    try {
+      return (await execFileAsync('openssl', [...args, '-legacy'], { env })).stdout;
+    } catch {
+      throw new Error(`Não foi possível abrir o PFX ${file}: confira o arquivo e a senha do certificado.`);
+    }
+  }
+}
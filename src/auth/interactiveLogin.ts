@@ -0,0 +1,145 @@
+import { AuthError, ILoopbackClient, ServerAuthorizationCodeResponse } from '@azure/msal-node';
+import { spawn } from 'child_process';
+import * as http from 'http';
+
+// ============================================================
+// Interactive login
+// Opening the sign-in page and receiving the redirect on a
+// loopback port. The page is opened by the extension
+// (vscode.env.openExternal, which also works in remote windows)
+// when the server runs under VS Code, otherwise by the platform's
+// launcher. A login that cannot start or is not finished in time
+// raises InteractiveLoginUnavailableError, and the caller falls
+// back to device code.
+// ============================================================
+
+// Asks the extension to open a URL; resolves false when the user declined
+export type UrlOpener = (url: string) => Promise<boolean>;
+
+// Time to finish the sign-in in the browser
+export const LOGIN_TIMEOUT_MS = 3 * 60_000;
+
+// Launchers that open a browser return at once; one still running after this
+// is a browser in the foreground (e.g. a text browser) and is left alone
+const LAUNCHER_WAIT_MS = 5_000;
+
+export class InteractiveLoginUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InteractiveLoginUnavailableError';
+  }
+}
+
+// Through the extension when it answers; its answer is final (the user may
+// have refused to open the page). Otherwise the platform's launcher.
+export async function openSignInPage(url: string, extension?: UrlOpener): Promise<void> {
+  if (extension) {
+    let opened: boolean | undefined;
+    try {
+      opened = await extension(url);
+    } catch (e) {
+      process.stderr.write(`[PowerBi MCP AeC] ${e instanceof Error ? e.message : e} — abrindo o browser diretamente\n`);
+    }
+    if (opened === false) throw new InteractiveLoginUnavailableError('abertura da página de login recusada');
+    if (opened) return;
+  }
+  if (!(await launchBrowser(url))) {
+    throw new InteractiveLoginUnavailableError(`nenhum browser disponível em ${process.platform}`);
+  }
+}
+
+function launcher(url: string): { command: string; args: string[] } | undefined {
+  switch (process.platform) {
+    case 'win32':
+      // Avoids cmd's `start`, which splits the URL at every &
+      return { command: 'rundll32', args: ['url.dll,FileProtocolHandler', url] };
+    case 'darwin':
+      return { command: 'open', args: [url] };
+    default:
+      // No graphical session (SSH, container): nothing could show the page
+      if (!process.env.DISPLAY && !process.env.WAYLAND_DISPLAY) return undefined;
+      return { command: 'xdg-open', args: [url] };
+  }
+}
+
+function launchBrowser(url: string): Promise<boolean> {
+  const target = launcher(url);
+  if (!target) return Promise.resolve(false);
+  return new Promise(resolve => {
+    const child = spawn(target.command, target.args, { stdio: 'ignore', detached: true });
+    const timer = setTimeout(() => {
+      child.unref();
+      resolve(true);
+    }, LAUNCHER_WAIT_MS);
+    child.on('error', () => {
+      clearTimeout(timer);
+      resolve(false);
+    });
+    child.on('exit', code => {
+      clearTimeout(timer);
+      resolve(code === 0);
+    });
+  });
+}
+
+// MSAL's loopback server with a deadline: the redirect must arrive within
+// timeoutMs, otherwise the port is closed and the login abandoned
+export class TimedLoopbackClient implements ILoopbackClient {
+  private server?: http.Server;
+
+  constructor(private readonly timeoutMs = LOGIN_TIMEOUT_MS) {}
+
+  listenForAuthCode(successTemplate?: string, errorTemplate?: string): Promise<ServerAuthorizationCodeResponse> {
+    if (this.server) return Promise.reject(new Error('Servidor de retorno do login já iniciado'));
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.closeServer();
+        reject(new InteractiveLoginUnavailableError(`login não concluído no browser em ${Math.round(this.timeoutMs / 1000)} s`));
+      }, this.timeoutMs);
+
+      this.server = http.createServer((req, res) => {
+        const redirectUri = this.getRedirectUri();
+        const url = new URL(req.url ?? '/', redirectUri);
+        // The page the code redirect below lands on
+        if (url.pathname === '/' && !url.search) {
+          res.end(successTemplate ?? 'Autenticação concluída.');
+          return;
+        }
+        const response = Object.fromEntries(url.searchParams) as ServerAuthorizationCodeResponse;
+        if (response.code) {
+          // Keeps the authorization code out of the browser history
+          res.writeHead(302, { location: redirectUri });
+          res.end();
+        } else if (response.error) {
+          res.end((errorTemplate ?? 'Erro: {errorCode}').replace('{errorCode}', response.error));
+        } else {
+          res.statusCode = 404;
+          res.end();
+          return;
+        }
+        clearTimeout(timer);
+        resolve(response);
+      });
+      this.server.on('error', e => {
+        clearTimeout(timer);
+        reject(e);
+      });
+      this.server.listen(0, '127.0.0.1');
+    });
+  }
+
+  // MSAL polls this until the port is open, retrying only on this error code
+  getRedirectUri(): string {
+    const address = this.server?.listening ? this.server.address() : undefined;
+    if (!address || typeof address === 'string') throw new AuthError('no_loopback_server_exists', 'Servidor de retorno do login ainda não está escutando');
+    return `http://localhost:${address.port}`;
+  }
+
+  closeServer(): void {
+    if (!this.server) return;
+    this.server.close();
+    this.server.closeAllConnections();
+    this.server.unref();
+    this.server = undefined;
+  }
+}
@@ -0,0 +1,44 @@
+import { AuthSecretName } from '../types/index.js';
+
+// ============================================================
+// Authentication secrets
+// Client secret and certificate password live in the extension's
+// SecretStorage, per connection profile; the server reads them
+// through the extension bridge. Environment variables are the
+// fallback for servers run outside VS Code.
+// ============================================================
+
+export type SecretSource = (name: AuthSecretName) => Promise<string | undefined>;
+
+// Secrets of a connection profile; profile undefined is the default one
+export type ProfileSecretSource = (name: AuthSecretName, profile?: string) => Promise<string | undefined>;
+
+export const AUTH_SECRET_NAMES: AuthSecretName[] = ['clientSecret', 'certificatePassword'];
+
+export const SECRET_ENV_VARS: Record<AuthSecretName, string> = {
+  clientSecret: 'POWERBI_CLIENT_SECRET',
+  certificatePassword: 'POWERBI_CERTIFICATE_PASSWORD'
+};
+
+export function isAuthSecretName(value: unknown): value is AuthSecretName {
+  return AUTH_SECRET_NAMES.includes(value as AuthSecretName);
+}
+
+// Key of the secret in VS Code's SecretStorage
+export function secretStorageKey(name: AuthSecretName, profile?: string): string {
+  return profile ? `powerbiMcpAec.profile.${profile}.${name}` : `powerbiMcpAec.auth.${name}`;
+}
+
+export function isAuthSecretKey(key: string): boolean {
+  return AUTH_SECRET_NAMES.some(name => key === secretStorageKey(name) || (key.startsWith('powerbiMcpAec.profile.') && key.endsWith(`.${name}`)));
+}
+
+export function secretFromEnv(name: AuthSecretName): string | undefined {
+  return process.env[SECRET_ENV_VARS[name]] || undefined;
+}
+
+// Profile whose secret a SecretStorage key holds; undefined for the default profile
+export function profileOfSecretKey(key: string): string | undefined {
+  const match = /^powerbiMcpAec\.profile\.(.+)\.[^.]+$/.exec(key);
+  return match?.[1];
+}
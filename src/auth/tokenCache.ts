@@ -0,0 +1,130 @@
+import { ICachePlugin, TokenCacheContext } from '@azure/msal-node';
+import { promises as fs } from 'fs';
+import * as crypto from 'crypto';
+import * as path from 'path';
+
+// ============================================================
+// Persistent token cache
+// MSAL cache plugin that keeps accounts and refresh tokens in an
+// AES-256-GCM encrypted file in the extension's global storage,
+// so a server restart does not ask for a new login. The key lives
+// in the OS keychain (keytar) or, when that is unavailable, in a
+// key file readable only by the user. Every process pointed at
+// the same storage folder shares the cache. Each connection
+// profile has its own cache file.
+// ============================================================
+
+export const TOKEN_CACHE_FILE = 'msal-cache.bin';
+const PROFILE_CACHE_FILE = /^msal-cache(-[\w-]+)?\.bin$/;
+const KEY_FILE = 'msal-cache.key';
+
+const KEYCHAIN_SERVICE = 'PowerBi MCP AeC';
+const KEYCHAIN_ACCOUNT = 'msal-cache-key';
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export class TokenCachePlugin implements ICachePlugin {
+  private key?: Promise<Buffer>;
+  private readonly file: string;
+
+  constructor(private readonly directory: string, fileName = TOKEN_CACHE_FILE) {
+    this.file = path.join(directory, fileName);
+  }
+
+  async beforeCacheAccess(context: TokenCacheContext): Promise<void> {
+    const data = await this.read();
+    if (data) context.tokenCache.deserialize(data);
+  }
+
+  async afterCacheAccess(context: TokenCacheContext): Promise<void> {
+    if (!context.cacheHasChanged) return;
+    await this.write(context.tokenCache.serialize());
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.file, { force: true });
+  }
+
+  // An unreadable cache (other key, corrupted file) is dropped: the next call logs in again
+  private async read(): Promise<string | undefined> {
+    const content = await fs.readFile(this.file).catch(() => undefined);
+    if (!content || content.length <= IV_LENGTH + TAG_LENGTH) return undefined;
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', await this.cacheKey(), content.subarray(0, IV_LENGTH));
+      decipher.setAuthTag(content.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+      return Buffer.concat([decipher.update(content.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+    } catch {
+      process.stderr.write('[PowerBi MCP AeC] Cache de tokens ilegível — será necessário autenticar novamente\n');
+      return undefined;
+    }
+  }
+
+  // Written to a temporary file and renamed, so concurrent processes never read half a cache
+  private async write(data: string): Promise<void> {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', await this.cacheKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(data, 'utf8'), cipher.final()]);
+    const temporary = `${this.file}.${process.pid}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temporary, Buffer.concat([iv, cipher.getAuthTag(), encrypted]), { mode: 0o600 });
+    await fs.rename(temporary, this.file);
+  }
+
+  private cacheKey(): Promise<Buffer> {
+    if (!this.key) {
+      this.key = loadCacheKey(this.directory);
+      // Retry on the next access rather than caching a failure
+      this.key.catch(() => { this.key = undefined; });
+    }
+    return this.key;
+  }
+}
+
+// Cache file of a named connection profile; the default profile (undefined)
+// keeps the original file
+export function tokenCacheFileFor(profile?: string): string {
+  if (!profile) return TOKEN_CACHE_FILE;
+  const slug = profile.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+  const hash = crypto.createHash('sha256').update(profile).digest('hex').slice(0, 8);
+  return `msal-cache-${slug ? `${slug}-` : ''}${hash}.bin`;
+}
+
+// Removes every cached account and token, of every profile
+export async function clearTokenCache(directory: string): Promise<void> {
+  const files = await fs.readdir(directory).catch(() => [] as string[]);
+  await Promise.all(files.filter(f => PROFILE_CACHE_FILE.test(f)).map(f => fs.rm(path.join(directory, f), { force: true })));
+}
+
+async function loadCacheKey(directory: string): Promise<Buffer> {
+  const keychain = await loadKeytar();
+  if (keychain) {
+    try {
+      const stored = await keychain.getPassword(KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT);
+      if (stored) return Buffer.from(stored, 'hex');
+      const key = crypto.randomBytes(32);
+      await keychain.setPassword(KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT, key.toString('hex'));
+      return key;
+    } catch {
+      // No keychain service running (e.g. Linux without libsecret): use the key file
+    }
+  }
+
+  const keyFile = path.join(directory, KEY_FILE);
+  const stored = await fs.readFile(keyFile, 'utf8').catch(() => undefined);
+  if (stored && /^[0-9a-f]{64}$/i.test(stored.trim())) return Buffer.from(stored.trim(), 'hex');
+  const key = crypto.randomBytes(32);
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(keyFile, key.toString('hex'), { mode: 0o600 });
+  return key;
+}
+
+// keytar is a native module and may be missing or fail to load
+async function loadKeytar(): Promise<typeof import('keytar') | undefined> {
+  try {
+    const keytar = await import('keytar');
+    return (keytar as { default?: typeof import('keytar') }).default ?? keytar;
+  } catch {
+    return undefined;
+  }
+}
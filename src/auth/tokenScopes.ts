@@ -0,0 +1,34 @@
+// ============================================================
+// Token scopes
+// Each service accepts tokens of its own audience: the Power BI
+// REST API and powerbi:// XMLA endpoints (Power BI and Fabric
+// workspaces), the Fabric REST API, and Azure Analysis Services
+// servers (asazure://), whose audience is the cloud's asazure
+// domain.
+// ============================================================
+
+export const POWER_BI_SCOPE = 'https://analysis.windows.net/powerbi/api/.default';
+export const FABRIC_SCOPE = 'https://api.fabric.microsoft.com/.default';
+
+// Audience of a REST request: absolute Fabric URLs need a Fabric token,
+// everything else goes to the Power BI API
+export function restApiScope(url: string): string {
+  const host = hostOf(url);
+  return host === 'api.fabric.microsoft.com' ? FABRIC_SCOPE : POWER_BI_SCOPE;
+}
+
+// Audience of an XMLA endpoint: asazure://<region>.asazure.windows.net/<server>
+// (or its https:// form) needs an Analysis Services token
+export function xmlaScope(xmlaEndpoint: string): string {
+  const host = hostOf(xmlaEndpoint.trim().replace(/^asazure:/i, 'https:'));
+  const domain = host && /^[^.]+\.(asazure\.[^/]+)$/.exec(host)?.[1];
+  return domain ? `https://*.${domain}/.default` : POWER_BI_SCOPE;
+}
+
+function hostOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
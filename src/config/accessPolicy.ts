@@ -0,0 +1,170 @@
+import { AccessPolicy, DatasetLocation } from '../types/index.js';
+
+// ============================================================
+// Access Policy
+// Restricts which workspaces, models and tables a tool call may
+// target, e.g. allow databases "*_DEV" and deny workspaces
+// "*Produção*". Checked on the call arguments before the tool runs.
+// ============================================================
+
+type PolicyScope = keyof AccessPolicy;
+
+// The values one object is known by in each scope, e.g. a workspace's ID and name
+type PolicyTargets = Partial<Record<PolicyScope, Array<string | undefined>>>;
+
+const SCOPE_LABELS: Record<PolicyScope, string> = {
+  workspaces: 'o workspace',
+  datasets: 'o modelo semântico',
+  xmlaEndpoints: 'o endpoint XMLA',
+  databases: 'o banco de dados',
+  tables: 'a tabela'
+};
+
+// Argument names (at any depth, e.g. model_compare's source/target) and the scope they target
+const ARGUMENT_SCOPES: Record<string, PolicyScope> = {
+  workspaceId: 'workspaces',
+  semanticModelId: 'datasets',
+  datasetId: 'datasets',
+  xmlaEndpoint: 'xmlaEndpoints',
+  sourceXmlaEndpoint: 'xmlaEndpoints',
+  databaseName: 'databases',
+  sourceDatabaseName: 'databases',
+  tableName: 'tables',
+  fromTable: 'tables',
+  toTable: 'tables'
+};
+
+// Definition arguments whose `name` is the object they create or replace
+const DEFINITION_SCOPES: Record<string, PolicyScope> = {
+  tableDefinition: 'tables',
+  databaseDefinition: 'databases'
+};
+
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+function hasAccessPolicy(policy: AccessPolicy | undefined): policy is AccessPolicy {
+  return !!policy && Object.values(policy).some(list => (list?.allow?.length ?? 0) + (list?.deny?.length ?? 0) > 0);
+}
+
+// Throws when any object targeted by the call is outside the policy
+export function checkAccessPolicy(toolName: string, args: Record<string, unknown>, policy: AccessPolicy | undefined): void {
+  if (!hasAccessPolicy(policy)) return;
+  for (const { scope, value } of collectTargets(args)) {
+    const reason = findViolation(scope, [value], policy);
+    if (reason) throw new AccessDeniedError(`Acesso negado pela política de acesso em '${toolName}': ${reason}`);
+  }
+}
+
+// A call that passes only a semanticModelId/datasetId also targets the
+// model's workspace and database (the database is the model's name), which
+// are looked up to check them against the policy
+export async function checkDatasetAccess(
+  toolName: string,
+  args: Record<string, unknown>,
+  policy: AccessPolicy | undefined,
+  locate: (datasetId: string) => Promise<DatasetLocation | undefined>
+): Promise<void> {
+  if (!hasAccessPolicy(policy) || !(policy.workspaces || policy.databases)) return;
+  for (const { scope, value } of collectTargets(args)) {
+    if (scope !== 'datasets') continue;
+    const location = await locate(value).catch(() => undefined);
+    if (!location) {
+      throw new AccessDeniedError(
+        `Acesso negado pela política de acesso em '${toolName}': não foi possível identificar o workspace e o banco de dados do modelo semântico '${value}'.`
+      );
+    }
+    const reason = findViolation('workspaces', [location.workspaceId, location.workspaceName], policy)
+      ?? findViolation('databases', [location.name], policy);
+    if (reason) throw new AccessDeniedError(`Acesso negado pela política de acesso em '${toolName}': ${reason}`);
+  }
+}
+
+// For list results: whether an object is inside the policy. One of its
+// values matching allow is enough, and any value matching deny excludes it.
+export function isAllowedByAccessPolicy(targets: PolicyTargets, policy: AccessPolicy | undefined): boolean {
+  if (!hasAccessPolicy(policy)) return true;
+  return Object.entries(targets).every(([scope, values]) => !findViolation(scope as PolicyScope, values ?? [], policy));
+}
+
+// Listed workspaces are known by ID and name; semantic models by ID and, as
+// databases, by name
+export function workspaceTargets(workspace: Record<string, unknown>): PolicyTargets {
+  return { workspaces: [workspace.id as string | undefined, workspace.name as string | undefined] };
+}
+
+export function datasetTargets(dataset: Record<string, unknown>): PolicyTargets {
+  return { datasets: [dataset.id as string | undefined], databases: [dataset.name as string | undefined] };
+}
+
+// Why the object known by these values is outside the scope's lists, if it is
+function findViolation(scope: PolicyScope, values: Array<string | undefined>, policy: AccessPolicy): string | undefined {
+  const list = policy[scope];
+  const known = values.filter((value): value is string => !!value?.trim());
+  if (!list || known.length === 0) return undefined;
+  for (const value of known) {
+    const denied = list.deny?.find(pattern => matchesPattern(value, pattern));
+    if (denied) return `${SCOPE_LABELS[scope]} '${value}' corresponde ao padrão bloqueado '${denied}' (${scope}.deny).`;
+  }
+  if (list.allow?.length && !known.some(value => list.allow!.some(pattern => matchesPattern(value, pattern)))) {
+    return `${SCOPE_LABELS[scope]} '${known[known.length - 1]}' não corresponde a nenhum padrão permitido (${scope}.allow: ${list.allow.join(', ')}).`;
+  }
+  return undefined;
+}
+
+// Glob match over the whole value, case-insensitive
+function matchesPattern(value: string, pattern: string): boolean {
+  const source = pattern.trim().split('').map(char =>
+    char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\/]/g, '\\$&')
+  ).join('');
+  return new RegExp(`^${source}$`, 'i').test(value.trim());
+}
+
+function collectTargets(args: unknown): Array<{ scope: PolicyScope; value: string }> {
+  const targets: Array<{ scope: PolicyScope; value: string }> = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (typeof value !== 'object' || value === null) return;
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      const scope = ARGUMENT_SCOPES[key];
+      if (scope && typeof item === 'string' && item.trim()) {
+        targets.push({ scope, value: item.trim() });
+        if (scope === 'xmlaEndpoints') {
+          const workspace = workspaceFromEndpoint(item);
+          if (workspace) targets.push({ scope: 'workspaces', value: workspace });
+        }
+      } else if (DEFINITION_SCOPES[key] && typeof (item as { name?: unknown })?.name === 'string') {
+        targets.push({ scope: DEFINITION_SCOPES[key], value: (item as { name: string }).name });
+      } else if (key === 'objectPaths' && Array.isArray(item)) {
+        // "Tabela.Objeto" or "Tabela"
+        for (const objectPath of item) {
+          if (typeof objectPath === 'string' && objectPath.trim()) {
+            targets.push({ scope: 'tables', value: objectPath.split('.')[0].trim() });
+          }
+        }
+      } else {
+        visit(item);
+      }
+    }
+  };
+  visit(args);
+  return targets;
+}
+
+// powerbi://api.powerbi.com/v1.0/myorg/Vendas DEV -> "Vendas DEV"
+function workspaceFromEndpoint(endpoint: string): string | undefined {
+  const match = /^powerbi:\/\/[^/]+\/v[\d.]+\/[^/]+\/([^/?;]+)/i.exec(endpoint.trim());
+  if (!match) return undefined;
+  try {
+    return decodeURIComponent(match[1]).trim();
+  } catch {
+    return match[1].trim();
+  }
+}
@@ -0,0 +1,64 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ConnectionConfig, ConnectionProfile, ServerConfig } from '../types/index.js';
+
+// ============================================================
+// Connection profiles
+// Named tenants and accounts to switch between, e.g. one per
+// client. The main auth and connection settings are the profile
+// `default`. Calls without a `profile` argument use the active
+// profile, and the profile's default XMLA endpoint and model
+// fill those arguments when the operation requires them and the
+// call leaves them out.
+// ============================================================
+
+export const DEFAULT_PROFILE = 'default';
+
+// Every profile of the configuration, the default one first
+export function profilesOf(config: ServerConfig): ConnectionProfile[] {
+  const named = (config.profiles ?? []).filter(p => p.name && p.name.toLowerCase() !== DEFAULT_PROFILE);
+  return [{ name: DEFAULT_PROFILE, auth: config.auth, connection: config.connection }, ...named];
+}
+
+// The active profile, or the default one when it no longer exists
+export function activeProfileOf(config: ServerConfig): string {
+  const active = config.activeProfile;
+  return active && profilesOf(config).some(p => p.name === active) ? active : DEFAULT_PROFILE;
+}
+
+// Adds the `profile` argument when there is more than the default profile
+export function withProfileArgument(definition: Tool, profiles: ConnectionProfile[], active: string): Tool {
+  if (profiles.length < 2) return definition;
+  return {
+    ...definition,
+    inputSchema: {
+      ...definition.inputSchema,
+      properties: {
+        ...definition.inputSchema.properties,
+        profile: {
+          type: 'string',
+          enum: profiles.map(p => p.name),
+          description: `Perfil de conexão (tenant e conta) da chamada; padrão: ${active}. Se a operação exige xmlaEndpoint ou semanticModelId e a chamada não os informa, usa os padrões do perfil (connection_operations list_profiles).`
+        }
+      }
+    }
+  };
+}
+
+// Fills xmlaEndpoint, and semanticModelId when the profile has a single
+// default model, where the operation requires them and the call left them
+// out. Optional ones stay out: leaving them out can be the point (e.g.
+// transaction_operations status across every endpoint).
+export function applyProfileDefaults(
+  required: string[],
+  args: Record<string, unknown>,
+  connection: ConnectionConfig
+): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+  if (required.includes('xmlaEndpoint') && args.xmlaEndpoint === undefined && connection.xmlaEndpoint) {
+    defaults.xmlaEndpoint = connection.xmlaEndpoint;
+  }
+  if (required.includes('semanticModelId') && args.semanticModelId === undefined && connection.defaultSemanticModelIds.length === 1) {
+    defaults.semanticModelId = connection.defaultSemanticModelIds[0];
+  }
+  return { ...args, ...defaults };
+}
@@ -1,9 +1,10 @@
-import { ToolsState, ToolInfo } from '../types/index.js';
-import { ALL_TOOLS } from './toolConfig.js';
+import { ToolsState, ToolInfo, OperationKind } from '../types/index.js';
+import { ALL_TOOLS, TOOL_MAP, getOperationKind, operationKey } from './toolConfig.js';
 
 // ============================================================
 // Permissions Manager
-// Controls access to tools based on configuration
+// Controls access to tools and their individual operations
+// based on configuration
 // ============================================================
 
 export interface PermissionProfile {
@@ -17,7 +18,7 @@ export const PERMISSION_PROFILES: PermissionProfile[] = [
   {
     name: 'Somente Leitura',
     description: 'Apenas consultas e leitura de esquema — sem modificações',
-    toolsState: buildProfileState(tool => !tool.isDestructive && !tool.isAdvanced)
+    toolsState: buildProfileState(tool => !tool.isAdvanced, (_tool, kind) => kind === 'read')
   },
   {
     name: 'Desenvolvedor',
@@ -32,31 +33,82 @@ export const PERMISSION_PROFILES: PermissionProfile[] = [
   {
     name: 'Apenas DAX',
     description: 'Somente operações relacionadas a DAX',
-    toolsState: buildProfileState(tool =>
-      ['get_semantic_model_schema', 'generate_query', 'execute_query', 'dax_query_operations', 'measure_operations'].includes(tool.id)
+    toolsState: buildProfileState(
+      tool => ['get_semantic_model_schema', 'generate_query', 'execute_query', 'dax_query_operations', 'measure_operations'].includes(tool.id),
+      (_tool, kind) => kind !== 'destructive'
     )
   }
 ];
 
-function buildProfileState(predicate: (tool: ToolInfo) => boolean): ToolsState {
+// Enables the tools matching `predicate` and, within them, the operations
+// matching `allowOperation` (all of them when omitted)
+function buildProfileState(
+  predicate: (tool: ToolInfo) => boolean,
+  allowOperation: (tool: ToolInfo, kind: OperationKind) => boolean = () => true
+): ToolsState {
   const state: ToolsState = {};
   for (const tool of ALL_TOOLS) {
     state[tool.id] = predicate(tool);
+    for (const [operation, kind] of Object.entries(tool.operations ?? {})) {
+      state[operationKey(tool.id, operation)] = allowOperation(tool, kind);
+    }
   }
   return state;
 }
 
-// Validate that a tool operation is allowed given the current state
+// Validate that a tool is enabled given the current state
 export function isToolAllowed(toolId: string, toolsState: ToolsState): boolean {
   return toolsState[toolId] === true;
 }
 
+// Validate that a tool operation is allowed: the tool must be enabled and the
+// operation not switched off. Calls without an operation depend on the tool only.
+export function isOperationAllowed(toolId: string, operation: unknown, toolsState: ToolsState): boolean {
+  if (!isToolAllowed(toolId, toolsState)) return false;
+  if (typeof operation !== 'string') return true;
+  return toolsState[operationKey(toolId, operation)] !== false;
+}
+
+// Operations of a tool that are currently allowed, or undefined for tools
+// without an operation catalog
+export function getAllowedOperations(toolId: string, toolsState: ToolsState): string[] | undefined {
+  const operations = TOOL_MAP.get(toolId)?.operations;
+  if (!operations) return undefined;
+  return Object.keys(operations).filter(operation => isOperationAllowed(toolId, operation, toolsState));
+}
+
+// Whether a call modifies a model. Tools without an operation catalog
+// fall back to their isDestructive flag.
+export function isMutatingOperation(toolId: string, operation: unknown): boolean {
+  const tool = TOOL_MAP.get(toolId);
+  if (!tool?.operations) return tool?.isDestructive === true;
+  const kind = getOperationKind(toolId, operation);
+  // Unknown operations are treated as mutating so read-only never lets them through
+  return kind !== 'read';
+}
+
+// Read-only mode: every tool keeps its read operations, all others are switched off
+export function applyReadOnly(toolsState: ToolsState): ToolsState {
+  const state: ToolsState = { ...toolsState };
+  for (const tool of ALL_TOOLS) {
+    if (!tool.operations) {
+      if (tool.isDestructive) state[tool.id] = false;
+      continue;
+    }
+    for (const [operation, kind] of Object.entries(tool.operations)) {
+      if (kind !== 'read') state[operationKey(tool.id, operation)] = false;
+    }
+  }
+  return state;
+}
+
 // Get a summary of current permissions
 export interface PermissionsSummary {
   enabledCount: number;
   totalCount: number;
   destructiveEnabled: string[];
   advancedEnabled: string[];
+  disabledOperations: string[];
   readOnlyMode: boolean;
 }
 
@@ -67,6 +119,11 @@ export function getPermissionsSummary(toolsState: ToolsState, readOnly: boolean)
     totalCount: ALL_TOOLS.length,
     destructiveEnabled: enabledTools.filter(t => t.isDestructive).map(t => t.name),
     advancedEnabled: enabledTools.filter(t => t.isAdvanced).map(t => t.name),
+    disabledOperations: enabledTools.flatMap(t =>
+      Object.keys(t.operations ?? {})
+        .filter(operation => !isOperationAllowed(t.id, operation, toolsState))
+        .map(operation => operationKey(t.id, operation))
+    ),
     readOnlyMode: readOnly
   };
 }
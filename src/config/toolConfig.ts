@@ -1,4 +1,4 @@
-import { ToolInfo, ToolsState, ServerConfig, AuthConfig, ConnectionConfig } from '../types/index.js';
+import { ToolInfo, ToolsState, ServerConfig, AuthConfig, ConnectionConfig, OperationKind, AccessPolicy } from '../types/index.js';
 
 // ============================================================
 // Central registry of all available tools
@@ -14,7 +14,13 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: true,
     isDestructive: false,
-    isAdvanced: false
+    isAdvanced: false,
+    operations: {
+      detect: 'read', get_schema: 'read', execute_dax: 'read', list_tables: 'read', export_tmdl: 'read',
+      create_measure: 'write', update_measure: 'write', create_column: 'write', update_column: 'write',
+      create_table: 'write', set_description: 'write', set_format_string: 'write',
+      delete_measure: 'destructive', delete_column: 'destructive', delete_table: 'destructive'
+    }
   },
 
   // ---- Remote MCP Tools ----
@@ -58,7 +64,11 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: true,
     isDestructive: false,
-    isAdvanced: false
+    isAdvanced: false,
+    operations: {
+      list_workspaces: 'read', list_datasets: 'read', list_items: 'read', get_dataset_info: 'read', test_connection: 'read',
+      open_pbip: 'read', list_profiles: 'read'
+    }
   },
   {
     id: 'database_operations',
@@ -68,7 +78,12 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: true,
     isDestructive: true,
-    isAdvanced: false
+    isAdvanced: false,
+    operations: {
+      list: 'read', get: 'read', get_refresh_history: 'read', export_tmdl: 'read',
+      refresh: 'write',
+      create: 'destructive', delete: 'destructive', deploy: 'destructive'
+    }
   },
   {
     id: 'transaction_operations',
@@ -78,7 +93,13 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: true,
     isDestructive: false,
-    isAdvanced: false
+    isAdvanced: false,
+    operations: {
+      begin: 'read', status: 'read', rollback: 'read', history: 'read',
+      commit: 'write',
+      // Undoing a create deletes the objects, up to a whole database
+      undo_last: 'destructive', undo: 'destructive'
+    }
   },
   {
     id: 'table_operations',
@@ -88,7 +109,12 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: true,
     isDestructive: true,
-    isAdvanced: false
+    isAdvanced: false,
+    operations: {
+      list: 'read', get: 'read',
+      create: 'write', update: 'write', hide: 'write', unhide: 'write',
+      delete: 'destructive'
+    }
   },
   {
     id: 'column_operations',
@@ -98,7 +124,12 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: true,
     isDestructive: true,
-    isAdvanced: false
+    isAdvanced: false,
+    operations: {
+      list: 'read', get: 'read',
+      create: 'write', update: 'write', hide: 'write', unhide: 'write', update_format: 'write',
+      delete: 'destructive'
+    }
   },
   {
     id: 'measure_operations',
@@ -108,7 +139,12 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: true,
     isDestructive: true,
-    isAdvanced: false
+    isAdvanced: false,
+    operations: {
+      list: 'read', get: 'read', validate_dax: 'read', document: 'read',
+      create: 'write', update: 'write',
+      delete: 'destructive'
+    }
   },
   {
     id: 'relationship_operations',
@@ -118,7 +154,12 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: true,
     isDestructive: true,
-    isAdvanced: false
+    isAdvanced: false,
+    operations: {
+      list: 'read',
+      create: 'write', update: 'write', activate: 'write', deactivate: 'write',
+      delete: 'destructive'
+    }
   },
   {
     id: 'dax_query_operations',
@@ -128,7 +169,11 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: true,
     isDestructive: false,
-    isAdvanced: false
+    isAdvanced: false,
+    operations: {
+      execute: 'read', execute_with_metrics: 'read', analyze_performance: 'read', validate_syntax: 'read',
+      format: 'read'
+    }
   },
   {
     id: 'bulk_operations',
@@ -138,7 +183,11 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: true,
     isDestructive: true,
-    isAdvanced: false
+    isAdvanced: false,
+    operations: {
+      bulk_hide: 'write', bulk_unhide: 'write', bulk_document: 'write', bulk_format_strings: 'write',
+      bulk_rename: 'destructive', apply_naming_convention: 'destructive'
+    }
   },
   {
     id: 'partition_operations',
@@ -148,7 +197,12 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: false,
     isDestructive: true,
-    isAdvanced: true
+    isAdvanced: true,
+    operations: {
+      list: 'read',
+      create: 'write', update: 'write', refresh: 'write',
+      delete: 'destructive'
+    }
   },
   {
     id: 'calculation_group_operations',
@@ -158,7 +212,12 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: false,
     isDestructive: true,
-    isAdvanced: true
+    isAdvanced: true,
+    operations: {
+      list: 'read',
+      create: 'write', update: 'write', add_item: 'write', update_item: 'write',
+      delete: 'destructive', delete_item: 'destructive'
+    }
   },
   {
     id: 'security_role_operations',
@@ -168,7 +227,12 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: false,
     isDestructive: true,
-    isAdvanced: true
+    isAdvanced: true,
+    operations: {
+      list: 'read', get: 'read', test_rls: 'read',
+      create: 'write', update: 'write', add_member: 'write',
+      delete: 'destructive', remove_member: 'destructive'
+    }
   },
   {
     id: 'perspective_operations',
@@ -177,8 +241,13 @@ export const ALL_TOOLS: ToolInfo[] = [
     description: 'Criar e gerenciar perspectivas para simplificar visualização do modelo',
     category: 'modeling',
     defaultEnabled: false,
-    isDestructive: false,
-    isAdvanced: true
+    isDestructive: true,
+    isAdvanced: true,
+    operations: {
+      list: 'read', get: 'read',
+      create: 'write', update: 'write', add_objects: 'write',
+      delete: 'destructive', remove_objects: 'destructive'
+    }
   },
   {
     id: 'trace_operations',
@@ -188,7 +257,10 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: false,
     isDestructive: false,
-    isAdvanced: true
+    isAdvanced: true,
+    operations: {
+      analyze_query: 'read', get_refresh_history: 'read', list_active_connections: 'read'
+    }
   },
   {
     id: 'culture_operations',
@@ -198,7 +270,22 @@ export const ALL_TOOLS: ToolInfo[] = [
     category: 'modeling',
     defaultEnabled: false,
     isDestructive: false,
-    isAdvanced: true
+    isAdvanced: true,
+    operations: {
+      list_cultures: 'read',
+      add_culture: 'write', add_translation: 'write', bulk_translate: 'write',
+      remove_culture: 'destructive'
+    }
+  },
+  {
+    id: 'model_compare',
+    configKey: 'tools.modeling.modelCompare',
+    name: 'Comparar Modelos',
+    description: 'Comparar dois modelos (XMLA, Desktop ou arquivos) e gerar o script TMSL de sincronização',
+    category: 'modeling',
+    defaultEnabled: true,
+    isDestructive: false,
+    isAdvanced: false
   }
 ];
 
@@ -207,6 +294,17 @@ export const TOOL_MAP: Map<string, ToolInfo> = new Map(
   ALL_TOOLS.map(t => [t.id, t])
 );
 
+// Kind of a tool operation; undefined for tools without an operation argument
+// or operations missing from the catalog
+export function getOperationKind(toolId: string, operation: unknown): OperationKind | undefined {
+  return typeof operation === 'string' ? TOOL_MAP.get(toolId)?.operations?.[operation] : undefined;
+}
+
+// Key of an operation in ToolsState, e.g. measure_operations.delete
+export function operationKey(toolId: string, operation: string): string {
+  return `${toolId}.${operation}`;
+}
+
 // Build default ToolsState from definitions
 export function getDefaultToolsState(): ToolsState {
   const state: ToolsState = {};
@@ -222,9 +320,10 @@ export function buildServerConfig(
   auth: AuthConfig,
   connection: ConnectionConfig,
   readOnly: boolean,
-  requireConfirmation: boolean
+  requireConfirmation: boolean,
+  accessPolicy?: AccessPolicy
 ): ServerConfig {
-  return { tools: toolsState, auth, connection, readOnly, requireConfirmation };
+  return { tools: toolsState, auth, connection, readOnly, requireConfirmation, accessPolicy };
 }
 
 // Returns only the enabled tool IDs
@@ -2,10 +2,15 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as cp from 'child_process';
-import { ServerConfig, ServerStatus, ToolsState } from './types/index.js';
+import { AccessPolicy, AuthMethod, AuthSecretName, BridgeConfig, ConnectionProfile, ServerConfig, ServerStatus, ToolsState } from './types/index.js';
 import { ALL_TOOLS, getDefaultToolsState } from './config/toolConfig.js';
 import { ConfigWebViewProvider } from './providers/configWebViewProvider.js';
 import { ChatWebViewProvider } from './providers/chatWebViewProvider.js';
+import { AUDIT_LOG_FILE, AuditEntry, DEFAULT_AUDIT_CONFIG, readAuditEntries } from './server/auditLog.js';
+import { clearTokenCache } from './auth/tokenCache.js';
+import { isAuthSecretKey, isAuthSecretName, profileOfSecretKey, secretStorageKey } from './auth/secrets.js';
+import { DEFAULT_PROFILE } from './config/connectionProfiles.js';
+import { createBridgeConfig, startBridge } from './server/extensionBridge.js';
 
 // ============================================================
 // PowerBi MCP Server AeC - VS Code Extension Entry Point
@@ -17,6 +22,9 @@ let configProvider: ConfigWebViewProvider;
 let serverStatus: ServerStatus = 'stopped';
 let outputChannel: vscode.OutputChannel;
 let configFilePath: string;
+let bridgeConfig: BridgeConfig | undefined;
+let tokensClearedAt: string | undefined;
+let secretsChangedAt: Record<string, string> = {};
 
 export function activate(context: vscode.ExtensionContext) {
   outputChannel = vscode.window.createOutputChannel('PowerBi MCP AeC');
@@ -32,6 +40,10 @@ export function activate(context: vscode.ExtensionContext) {
   statusBarItem.show();
   context.subscriptions.push(statusBarItem);
 
+  // Bridge the MCP server processes use to read secrets from SecretStorage
+  // and to open the sign-in page of the interactive login
+  startExtensionBridge(context);
+
   // Register WebView provider for sidebar
   configProvider = new ConfigWebViewProvider(context.extensionUri, context, () => serverStatus);
   context.subscriptions.push(
@@ -56,7 +68,11 @@ export function activate(context: vscode.ExtensionContext) {
 
     vscode.commands.registerCommand('powerbiMcpAec.clearToken', async () => {
       try {
-        // Clear by removing config's auth section's cached token
+        // Removes the accounts and tokens shared with the server; rewriting the
+        // config makes a running server reload and drop the ones in memory
+        await clearTokenCache(context.globalStorageUri.fsPath);
+        tokensClearedAt = new Date().toISOString();
+        writeServerConfigFile();
         vscode.window.showInformationMessage('Token limpo. Será solicitada nova autenticação na próxima chamada.');
         outputChannel.appendLine('[PowerBi MCP AeC] Token de autenticação limpo.');
       } catch (e) {
@@ -75,10 +91,17 @@ export function activate(context: vscode.ExtensionContext) {
       });
     }),
 
+    vscode.commands.registerCommand('powerbiMcpAec.openAuditLog', () => openAuditLog(context)),
+
     vscode.commands.registerCommand('powerbiMcpAec.openChat', () => {
       vscode.commands.executeCommand('powerbiMcpAec.chatView.focus');
     }),
 
+    vscode.commands.registerCommand('powerbiMcpAec.switchProfile', switchProfile),
+
+    vscode.commands.registerCommand('powerbiMcpAec.setClientSecret', () => promptAuthSecret(context, 'clientSecret')),
+    vscode.commands.registerCommand('powerbiMcpAec.setCertificatePassword', () => promptAuthSecret(context, 'certificatePassword')),
+
     vscode.commands.registerCommand('powerbiMcpAec.setGeminiKey', async () => {
       const key = await vscode.window.showInputBox({
         prompt: 'Cole sua chave da API Gemini (gratuita em aistudio.google.com)',
@@ -115,9 +138,28 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // A changed secret rebuilds the credential of its profile on the server's next call
+  context.subscriptions.push(
+    context.secrets.onDidChange(e => {
+      if (isAuthSecretKey(e.key)) {
+        secretsChangedAt = { ...secretsChangedAt, [profileOfSecretKey(e.key) ?? DEFAULT_PROFILE]: new Date().toISOString() };
+        writeServerConfigFile();
+        configProvider.refresh();
+      }
+    })
+  );
+
+  // Client secrets used to be kept in settings.json
+  migrateClientSecretSetting(context).catch(e =>
+    outputChannel.appendLine(`[PowerBi MCP AeC] Aviso: não foi possível migrar o Client Secret: ${e}`)
+  );
+
   // Register MCP server in VS Code settings so agents can discover it
   registerMcpServerInSettings(context);
 
+  // Point an already running server at this session's bridge
+  writeServerConfigFile();
+
   // Auto-start if configured
   const config = vscode.workspace.getConfiguration('powerbiMcpAec');
   if (config.get<boolean>('server.autoStart', true)) {
@@ -212,24 +254,223 @@ function writeServerConfigFile() {
     toolsState[tool.id] = vsConfig.get<boolean>(tool.configKey, tool.defaultEnabled);
     void key; // suppress unused warning
   }
+  // Operation switches: `toolId.operation` -> allowed
+  for (const [key, allowed] of Object.entries(vsConfig.get<Record<string, boolean>>('tools.operations', {}))) {
+    if (typeof allowed === 'boolean') toolsState[key] = allowed;
+  }
 
   const config: ServerConfig = {
     tools: toolsState,
     auth: {
       tenantId: vsConfig.get<string>('auth.tenantId', ''),
       clientId: vsConfig.get<string>('auth.clientId', 'ea0616ba-638b-4df5-95b9-636659ae5121'),
-      method: vsConfig.get<'interactive' | 'deviceCode' | 'clientCredentials'>('auth.method', 'interactive'),
-      clientSecret: vsConfig.get<string>('auth.clientSecret', '') || undefined
+      method: vsConfig.get<AuthMethod>('auth.method', 'interactive'),
+      certificatePath: vsConfig.get<string>('auth.certificatePath', '') || undefined,
+      certificateThumbprint: vsConfig.get<string>('auth.certificateThumbprint', '') || undefined,
+      clientAssertionFile: vsConfig.get<string>('auth.clientAssertionFile', '') || undefined
     },
     connection: {
       defaultSemanticModelIds: vsConfig.get<string[]>('connection.defaultSemanticModelIds', []),
       xmlaEndpoint: vsConfig.get<string>('connection.xmlaEndpoint', '')
     },
+    profiles: profilesFromSettings(vsConfig),
+    activeProfile: vsConfig.get<string>('activeProfile', '') || undefined,
     readOnly: vsConfig.get<boolean>('server.readOnly', false),
-    requireConfirmation: vsConfig.get<boolean>('server.requireConfirmation', true)
+    requireConfirmation: vsConfig.get<boolean>('server.requireConfirmation', true),
+    accessPolicy: vsConfig.get<AccessPolicy>('accessPolicy', {}),
+    audit: {
+      enabled: vsConfig.get<boolean>('audit.enabled', DEFAULT_AUDIT_CONFIG.enabled),
+      maxFileSizeMb: vsConfig.get<number>('audit.maxFileSizeMb', DEFAULT_AUDIT_CONFIG.maxFileSizeMb),
+      maxFiles: vsConfig.get<number>('audit.maxFiles', DEFAULT_AUDIT_CONFIG.maxFiles)
+    },
+    bridge: bridgeConfig,
+    tokensClearedAt,
+    secretsChangedAt
+  };
+
+  // Written to a temporary file and renamed, so the server never reloads half a config
+  const temporary = `${configFilePath}.${process.pid}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(config, null, 2), 'utf-8');
+  fs.renameSync(temporary, configFilePath);
+}
+
+// ---- Connection Profiles ----
+
+// Entry of the powerbiMcpAec.profiles setting
+interface ProfileSetting {
+  name?: string;
+  tenantId?: string;
+  clientId?: string;
+  method?: AuthMethod;
+  account?: string;
+  certificatePath?: string;
+  certificateThumbprint?: string;
+  clientAssertionFile?: string;
+  xmlaEndpoint?: string;
+  defaultSemanticModelIds?: string[];
+}
+
+function profilesFromSettings(vsConfig: vscode.WorkspaceConfiguration): ConnectionProfile[] {
+  const defaultClientId = vsConfig.get<string>('auth.clientId', 'ea0616ba-638b-4df5-95b9-636659ae5121');
+  return vsConfig.get<ProfileSetting[]>('profiles', [])
+    .filter((p): p is ProfileSetting & { name: string } => typeof p?.name === 'string' && p.name.trim() !== '')
+    .map(p => ({
+      name: p.name.trim(),
+      auth: {
+        tenantId: p.tenantId ?? '',
+        clientId: p.clientId || defaultClientId,
+        method: p.method ?? 'interactive',
+        certificatePath: p.certificatePath || undefined,
+        certificateThumbprint: p.certificateThumbprint || undefined,
+        clientAssertionFile: p.clientAssertionFile || undefined,
+        account: p.account || undefined
+      },
+      connection: {
+        defaultSemanticModelIds: p.defaultSemanticModelIds ?? [],
+        xmlaEndpoint: p.xmlaEndpoint ?? ''
+      }
+    }));
+}
+
+function profileNames(): string[] {
+  return profilesFromSettings(vscode.workspace.getConfiguration('powerbiMcpAec')).map(p => p.name);
+}
+
+async function switchProfile() {
+  const vsConfig = vscode.workspace.getConfiguration('powerbiMcpAec');
+  const active = vsConfig.get<string>('activeProfile', '') || DEFAULT_PROFILE;
+  const items = [DEFAULT_PROFILE, ...profileNames()].map(name => ({
+    label: name,
+    description: name === DEFAULT_PROFILE ? 'Configurações de autenticação e conexão principais' : undefined,
+    picked: name === active
+  }));
+  if (items.length === 1) {
+    const action = await vscode.window.showInformationMessage('Nenhum perfil de conexão configurado.', 'Configurar Perfis');
+    if (action) vscode.commands.executeCommand('workbench.action.openSettings', 'powerbiMcpAec.profiles');
+    return;
+  }
+  const choice = await vscode.window.showQuickPick(items, { placeHolder: `Perfil de conexão ativo: ${active}` });
+  if (!choice) return;
+  await vsConfig.update('activeProfile', choice.label === DEFAULT_PROFILE ? undefined : choice.label, vscode.ConfigurationTarget.Global);
+  vscode.window.showInformationMessage(`Perfil de conexão ativo: ${choice.label}`);
+}
+
+// ---- Extension Bridge and Secrets ----
+
+function startExtensionBridge(context: vscode.ExtensionContext) {
+  bridgeConfig = createBridgeConfig();
+  startBridge(bridgeConfig, {
+    getSecret: async ({ name, profile }) => {
+      if (!isAuthSecretName(name)) throw new Error(`Segredo desconhecido: ${name}`);
+      return context.secrets.get(secretStorageKey(name, typeof profile === 'string' ? profile : undefined));
+    },
+    // Sign-in page of the interactive login; also forwards it to the local
+    // browser in remote windows
+    openExternal: async ({ url }) => {
+      if (typeof url !== 'string' || !/^https:\/\//i.test(url)) throw new Error('Somente URLs https podem ser abertas');
+      return vscode.env.openExternal(vscode.Uri.parse(url, true));
+    }
+  }).then(
+    server => context.subscriptions.push({ dispose: () => server.close() }),
+    err => {
+      bridgeConfig = undefined;
+      outputChannel.appendLine(`[PowerBi MCP AeC] Aviso: ponte com o servidor indisponível — segredos só por variáveis de ambiente: ${err}`);
+    }
+  );
+}
+
+async function promptAuthSecret(context: vscode.ExtensionContext, name: AuthSecretName) {
+  const labels: Record<AuthSecretName, string> = {
+    clientSecret: 'Client Secret do Service Principal',
+    certificatePassword: 'senha do certificado (PEM criptografado ou PFX)'
   };
+  // Each connection profile has its own secrets
+  let profile: string | undefined;
+  const names = profileNames();
+  if (names.length > 0) {
+    const choice = await vscode.window.showQuickPick([DEFAULT_PROFILE, ...names], { placeHolder: 'Perfil de conexão do segredo' });
+    if (!choice) return;
+    profile = choice === DEFAULT_PROFILE ? undefined : choice;
+  }
+  const value = await vscode.window.showInputBox({
+    prompt: `Cole a ${labels[name]}${profile ? ` do perfil ${profile}` : ''} — deixe vazio para remover`,
+    password: true
+  });
+  if (value === undefined) return;
+  await storeAuthSecret(context, name, value, profile);
+  vscode.window.showInformationMessage(value ? 'Segredo salvo com segurança.' : 'Segredo removido.');
+}
+
+async function storeAuthSecret(context: vscode.ExtensionContext, name: AuthSecretName, value: string, profile?: string) {
+  if (value) await context.secrets.store(secretStorageKey(name, profile), value);
+  else await context.secrets.delete(secretStorageKey(name, profile));
+}
+
+// Moves a client secret left in settings.json into SecretStorage
+async function migrateClientSecretSetting(context: vscode.ExtensionContext) {
+  const vsConfig = vscode.workspace.getConfiguration('powerbiMcpAec');
+  const inspected = vsConfig.inspect<string>('auth.clientSecret');
+  if (!inspected) return;
+  const scopes: Array<[string | undefined, vscode.ConfigurationTarget]> = [
+    [inspected.workspaceValue, vscode.ConfigurationTarget.Workspace],
+    [inspected.globalValue, vscode.ConfigurationTarget.Global]
+  ];
+  const found = scopes.filter(([value]) => value);
+  if (found.length === 0) return;
+
+  // The most specific value is the one that was in effect
+  await storeAuthSecret(context, 'clientSecret', found[0][0]!);
+  for (const [, target] of found) {
+    await vsConfig.update('auth.clientSecret', undefined, target);
+  }
+  outputChannel.appendLine('[PowerBi MCP AeC] Client Secret movido das configurações para o armazenamento seguro do VS Code.');
+  vscode.window.showInformationMessage('PowerBi MCP AeC: o Client Secret foi removido do settings.json e guardado no armazenamento seguro do VS Code.');
+}
 
-  fs.writeFileSync(configFilePath, JSON.stringify(config, null, 2), 'utf-8');
+// ---- Audit Log ----
+
+async function openAuditLog(context: vscode.ExtensionContext) {
+  const file = path.join(context.globalStorageUri.fsPath, AUDIT_LOG_FILE);
+  const filters: Array<vscode.QuickPickItem & { filter?: (entry: AuditEntry) => boolean; byText?: boolean }> = [
+    { label: '$(file) Abrir arquivo de auditoria', description: AUDIT_LOG_FILE },
+    { label: '$(edit) Somente alterações', description: 'Chamadas que enviaram TMSL ao modelo', filter: e => e.commands.some(c => c.kind === 'tmsl') },
+    { label: '$(error) Somente erros', filter: e => e.status === 'error' },
+    { label: '$(search) Filtrar por texto...', description: 'Ferramenta, operação, modelo ou endpoint', byText: true }
+  ];
+  const choice = await vscode.window.showQuickPick(filters, { placeHolder: 'Log de auditoria do PowerBi MCP AeC' });
+  if (!choice) return;
+
+  if (!choice.filter && !choice.byText) {
+    if (!fs.existsSync(file)) {
+      vscode.window.showInformationMessage('Nenhuma chamada de ferramenta registrada ainda.');
+      return;
+    }
+    await vscode.window.showTextDocument(vscode.Uri.file(file));
+    return;
+  }
+
+  let filter = choice.filter;
+  if (choice.byText) {
+    const text = await vscode.window.showInputBox({ prompt: 'Texto a procurar no log de auditoria', placeHolder: 'ex: measure_operations, Vendas_DEV' });
+    if (!text) return;
+    const needle = text.toLowerCase();
+    filter = e => JSON.stringify([e.tool, e.operation, e.target]).toLowerCase().includes(needle);
+  }
+
+  if (!filter) return;
+
+  const maxFiles = vscode.workspace.getConfiguration('powerbiMcpAec').get<number>('audit.maxFiles', DEFAULT_AUDIT_CONFIG.maxFiles);
+  const entries = (await readAuditEntries(file, maxFiles)).filter(filter);
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage('Nenhuma entrada de auditoria corresponde ao filtro.');
+    return;
+  }
+  // Newest first
+  const document = await vscode.workspace.openTextDocument({
+    language: 'json',
+    content: JSON.stringify(entries.reverse(), null, 2)
+  });
+  await vscode.window.showTextDocument(document);
 }
 
 // ---- MCP Server Registration ----
@@ -3,7 +3,8 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { ALL_TOOLS } from '../config/toolConfig.js';
 import { PERMISSION_PROFILES } from '../config/permissionsManager.js';
-import { WebViewMessage, ConfigUpdatePayload } from '../types/index.js';
+import { WebViewMessage, ConfigUpdatePayload, SecretUpdatePayload } from '../types/index.js';
+import { AUTH_SECRET_NAMES, isAuthSecretName, secretStorageKey } from '../auth/secrets.js';
 
 // ============================================================
 // Configuration WebView Provider
@@ -65,9 +66,18 @@ export class ConfigWebViewProvider implements vscode.WebviewViewProvider {
         for (const tool of ALL_TOOLS) {
           configData[tool.configKey] = vsConfig.get<boolean>(tool.configKey, tool.defaultEnabled);
         }
+        configData['tools.operations'] = vsConfig.get('tools.operations', {});
         configData['auth.tenantId'] = vsConfig.get('auth.tenantId', '');
         configData['auth.clientId'] = vsConfig.get('auth.clientId', 'ea0616ba-638b-4df5-95b9-636659ae5121');
         configData['auth.method'] = vsConfig.get('auth.method', 'interactive');
+        configData['auth.certificatePath'] = vsConfig.get('auth.certificatePath', '');
+        configData['auth.certificateThumbprint'] = vsConfig.get('auth.certificateThumbprint', '');
+        configData['auth.clientAssertionFile'] = vsConfig.get('auth.clientAssertionFile', '');
+        configData['activeProfile'] = vsConfig.get('activeProfile', '');
+        configData['connectionProfiles'] = vsConfig.get<Array<{ name?: unknown }>>('profiles', [])
+          .map(p => p?.name)
+          .filter((name): name is string => typeof name === 'string' && name.trim() !== '')
+          .map(name => name.trim());
         configData['connection.xmlaEndpoint'] = vsConfig.get('connection.xmlaEndpoint', '');
         configData['connection.defaultSemanticModelIds'] = vsConfig.get('connection.defaultSemanticModelIds', []);
         configData['server.readOnly'] = vsConfig.get('server.readOnly', false);
@@ -75,8 +85,21 @@ export class ConfigWebViewProvider implements vscode.WebviewViewProvider {
         configData['server.autoStart'] = vsConfig.get('server.autoStart', true);
         configData['profiles'] = PERMISSION_PROFILES.map(p => ({ name: p.name, description: p.description }));
 
-        webview.postMessage({ type: 'configUpdated', payload: configData });
-        webview.postMessage({ type: 'statusUpdate', payload: { serverStatus: this._getServerStatus() } });
+        // Only whether each secret is stored; values never reach the WebView
+        void Promise.all(AUTH_SECRET_NAMES.map(async name => [name, !!(await this.context.secrets.get(secretStorageKey(name)))]))
+          .then(stored => {
+            configData['secrets'] = Object.fromEntries(stored);
+            webview.postMessage({ type: 'configUpdated', payload: configData });
+            webview.postMessage({ type: 'statusUpdate', payload: { serverStatus: this._getServerStatus() } });
+          });
+        break;
+      }
+
+      case 'setSecret': {
+        const payload = message.payload as SecretUpdatePayload;
+        if (!isAuthSecretName(payload.name)) break;
+        const key = secretStorageKey(payload.name);
+        void (payload.value ? this.context.secrets.store(key, payload.value) : this.context.secrets.delete(key));
         break;
       }
 
@@ -105,6 +128,11 @@ export class ConfigWebViewProvider implements vscode.WebviewViewProvider {
         break;
       }
 
+      case 'editProfiles': {
+        vscode.commands.executeCommand('workbench.action.openSettings', 'powerbiMcpAec.profiles');
+        break;
+      }
+
       case 'clearToken': {
         vscode.commands.executeCommand('powerbiMcpAec.clearToken');
         break;
@@ -140,7 +168,8 @@ export class ConfigWebViewProvider implements vscode.WebviewViewProvider {
         category: t.category,
         defaultEnabled: t.defaultEnabled,
         isDestructive: t.isDestructive,
-        isAdvanced: t.isAdvanced
+        isAdvanced: t.isAdvanced,
+        operations: t.operations ?? {}
       }))
     );
 
@@ -220,6 +249,18 @@ export class ConfigWebViewProvider implements vscode.WebviewViewProvider {
       <div id="tools-modeling" class="tools-list"></div>
     </section>
 
+    <!-- Connection Profiles -->
+    <section class="section">
+      <div class="section-header">Perfil de Conexão</div>
+      <div class="form-group">
+        <label>Perfil ativo <span class="hint">(tenant e conta das chamadas sem profile)</span></label>
+        <select id="active-profile" data-key="activeProfile">
+          <option value="">default (configurações abaixo)</option>
+        </select>
+      </div>
+      <button id="btn-edit-profiles" class="btn btn-secondary btn-full">Editar Perfis</button>
+    </section>
+
     <!-- Authentication -->
     <section class="section">
       <div class="section-header">Autenticação</div>
@@ -228,7 +269,10 @@ export class ConfigWebViewProvider implements vscode.WebviewViewProvider {
         <select id="auth-method" data-key="auth.method">
           <option value="interactive">Interativo (browser)</option>
           <option value="deviceCode">Código de dispositivo</option>
-          <option value="clientCredentials">Service Principal</option>
+          <option value="clientCredentials">Service Principal (secret)</option>
+          <option value="certificate">Service Principal (certificado)</option>
+          <option value="federated">Identidade federada</option>
+          <option value="azureCli">Azure CLI (az login)</option>
         </select>
       </div>
       <div class="form-group">
@@ -239,9 +283,25 @@ export class ConfigWebViewProvider implements vscode.WebviewViewProvider {
         <label>Client ID</label>
         <input type="text" id="auth-clientId" data-key="auth.clientId">
       </div>
-      <div class="form-group" id="secret-group" style="display:none">
-        <label>Client Secret</label>
-        <input type="password" id="auth-clientSecret" data-key="auth.clientSecret" placeholder="••••••••">
+      <div class="form-group" id="secret-group" data-auth-methods="clientCredentials" style="display:none">
+        <label>Client Secret <span class="hint">(armazenamento seguro do VS Code)</span></label>
+        <input type="password" id="auth-clientSecret" data-secret="clientSecret">
+      </div>
+      <div class="form-group" data-auth-methods="certificate" style="display:none">
+        <label>Certificado <span class="hint">(caminho do .pem ou .pfx)</span></label>
+        <input type="text" id="auth-certificatePath" data-key="auth.certificatePath">
+      </div>
+      <div class="form-group" data-auth-methods="certificate" style="display:none">
+        <label>Thumbprint <span class="hint">(opcional)</span></label>
+        <input type="text" id="auth-certificateThumbprint" data-key="auth.certificateThumbprint">
+      </div>
+      <div class="form-group" data-auth-methods="certificate" style="display:none">
+        <label>Senha do certificado <span class="hint">(armazenamento seguro do VS Code)</span></label>
+        <input type="password" id="auth-certificatePassword" data-secret="certificatePassword">
+      </div>
+      <div class="form-group" data-auth-methods="federated" style="display:none">
+        <label>Arquivo do token federado <span class="hint">(vazio: AZURE_FEDERATED_TOKEN_FILE)</span></label>
+        <input type="text" id="auth-clientAssertionFile" data-key="auth.clientAssertionFile">
       </div>
       <button id="btn-clear-token" class="btn btn-secondary btn-full">🗑 Limpar Token em Cache</button>
     </section>
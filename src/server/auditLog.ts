@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AuditConfig } from '../types/index.js';
+import { AuditCommand } from '../tools/auditTrail.js';
+
+// ============================================================
+// Audit log
+// One JSON line per tool call — tool, operation, target model,
+// the TMSL/DAX sent, duration and outcome — in the extension's
+// global storage. Secrets are redacted before writing and the
+// file is rotated (audit.1.jsonl, audit.2.jsonl, ...) by size.
+// ============================================================
+
+export const AUDIT_LOG_FILE = 'audit.jsonl';
+
+export const DEFAULT_AUDIT_CONFIG: AuditConfig = {
+  enabled: true,
+  maxFileSizeMb: 10,
+  maxFiles: 5
+};
+
+export type AuditStatus = 'success' | 'error' | 'confirmation_required' | 'cancelled';
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  operation?: string;
+  target: Record<string, string>;
+  arguments: Record<string, unknown>;
+  commands: AuditCommand[];
+  durationMs: number;
+  status: AuditStatus;
+  error?: string;
+  errorCode?: string;            // see ToolErrorCode
+}
+
+// Arguments that identify the model a call touches
+const TARGET_ARGUMENTS = [
+  'xmlaEndpoint', 'databaseName', 'workspaceId', 'semanticModelId', 'datasetId',
+  'sourceXmlaEndpoint', 'sourceDatabaseName', 'sourcePath', 'path', 'port'
+];
+
+const SECRET_KEY = /secret|password|passwd|pwd|token|apikey|api_key|credential|privatekey|accountkey/i;
+
+// key=value secrets inside connection strings and M/SQL expressions
+const SECRET_IN_TEXT = /\b(password|pwd|secret|accountkey|sharedaccesskey|access_token|client_secret)(\s*=\s*)("[^"]*"|'[^']*'|[^;"'\s]*)/gi;
+const BEARER_TOKEN = /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/g;
+
+const REDACTED = '***';
+
+export class AuditLog {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly file: string,
+    private config: AuditConfig = DEFAULT_AUDIT_CONFIG
+  ) {}
+
+  updateConfig(config: AuditConfig): void {
+    this.config = config;
+  }
+
+  // Appends are queued so concurrent calls never interleave or race a rotation
+  record(entry: AuditEntry): Promise<void> {
+    if (!this.config.enabled) return Promise.resolve();
+    const line = JSON.stringify(redact(entry)) + '\n';
+    const run = this.queue.then(async () => {
+      await this.rotateIfNeeded(Buffer.byteLength(line));
+      await fs.appendFile(this.file, line, 'utf8');
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async rotateIfNeeded(incoming: number): Promise<void> {
+    const size = (await fs.stat(this.file).catch(() => undefined))?.size ?? 0;
+    if (size === 0 || size + incoming <= this.config.maxFileSizeMb * 1024 * 1024) return;
+    const maxFiles = Math.max(1, this.config.maxFiles);
+    await fs.rm(rotatedFile(this.file, maxFiles), { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      await fs.rename(rotatedFile(this.file, index), rotatedFile(this.file, index + 1)).catch(() => undefined);
+    }
+    await fs.rename(this.file, rotatedFile(this.file, 1));
+  }
+}
+
+// Builds the entry for a finished call
+export function buildAuditEntry(
+  tool: string,
+  args: Record<string, unknown>,
+  commands: AuditCommand[],
+  startedAt: number,
+  outcome: { result?: unknown; error?: unknown; errorCode?: string }
+): AuditEntry {
+  const target: Record<string, string> = {};
+  for (const key of TARGET_ARGUMENTS) {
+    if (args[key] !== undefined && args[key] !== '') target[key] = String(args[key]);
+  }
+  const status = (outcome.result as { status?: unknown } | undefined)?.status;
+  return {
+    timestamp: new Date(startedAt).toISOString(),
+    tool,
+    ...(typeof args.operation === 'string' && { operation: args.operation }),
+    target,
+    arguments: args,
+    commands,
+    durationMs: Date.now() - startedAt,
+    status: outcome.error !== undefined
+      ? 'error'
+      : status === 'confirmation_required' || status === 'cancelled' ? status : 'success',
+    ...(outcome.error !== undefined && {
+      error: outcome.error instanceof Error ? outcome.error.message : String(outcome.error)
+    }),
+    ...(outcome.errorCode && { errorCode: outcome.errorCode })
+  };
+}
+
+// Replaces secret-looking values, by key name and inside free text
+export function redact<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value
+      .replace(SECRET_IN_TEXT, (_match, key: string, separator: string) => `${key}${separator}${REDACTED}`)
+      .replace(BEARER_TOKEN, `Bearer ${REDACTED}`) as T;
+  }
+  if (Array.isArray(value)) return value.map(redact) as T;
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, SECRET_KEY.test(key) && item !== null && item !== undefined ? REDACTED : redact(item)])
+    ) as T;
+  }
+  return value;
+}
+
+// All entries, oldest first, across the rotated files
+export async function readAuditEntries(file: string, maxFiles = DEFAULT_AUDIT_CONFIG.maxFiles): Promise<AuditEntry[]> {
+  const files = [...Array.from({ length: maxFiles }, (_, i) => rotatedFile(file, maxFiles - i)), file];
+  const entries: AuditEntry[] = [];
+  for (const current of files) {
+    const content = await fs.readFile(current, 'utf8').catch(() => '');
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // A line cut short by a crash: skip it
+      }
+    }
+  }
+  return entries;
+}
+
+// audit.jsonl -> audit.2.jsonl
+function rotatedFile(file: string, index: number): string {
+  const extension = path.extname(file);
+  return path.join(path.dirname(file), `${path.basename(file, extension)}.${index}${extension}`);
+}
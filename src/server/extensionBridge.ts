@@ -0,0 +1,133 @@
+import * as net from 'net';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BridgeConfig } from '../types/index.js';
+
+// ============================================================
+// Extension bridge
+// Local channel from the MCP server process to the VS Code
+// extension, for what only the extension host can do: read
+// SecretStorage and open URLs with vscode.env.openExternal.
+// The extension listens on a named pipe (Windows) or a user-only
+// Unix socket and writes its path and a session token to the
+// server config. One JSON line per request and one per response;
+// the servers started by the extension and by the VS Code MCP
+// host both reach it while VS Code is open.
+// ============================================================
+
+export type BridgeHandler = (params: Record<string, unknown>) => Promise<unknown>;
+
+interface BridgeRequest {
+  token?: string;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+interface BridgeResponse {
+  result?: unknown;
+  error?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 5_000;
+
+// A new path and token for each extension session
+export function createBridgeConfig(): BridgeConfig {
+  const id = crypto.randomBytes(8).toString('hex');
+  return {
+    path: process.platform === 'win32'
+      ? `\\\\.\\pipe\\powerbi-mcp-aec-${id}`
+      : path.join(os.tmpdir(), `powerbi-mcp-aec-${id}.sock`),
+    token: crypto.randomBytes(32).toString('hex')
+  };
+}
+
+// Extension side: answers requests whose token matches
+export async function startBridge(config: BridgeConfig, handlers: Record<string, BridgeHandler>): Promise<net.Server> {
+  const server = net.createServer(socket => {
+    let buffer = '';
+    socket.setEncoding('utf8');
+    socket.on('data', chunk => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        void answer(line, config.token, handlers).then(response => socket.write(`${JSON.stringify(response)}\n`));
+      }
+    });
+    socket.on('error', () => socket.destroy());
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.path, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  if (process.platform !== 'win32') fs.chmodSync(config.path, 0o600);
+  return server;
+}
+
+// Server side: calls a method of the extension; rejects when the extension
+// is not running (stale config), refuses the call or does not answer in time
+export function callBridge<T>(
+  config: BridgeConfig,
+  method: string,
+  params: Record<string, unknown> = {},
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const socket = net.createConnection(config.path);
+    let buffer = '';
+    const fail = (reason: string) => {
+      socket.destroy();
+      reject(new Error(`Extensão indisponível (${method}): ${reason}`));
+    };
+    socket.setTimeout(timeoutMs, () => fail('tempo esgotado'));
+    socket.setEncoding('utf8');
+    socket.on('error', e => fail(e.message));
+    socket.on('connect', () => {
+      socket.write(`${JSON.stringify({ token: config.token, method, params })}\n`);
+    });
+    socket.on('data', chunk => {
+      buffer += chunk;
+      const newline = buffer.indexOf('\n');
+      if (newline < 0) return;
+      socket.end();
+      try {
+        const response = JSON.parse(buffer.slice(0, newline)) as BridgeResponse;
+        if (response.error) reject(new Error(response.error));
+        else resolve(response.result as T);
+      } catch {
+        reject(new Error(`Resposta inválida da extensão (${method})`));
+      }
+    });
+  });
+}
+
+async function answer(line: string, token: string, handlers: Record<string, BridgeHandler>): Promise<BridgeResponse> {
+  let request: BridgeRequest;
+  try {
+    request = JSON.parse(line) as BridgeRequest;
+  } catch {
+    return { error: 'Requisição inválida' };
+  }
+  if (!sameToken(request.token, token)) return { error: 'Token da ponte inválido' };
+  const handler = request.method ? handlers[request.method] : undefined;
+  if (!handler) return { error: `Método desconhecido: ${request.method}` };
+  try {
+    return { result: await handler(request.params ?? {}) };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+function sameToken(received: unknown, expected: string): boolean {
+  if (typeof received !== 'string') return false;
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
@@ -22,11 +22,18 @@ import {
 import * as fs from 'fs';
 import * as path from 'path';
 
-import { ServerConfig, ToolsState } from '../types/index.js';
-import { getAuthProvider } from '../auth/authProvider.js';
-import { PowerBiClient } from '../tools/powerbiClient.js';
-import { getEnabledToolDefinitions, dispatchToolCall } from '../tools/index.js';
+import { AuthMethod, BridgeConfig, ServerConfig, ToolsState } from '../types/index.js';
+import { getEnabledToolDefinitions, dispatchToolCall, requiredArguments } from '../tools/index.js';
 import { getDefaultToolsState } from '../config/toolConfig.js';
+import { applyReadOnly } from '../config/permissionsManager.js';
+import { AuditCommand, runWithAuditTrail } from '../tools/auditTrail.js';
+import { AUDIT_LOG_FILE, AuditLog, DEFAULT_AUDIT_CONFIG, buildAuditEntry } from './auditLog.js';
+import { classifyError, toolErrorResult } from '../tools/toolErrors.js';
+import { ProfileSecretSource, secretFromEnv } from '../auth/secrets.js';
+import { UrlOpener } from '../auth/interactiveLogin.js';
+import { callBridge } from './extensionBridge.js';
+import { ProfileSessions } from './profileSessions.js';
+import { applyProfileDefaults, withProfileArgument } from '../config/connectionProfiles.js';
 
 // ---- Load configuration ----
 
@@ -35,20 +42,31 @@ function loadConfig(): ServerConfig {
 
   if (configPath && fs.existsSync(configPath)) {
     try {
-      const raw = fs.readFileSync(configPath, 'utf-8');
-      return JSON.parse(raw) as ServerConfig;
+      return readConfigFile(configPath);
     } catch (e) {
-      process.stderr.write(`[PowerBi MCP AeC] Erro ao ler config: ${e}\n`);
+      // Falling back to the defaults would lift readOnly, the access policy and the
+      // operation switches of a file that exists; start locked until it is fixed
+      process.stderr.write(
+        `[PowerBi MCP AeC] Erro ao ler config ${configPath}: ${e} — servidor iniciado em somente leitura e com todas as ferramentas desativadas até o arquivo ser corrigido\n`
+      );
+      const tools = Object.fromEntries(Object.keys(getDefaultToolsState()).map(id => [id, false]));
+      return { ...defaultConfig(), tools, readOnly: true };
     }
   }
 
   // Default config when no file is found
+  return defaultConfig();
+}
+
+function defaultConfig(): ServerConfig {
   return {
     tools: getDefaultToolsState(),
     auth: {
       tenantId: process.env.POWERBI_TENANT_ID || 'common',
       clientId: process.env.POWERBI_CLIENT_ID || 'ea0616ba-638b-4df5-95b9-636659ae5121',
-      method: 'interactive'
+      method: (process.env.POWERBI_AUTH_METHOD as AuthMethod) || 'interactive',
+      certificatePath: process.env.POWERBI_CERTIFICATE_PATH || undefined,
+      certificateThumbprint: process.env.POWERBI_CERTIFICATE_THUMBPRINT || undefined
     },
     connection: {
       defaultSemanticModelIds: [],
@@ -59,6 +77,41 @@ function loadConfig(): ServerConfig {
   };
 }
 
+function readConfigFile(configPath: string): ServerConfig {
+  return JSON.parse(fs.readFileSync(configPath, 'utf-8')) as ServerConfig;
+}
+
+// ---- Secrets ----
+
+// SecretStorage through the extension while VS Code is open, otherwise
+// the environment (POWERBI_CLIENT_SECRET, POWERBI_CERTIFICATE_PASSWORD)
+function secretSource(bridge: () => BridgeConfig | undefined): ProfileSecretSource {
+  return async (name, profile) => {
+    const current = bridge();
+    if (current) {
+      try {
+        const value = await callBridge<string | undefined>(current, 'getSecret', { name, profile });
+        if (value) return value;
+      } catch (e) {
+        process.stderr.write(`[PowerBi MCP AeC] ${e instanceof Error ? e.message : e} — usando variáveis de ambiente\n`);
+      }
+    }
+    return secretFromEnv(name);
+  };
+}
+
+// The extension opens the sign-in page with vscode.env.openExternal; VS Code
+// may ask the user first, hence the long timeout
+const OPEN_EXTERNAL_TIMEOUT_MS = 60_000;
+
+function extensionUrlOpener(bridge: () => BridgeConfig | undefined): UrlOpener {
+  return async url => {
+    const current = bridge();
+    if (!current) throw new Error('Extensão indisponível (openExternal): servidor fora do VS Code');
+    return callBridge<boolean>(current, 'openExternal', { url }, OPEN_EXTERNAL_TIMEOUT_MS);
+  };
+}
+
 // ---- Built-in Prompts ----
 
 const PROMPTS = [
@@ -193,28 +246,61 @@ function getPromptMessages(name: string, args: Record<string, string>) {
   }
 }
 
+// ---- Confirmation via elicitation ----
+
+async function confirmWithUser(server: Server, message: string): Promise<boolean> {
+  const result = await server.elicitInput({
+    message,
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        confirm: { type: 'boolean', title: 'Confirmar', description: 'Executar a operação' }
+      },
+      required: ['confirm']
+    }
+  });
+  return result.action === 'accept' && result.content?.confirm === true;
+}
+
+// ---- Permissions ----
+
+function effectiveToolsState(config: ServerConfig): ToolsState {
+  return config.readOnly ? applyReadOnly(config.tools) : config.tools;
+}
+
 // ---- Main Server Setup ----
 
 async function main() {
   const config = loadConfig();
 
-  // Apply read-only mode: disable all destructive tools
-  let toolsState: ToolsState = config.tools;
+  // Read-only mode keeps the read operations of every tool and switches off the rest
+  let toolsState: ToolsState = effectiveToolsState(config);
+  let readOnly = config.readOnly;
+  let requireConfirmation = config.requireConfirmation;
+  let accessPolicy = config.accessPolicy;
+  let bridge = config.bridge;
+
+  // Audit log next to the config file, in the extension's global storage
+  const configPath = process.env.POWERBI_MCP_AEC_CONFIG;
+  const auditLog = configPath
+    ? new AuditLog(path.join(path.dirname(configPath), AUDIT_LOG_FILE), config.audit ?? DEFAULT_AUDIT_CONFIG)
+    : undefined;
+  const audit = (tool: string, args: Record<string, unknown>, commands: AuditCommand[], startedAt: number, outcome: { result?: unknown; error?: unknown; errorCode?: string }) => {
+    auditLog?.record(buildAuditEntry(tool, args, commands, startedAt, outcome)).catch(e => {
+      process.stderr.write(`[PowerBi MCP AeC] Erro ao gravar auditoria: ${e}\n`);
+    });
+  };
   if (config.readOnly) {
-    const { ALL_TOOLS } = await import('../config/toolConfig.js');
-    for (const tool of ALL_TOOLS) {
-      if (tool.isDestructive) {
-        toolsState = { ...toolsState, [tool.id]: false };
-      }
-    }
-    process.stderr.write('[PowerBi MCP AeC] Modo somente leitura ativado — operações destrutivas bloqueadas\n');
+    process.stderr.write('[PowerBi MCP AeC] Modo somente leitura ativado — operações de escrita bloqueadas\n');
   }
 
-  // Initialize auth provider
-  const auth = getAuthProvider(config.auth);
-
-  // Initialize Power BI client
-  const client = new PowerBiClient(auth);
+  // Auth and Power BI client per connection profile; tokens are cached next to the config file
+  const profiles = new ProfileSessions(
+    config,
+    configPath ? path.dirname(configPath) : undefined,
+    secretSource(() => bridge),
+    extensionUrlOpener(() => bridge)
+  );
 
   // Create MCP server
   const server = new Server(
@@ -224,7 +310,7 @@ async function main() {
     },
     {
       capabilities: {
-        tools: {},
+        tools: { listChanged: true },
         prompts: {}
       }
     }
@@ -232,7 +318,8 @@ async function main() {
 
   // ---- List Tools Handler ----
   server.setRequestHandler(ListToolsRequestSchema, async () => {
-    const tools = getEnabledToolDefinitions(toolsState);
+    const tools = getEnabledToolDefinitions(toolsState)
+      .map(definition => withProfileArgument(definition, profiles.list(), profiles.activeProfile));
     process.stderr.write(`[PowerBi MCP AeC] ${tools.length} ferramentas disponíveis\n`);
     return { tools };
   });
@@ -243,13 +330,27 @@ async function main() {
 
     process.stderr.write(`[PowerBi MCP AeC] Chamando ferramenta: ${name}\n`);
 
+    let callArgs = (args || {}) as Record<string, unknown>;
+    const commands: AuditCommand[] = [];
+    const startedAt = Date.now();
     try {
-      const result = await dispatchToolCall(
+      const session = profiles.session(callArgs.profile);
+      callArgs = applyProfileDefaults(requiredArguments(name, callArgs), callArgs, session.profile.connection);
+      const result = await runWithAuditTrail(commands, () => dispatchToolCall(
         name,
-        (args || {}) as Record<string, unknown>,
-        client,
-        toolsState
-      );
+        callArgs,
+        session.client,
+        toolsState,
+        {
+          readOnly,
+          requireConfirmation,
+          accessPolicy,
+          profiles: profiles.list(),
+          profile: session.profile.name,
+          confirm: server.getClientCapabilities()?.elicitation ? message => confirmWithUser(server, message) : undefined
+        }
+      ));
+      audit(name, callArgs, commands, startedAt, { result });
 
       return {
         content: [
@@ -260,13 +361,12 @@ async function main() {
         ]
       };
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      process.stderr.write(`[PowerBi MCP AeC] Erro em ${name}: ${message}\n`);
-
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Erro ao executar '${name}': ${message}`
-      );
+      // Failures go back as tool results (isError) with a code and a hint,
+      // so the agent can correct the call instead of giving up
+      const info = classifyError(error);
+      process.stderr.write(`[PowerBi MCP AeC] Erro em ${name} (${info.code}): ${info.message}\n`);
+      audit(name, callArgs, commands, startedAt, { error, errorCode: info.code });
+      return toolErrorResult(name, info);
     }
   });
 
@@ -289,19 +389,28 @@ async function main() {
   });
 
   // ---- Config file watcher (reload tools on config change) ----
-  const configPath = process.env.POWERBI_MCP_AEC_CONFIG;
   if (configPath) {
     fs.watchFile(configPath, { interval: 2000 }, () => {
       try {
-        const newConfig = loadConfig();
-        toolsState = newConfig.tools;
-        if (newConfig.readOnly) {
-          // Re-apply read-only restriction
+        // A missing or unreadable file keeps the last good config: falling back to
+        // the defaults would silently lift readOnly, the access policy and the
+        // operation switches
+        const newConfig = readConfigFile(configPath);
+        toolsState = effectiveToolsState(newConfig);
+        if (newConfig.readOnly !== readOnly) {
+          process.stderr.write(`[PowerBi MCP AeC] Modo somente leitura ${newConfig.readOnly ? 'ativado' : 'desativado'}\n`);
         }
-        auth.updateConfig(newConfig.auth);
+        readOnly = newConfig.readOnly;
+        requireConfirmation = newConfig.requireConfirmation;
+        accessPolicy = newConfig.accessPolicy;
+        bridge = newConfig.bridge;
+        auditLog?.updateConfig(newConfig.audit ?? DEFAULT_AUDIT_CONFIG);
+        profiles.update(newConfig);
+        // Let the client re-list tools: enabled tools and allowed operations may have changed
+        server.sendToolListChanged().catch(() => undefined);
         process.stderr.write('[PowerBi MCP AeC] Configuração recarregada\n');
       } catch (e) {
-        process.stderr.write(`[PowerBi MCP AeC] Erro ao recarregar config: ${e}\n`);
+        process.stderr.write(`[PowerBi MCP AeC] Erro ao recarregar config (mantida a anterior): ${e}\n`);
       }
     });
   }
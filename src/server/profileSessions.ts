@@ -0,0 +1,95 @@
+import { ConnectionProfile, ServerConfig } from '../types/index.js';
+import { AuthProvider } from '../auth/authProvider.js';
+import { TokenCachePlugin, tokenCacheFileFor } from '../auth/tokenCache.js';
+import { ProfileSecretSource } from '../auth/secrets.js';
+import { UrlOpener } from '../auth/interactiveLogin.js';
+import { PowerBiClient } from '../tools/powerbiClient.js';
+import { ToolError } from '../tools/toolErrors.js';
+import { DEFAULT_PROFILE, activeProfileOf, profilesOf } from '../config/connectionProfiles.js';
+
+// ============================================================
+// Profile sessions
+// One AuthProvider and PowerBiClient per connection profile,
+// created on first use. Each profile has its own token cache
+// file, secrets and open transactions.
+// ============================================================
+
+export interface ProfileSession {
+  profile: ConnectionProfile;
+  auth: AuthProvider;
+  client: PowerBiClient;
+}
+
+export class ProfileSessions {
+  private profiles: ConnectionProfile[] = [];
+  private active = DEFAULT_PROFILE;
+  private tokensClearedAt?: string;
+  private secretsChangedAt: Record<string, string> = {};
+  private sessions = new Map<string, ProfileSession>();
+
+  constructor(
+    config: ServerConfig,
+    private readonly tokenCacheDir: string | undefined,
+    private readonly secrets: ProfileSecretSource,
+    private readonly openExternal?: UrlOpener
+  ) {
+    this.tokensClearedAt = config.tokensClearedAt;
+    this.secretsChangedAt = config.secretsChangedAt ?? {};
+    this.update(config);
+  }
+
+  // Reloaded configuration: sessions of removed profiles are dropped; those
+  // whose auth settings or stored secrets changed take them and drop the
+  // credential and tokens in memory, as every session does after the
+  // extension cleared the token cache
+  update(config: ServerConfig): void {
+    this.profiles = profilesOf(config);
+    this.active = activeProfileOf(config);
+    const cleared = config.tokensClearedAt !== undefined && config.tokensClearedAt !== this.tokensClearedAt;
+    this.tokensClearedAt = config.tokensClearedAt ?? this.tokensClearedAt;
+    for (const [name, session] of this.sessions) {
+      const profile = this.profiles.find(p => p.name === name);
+      if (!profile) {
+        this.sessions.delete(name);
+        continue;
+      }
+      const authChanged = JSON.stringify(profile.auth) !== JSON.stringify(session.profile.auth);
+      const secretsChanged = config.secretsChangedAt?.[name] !== undefined && config.secretsChangedAt[name] !== this.secretsChangedAt[name];
+      session.profile = profile;
+      if (authChanged || secretsChanged || cleared) session.auth.updateConfig(profile.auth);
+    }
+    this.secretsChangedAt = config.secretsChangedAt ?? this.secretsChangedAt;
+  }
+
+  get activeProfile(): string {
+    return this.active;
+  }
+
+  list(): ConnectionProfile[] {
+    return this.profiles;
+  }
+
+  // The session of the named profile, or of the active one
+  session(name?: unknown): ProfileSession {
+    const profile = findProfile(this.profiles, typeof name === 'string' && name ? name : this.active);
+    let session = this.sessions.get(profile.name);
+    if (!session) {
+      const named = profile.name === DEFAULT_PROFILE ? undefined : profile.name;
+      const cache = this.tokenCacheDir ? new TokenCachePlugin(this.tokenCacheDir, tokenCacheFileFor(named)) : undefined;
+      const auth = new AuthProvider(profile.auth, cache, secret => this.secrets(secret, named), this.openExternal);
+      session = { profile, auth, client: new PowerBiClient(auth) };
+      this.sessions.set(profile.name, session);
+    }
+    return session;
+  }
+}
+
+function findProfile(profiles: ConnectionProfile[], name: string): ConnectionProfile {
+  const profile = profiles.find(p => p.name === name) ?? profiles.find(p => p.name.toLowerCase() === name.toLowerCase());
+  if (!profile) {
+    throw new ToolError('VALIDATION_ERROR', `Perfil de conexão desconhecido: ${name}`, {
+      hint: `Use um dos perfis configurados: ${profiles.map(p => p.name).join(', ')}.`
+    });
+  }
+  return profile;
+}
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { AccessPolicy, DatasetLocation } from '../types/index.js';
+import { AccessDeniedError, checkAccessPolicy, checkDatasetAccess, datasetTargets, isAllowedByAccessPolicy, workspaceTargets } from '../config/accessPolicy.js';
+
+const policy: AccessPolicy = {
+  workspaces: { deny: ['*Produção*'] },
+  databases: { allow: ['*_DEV', 'Teste?'] },
+  tables: { deny: ['Salários'] }
+};
+
+function denied(args: Record<string, unknown>): string | undefined {
+  try {
+    checkAccessPolicy('tool', args, policy);
+    return undefined;
+  } catch (error) {
+    assert.ok(error instanceof AccessDeniedError);
+    return error.message;
+  }
+}
+
+suite('checkAccessPolicy', () => {
+  test('allows everything without a policy', () => {
+    assert.doesNotThrow(() => checkAccessPolicy('tool', { databaseName: 'Vendas' }, undefined));
+    assert.doesNotThrow(() => checkAccessPolicy('tool', { databaseName: 'Vendas' }, { databases: { allow: [] } }));
+  });
+
+  test('matches glob patterns over the whole value, ignoring case', () => {
+    assert.strictEqual(denied({ databaseName: 'vendas_dev' }), undefined);
+    assert.strictEqual(denied({ databaseName: 'Teste1' }), undefined);
+    assert.match(denied({ databaseName: 'Teste10' })!, /não corresponde a nenhum padrão permitido \(databases\.allow: \*_DEV, Teste\?\)/);
+    assert.match(denied({ databaseName: 'Vendas_DEV.bak' })!, /o banco de dados 'Vendas_DEV.bak'/);
+  });
+
+  test('checks deny before allow and names the pattern', () => {
+    assert.match(denied({ tableName: 'salários' })!, /a tabela 'salários' corresponde ao padrão bloqueado 'Salários' \(tables\.deny\)/);
+  });
+
+  test('finds targets at any depth of the arguments', () => {
+    assert.ok(denied({ source: { databaseName: 'Vendas' }, target: { databaseName: 'Vendas_DEV' } }));
+    assert.ok(denied({ relationshipDefinition: { fromTable: 'Salários', toTable: 'Pessoas' } }));
+  });
+
+  test('reads the workspace of powerbi:// endpoints', () => {
+    assert.match(denied({ xmlaEndpoint: 'powerbi://api.powerbi.com/v1.0/myorg/Vendas%20Produ%C3%A7%C3%A3o' })!, /o workspace 'Vendas Produção'/);
+    assert.strictEqual(denied({ xmlaEndpoint: 'powerbi://api.powerbi.com/v1.0/myorg/Vendas DEV' }), undefined);
+  });
+
+  test('checks the names of definitions and object paths', () => {
+    assert.match(denied({ databaseDefinition: { name: 'Vendas' } })!, /o banco de dados 'Vendas'/);
+    assert.match(denied({ tableDefinition: { name: 'Salários', columns: [] } })!, /a tabela 'Salários'/);
+    assert.match(denied({ objectPaths: ['Vendas.Total', 'Salários.Valor'] })!, /a tabela 'Salários'/);
+  });
+});
+
+suite('checkDatasetAccess', () => {
+  const locations: Record<string, DatasetLocation> = {
+    'id-dev': { name: 'Vendas_DEV', workspaceId: 'w1', workspaceName: 'Vendas DEV' },
+    'id-prod': { name: 'Vendas_DEV', workspaceId: 'w2', workspaceName: 'Vendas Produção' },
+    'id-other': { name: 'Vendas', workspaceId: 'w1', workspaceName: 'Vendas DEV' }
+  };
+  const locate = async (datasetId: string) => locations[datasetId];
+
+  test('checks the workspace and database of a model passed by ID', async () => {
+    await checkDatasetAccess('execute_query', { semanticModelId: 'id-dev' }, policy, locate);
+    await assert.rejects(checkDatasetAccess('execute_query', { semanticModelId: 'id-prod' }, policy, locate),
+      (error: unknown) => error instanceof AccessDeniedError && /o workspace 'Vendas Produção'/.test(error.message));
+    await assert.rejects(checkDatasetAccess('database_operations', { semanticModelId: 'id-other' }, policy, locate),
+      /o banco de dados 'Vendas'/);
+  });
+
+  test('denies models it cannot locate', async () => {
+    await assert.rejects(checkDatasetAccess('execute_query', { datasetId: 'desconhecido' }, policy, locate),
+      /não foi possível identificar o workspace e o banco de dados do modelo semântico 'desconhecido'/);
+  });
+
+  test('looks nothing up without workspace or database rules', async () => {
+    const failing = async (): Promise<DatasetLocation> => { throw new Error('sem acesso'); };
+    await checkDatasetAccess('execute_query', { semanticModelId: 'x' }, { tables: { deny: ['Salários'] } }, failing);
+  });
+});
+
+suite('isAllowedByAccessPolicy', () => {
+  test('filters listed workspaces by ID or name', () => {
+    const byId: AccessPolicy = { workspaces: { allow: ['w1'] } };
+    assert.strictEqual(isAllowedByAccessPolicy(workspaceTargets({ id: 'w1', name: 'Vendas Produção' }), byId), true);
+    assert.strictEqual(isAllowedByAccessPolicy(workspaceTargets({ id: 'w1', name: 'Vendas Produção' }), policy), false);
+    assert.strictEqual(isAllowedByAccessPolicy(workspaceTargets({ id: 'w3', name: 'Vendas DEV' }), policy), true);
+  });
+
+  test('filters listed models by ID and by name as a database', () => {
+    assert.strictEqual(isAllowedByAccessPolicy(datasetTargets({ id: 'd1', name: 'Vendas_DEV' }), policy), true);
+    assert.strictEqual(isAllowedByAccessPolicy(datasetTargets({ id: 'd2', name: 'Vendas' }), policy), false);
+    assert.strictEqual(isAllowedByAccessPolicy(datasetTargets({ id: 'd2', name: 'Vendas' }), { datasets: { deny: ['d2'] } }), false);
+  });
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolContext } from '../types/index.js';
+import { confirmDestructiveCall, isDestructiveCall, withConfirmationArgument } from '../tools/confirmation.js';
+import { ToolError } from '../tools/toolErrors.js';
+
+const context: ToolContext = { readOnly: false, requireConfirmation: true };
+
+suite('isDestructiveCall', () => {
+  test('follows the kind of each operation', () => {
+    assert.strictEqual(isDestructiveCall('table_operations', { operation: 'delete' }), true);
+    assert.strictEqual(isDestructiveCall('table_operations', { operation: 'create' }), false);
+    assert.strictEqual(isDestructiveCall('transaction_operations', { operation: 'undo_last' }), true);
+  });
+
+  test('skips confirmation only for dry runs of operations that support them', () => {
+    assert.strictEqual(isDestructiveCall('database_operations', { operation: 'deploy', dryRun: true }), false);
+    assert.strictEqual(isDestructiveCall('database_operations', { operation: 'deploy', dryRun: false }), true);
+    assert.strictEqual(isDestructiveCall('table_operations', { operation: 'delete', dryRun: true }), true);
+  });
+});
+
+suite('confirmDestructiveCall', () => {
+  const invalidToken = (error: unknown) =>
+    error instanceof ToolError && error.code === 'VALIDATION_ERROR' && /Token de confirmação inválido/.test(error.message);
+  const args = { operation: 'delete', tableName: 'Vendas', xmlaEndpoint: 'powerbi://api.powerbi.com/v1.0/myorg/DEV' };
+
+  test('returns a preview and runs once repeated with the token', async () => {
+    const preview = await confirmDestructiveCall('table_operations', args, undefined, context);
+    assert.strictEqual(preview?.status, 'confirmation_required');
+    assert.match(String(preview?.message), /tableName: Vendas/);
+
+    // Same arguments in another key order
+    const reordered = { tableName: 'Vendas', xmlaEndpoint: args.xmlaEndpoint, operation: 'delete' };
+    assert.strictEqual(await confirmDestructiveCall('table_operations', reordered, preview?.confirmationToken, context), undefined);
+  });
+
+  test('accepts each token once', async () => {
+    const preview = await confirmDestructiveCall('table_operations', args, undefined, context);
+    await confirmDestructiveCall('table_operations', args, preview?.confirmationToken, context);
+    await assert.rejects(confirmDestructiveCall('table_operations', args, preview?.confirmationToken, context), invalidToken);
+  });
+
+  test('rejects a token issued for other arguments or another tool', async () => {
+    const preview = await confirmDestructiveCall('table_operations', args, undefined, context);
+    await assert.rejects(
+      confirmDestructiveCall('table_operations', { ...args, tableName: 'Clientes' }, preview?.confirmationToken, context),
+      invalidToken
+    );
+    await assert.rejects(
+      confirmDestructiveCall('column_operations', args, preview?.confirmationToken, context),
+      invalidToken
+    );
+    // A rejected attempt does not spend the token
+    assert.strictEqual(await confirmDestructiveCall('table_operations', args, preview?.confirmationToken, context), undefined);
+  });
+
+  test('asks the user through elicitation when the client supports it', async () => {
+    const messages: string[] = [];
+    const approve = { ...context, confirm: async (message: string) => { messages.push(message); return true; } };
+    assert.strictEqual(await confirmDestructiveCall('table_operations', args, undefined, approve), undefined);
+    assert.match(messages[0], /^Confirmar operação destrutiva: table_operations delete/);
+
+    const decline = { ...context, confirm: async () => false };
+    assert.strictEqual((await confirmDestructiveCall('table_operations', args, undefined, decline))?.status, 'cancelled');
+  });
+
+  test('falls back to a token when elicitation fails', async () => {
+    const failing = { ...context, confirm: async () => { throw new Error('timeout'); } };
+    assert.strictEqual((await confirmDestructiveCall('table_operations', args, undefined, failing))?.status, 'confirmation_required');
+  });
+});
+
+suite('withConfirmationArgument', () => {
+  const definition = (name: string): Tool => ({ name, inputSchema: { type: 'object', properties: { operation: { type: 'string' } } } });
+
+  test('adds confirmationToken only to tools with destructive operations', () => {
+    assert.ok(withConfirmationArgument(definition('table_operations')).inputSchema.properties?.confirmationToken);
+    assert.strictEqual(withConfirmationArgument(definition('execute_query')).inputSchema.properties?.confirmationToken, undefined);
+  });
+});
@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { TmslDefinition } from '../types/index.js';
+import { PowerBiClient } from '../tools/powerbiClient.js';
+import { handler } from '../tools/local/localPbiOperations.js';
+
+// Local write operations against a stand-in for the Desktop Analysis Services
+
+type Row = Record<string, string | number | boolean>;
+
+const ROWSETS: Record<string, Row[]> = {
+  TMSCHEMA_TABLES: [{ ID: 1, Name: 'Calendário', DataCategory: 'Time', LineageTag: 't1' }],
+  TMSCHEMA_COLUMNS: [
+    { ID: 10, TableID: 1, ExplicitName: 'Mês', ExplicitDataType: 2, Type: 1, SourceColumn: 'Mês', SortByColumnID: 11, SummarizeBy: 2, LineageTag: 'c1' },
+    { ID: 11, TableID: 1, ExplicitName: 'MêsNum', ExplicitDataType: 6, Type: 1, SourceColumn: 'MêsNum', IsHidden: true }
+  ],
+  TMSCHEMA_MEASURES: [{ ID: 20, TableID: 1, Name: 'Dias', Expression: 'COUNTROWS(Calendário)', FormatString: '#,0' }],
+  TMSCHEMA_FORMAT_STRING_DEFINITIONS: [{ ID: 30, ObjectID: 20, ObjectType: 8, Expression: 'SELECTEDMEASUREFORMATSTRING()' }],
+  TMSCHEMA_ANNOTATIONS: [
+    { ID: 40, ObjectID: 10, ObjectType: 4, Name: 'PBI_FormatHint', Value: '{"isText":true}' },
+    { ID: 41, ObjectID: 20, ObjectType: 8, Name: 'Origem', Value: 'Financeiro' },
+    { ID: 42, ObjectID: 1, ObjectType: 3, Name: 'PBI_ResultType', Value: 'Table' }
+  ]
+};
+
+// A typed rowset, as the engine sends it
+function rowset(rows: Row[]): string {
+  const columns = new Map<string, string>();
+  for (const row of rows) {
+    for (const [name, value] of Object.entries(row)) {
+      columns.set(name, typeof value === 'number' ? 'xsd:long' : typeof value === 'boolean' ? 'xsd:boolean' : 'xsd:string');
+    }
+  }
+  const schema = [...columns].map(([name, type]) => `<xsd:element name="${name}" type="${type}"/>`).join('');
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+  const body = rows.map(row => `<row>${Object.entries(row).map(([name, value]) => `<${name}>${escape(String(value))}</${name}>`).join('')}</row>`).join('');
+  return `<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body><DiscoverResponse><return>
+    <root xmlns:xsd="http://www.w3.org/2001/XMLSchema"><xsd:schema><xsd:complexType name="row"><xsd:sequence>${schema}</xsd:sequence></xsd:complexType></xsd:schema>${body}</root>
+  </return></DiscoverResponse></soap:Body></soap:Envelope>`;
+}
+
+suite('local_pbi_operations writes', () => {
+  let server: http.Server;
+  let port: number;
+  let sent: TmslDefinition[];
+  const client = {
+    executeTmsl: async (_endpoint: string, tmsl: TmslDefinition) => {
+      sent.push(tmsl);
+      return {};
+    }
+  } as unknown as PowerBiClient;
+
+  setup(async () => {
+    sent = [];
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.setEncoding('utf8');
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        const requestType = /<RequestType>(\w+)<\/RequestType>/.exec(body)?.[1] ?? '';
+        response.writeHead(200, { 'Content-Type': 'text/xml' });
+        response.end(rowset(ROWSETS[requestType] ?? []));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  teardown(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  const alterOf = (tmsl: TmslDefinition) => (tmsl.alter as Record<string, TmslDefinition>);
+
+  test('a description update keeps sortByColumn and annotations', async () => {
+    await handler({
+      operation: 'set_description', port, database: 'Modelo',
+      tableName: 'Calendário', objectType: 'column', objectName: 'Mês', description: 'Mês do ano'
+    }, client);
+
+    assert.deepStrictEqual(alterOf(sent[0]).column, {
+      name: 'Mês',
+      dataType: 'string',
+      description: 'Mês do ano',
+      summarizeBy: 'none',
+      sourceColumn: 'Mês',
+      lineageTag: 'c1',
+      sortByColumn: 'MêsNum',
+      annotations: [{ name: 'PBI_FormatHint', value: '{"isText":true}' }]
+    });
+  });
+
+  test('a measure update changes only the given properties', async () => {
+    await handler({
+      operation: 'update_measure', port, database: 'Modelo',
+      tableName: 'Calendário', objectName: 'Dias', measureDefinition: { displayFolder: 'Datas' }
+    }, client);
+
+    assert.deepStrictEqual(alterOf(sent[0]).measure, {
+      name: 'Dias',
+      expression: 'COUNTROWS(Calendário)',
+      formatString: '#,0',
+      displayFolder: 'Datas',
+      formatStringDefinition: { expression: 'SELECTEDMEASUREFORMATSTRING()' },
+      annotations: [{ name: 'Origem', value: 'Financeiro' }]
+    });
+  });
+
+  test('a table description keeps its properties and leaves its children out', async () => {
+    await handler({ operation: 'set_description', port, database: 'Modelo', tableName: 'Calendário', objectType: 'table', description: 'Datas' }, client);
+
+    assert.deepStrictEqual(alterOf(sent[0]).table, {
+      name: 'Calendário',
+      dataCategory: 'Time',
+      lineageTag: 't1',
+      annotations: [{ name: 'PBI_ResultType', value: 'Table' }],
+      description: 'Datas'
+    });
+  });
+});
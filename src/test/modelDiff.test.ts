@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import { TmslDatabase, TmslDefinition } from '../types/index.js';
+import { buildSyncScript, diffModels, hasDifferences } from '../tools/modelDiff.js';
+
+function model(definition: TmslDefinition): TmslDatabase {
+  return { name: 'Vendas', model: definition };
+}
+
+const customers = {
+  name: 'Clientes',
+  columns: [{ name: 'Id', dataType: 'int64' }, { name: 'Nome', dataType: 'string' }]
+};
+
+const sales = {
+  name: 'Vendas',
+  columns: [{ name: 'ClienteId', dataType: 'int64' }, { name: 'Valor', dataType: 'decimal' }],
+  measures: [{ name: 'Total', expression: 'SUM(Vendas[Valor])' }],
+  partitions: [{ name: 'Vendas', source: { type: 'm', expression: 'Fonte' } }]
+};
+
+const relationship = { name: 'r-origem', fromTable: 'Vendas', fromColumn: 'ClienteId', toTable: 'Clientes', toColumn: 'Id' };
+
+// The command type and object of each operation of a sync script
+function steps(script: TmslDefinition | undefined): string[] {
+  const operations = ((script?.sequence as { operations?: TmslDefinition[] } | undefined)?.operations) ?? [];
+  return operations.map(operation => {
+    const [command, body] = Object.entries(operation)[0];
+    const object = { ...(body as { object: Record<string, string> }).object };
+    delete object.database;
+    return `${command} ${Object.entries(object).map(([type, name]) => `${type}:${name}`).join('/')}`;
+  });
+}
+
+suite('diffModels', () => {
+  test('reports nothing for equal models, ignoring defaults and lineage tags', () => {
+    const target = model({ tables: [{ ...customers, isHidden: false, lineageTag: 'x' }] });
+    assert.strictEqual(hasDifferences(diffModels(model({ tables: [customers] }), target)), false);
+  });
+
+  test('reports added, removed and changed objects by collection', () => {
+    const source = model({
+      tables: [customers, { ...sales, measures: [{ name: 'Total', expression: 'SUMX(Vendas, Vendas[Valor])' }] }],
+      relationships: [relationship]
+    });
+    const target = model({
+      tables: [{ ...customers, columns: [customers.columns[0]] }, sales, { name: 'Antiga' }]
+    });
+    const diff = diffModels(source, target);
+
+    assert.deepStrictEqual(diff.tables.removed, ['Antiga']);
+    assert.deepStrictEqual(diff.columns.added, ['Clientes[Nome]']);
+    assert.deepStrictEqual(diff.measures.changed.map(c => c.name), ['Vendas[Total]']);
+    assert.deepStrictEqual(diff.measures.changed[0].changes.map(c => c.property), ['expression']);
+    assert.deepStrictEqual(diff.relationships.added, ['Vendas[ClienteId] -> Clientes[Id]']);
+  });
+
+  test('matches relationships on their columns, not their generated names', () => {
+    const source = model({ tables: [customers, sales], relationships: [relationship] });
+    const target = model({ tables: [customers, sales], relationships: [{ ...relationship, name: 'r-destino' }] });
+    assert.strictEqual(hasDifferences(diffModels(source, target)), false);
+  });
+});
+
+suite('buildSyncScript', () => {
+  test('returns no script for models in sync', () => {
+    const script = buildSyncScript(model({ tables: [customers] }), model({ tables: [customers] }), 'Vendas');
+    assert.strictEqual(script.tmsl, undefined);
+    assert.strictEqual(script.operationCount, 0);
+  });
+
+  test('deletes relationships before the columns and tables they use', () => {
+    const source = model({ tables: [{ ...sales, columns: [sales.columns[1]] }] });
+    const target = model({ tables: [customers, sales], relationships: [relationship] });
+    assert.deepStrictEqual(steps(buildSyncScript(source, target, 'Vendas').tmsl), [
+      'delete relationship:r-origem',
+      'delete table:Vendas/column:ClienteId',
+      'delete table:Clientes'
+    ]);
+  });
+
+  test('creates sources before tables and relationships and roles after them', () => {
+    const source = model({
+      dataSources: [{ name: 'Sql' }],
+      tables: [customers, sales],
+      relationships: [relationship],
+      roles: [{ name: 'Leitores', modelPermission: 'read' }]
+    });
+    const script = buildSyncScript(source, model({}), 'Vendas');
+    assert.deepStrictEqual(steps(script.tmsl), [
+      'createOrReplace dataSource:Sql',
+      'createOrReplace table:Clientes',
+      'createOrReplace table:Vendas',
+      'createOrReplace relationship:r-origem',
+      'createOrReplace role:Leitores'
+    ]);
+    assert.deepStrictEqual(script.requiresRefresh, ['Clientes', 'Vendas']);
+  });
+
+  test('replaces only the changed children of existing tables', () => {
+    const changed = { ...sales, measures: [{ name: 'Total', expression: 'SUMX(Vendas, Vendas[Valor])' }] };
+    const script = buildSyncScript(model({ tables: [changed] }), model({ tables: [sales] }), 'Vendas');
+    assert.deepStrictEqual(steps(script.tmsl), ['createOrReplace table:Vendas/measure:Total']);
+    assert.deepStrictEqual(script.requiresRefresh, []);
+  });
+
+  test('keeps the target name of a matched relationship', () => {
+    const source = model({ tables: [customers, sales], relationships: [{ ...relationship, isActive: false }] });
+    const target = model({ tables: [customers, sales], relationships: [{ ...relationship, name: 'r-destino' }] });
+    const operations = (buildSyncScript(source, target, 'Vendas').tmsl?.sequence as { operations: TmslDefinition[] }).operations;
+    assert.deepStrictEqual(operations, [{
+      createOrReplace: {
+        object: { database: 'Vendas', relationship: 'r-destino' },
+        relationship: { ...relationship, isActive: false, name: 'r-destino' }
+      }
+    }]);
+  });
+});
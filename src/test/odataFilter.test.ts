@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { compileFilter } from '../tools/odataFilter.js';
+import { ToolError } from '../tools/toolErrors.js';
+
+const items = [
+  { name: 'Vendas', isReadOnly: false, size: 10, owner: { name: 'Ana' }, createdAt: '2024-02-01T00:00:00Z' },
+  { name: 'Financeiro', isReadOnly: true, size: 30, owner: { name: 'Bruno' }, createdAt: '2023-06-15T00:00:00Z' },
+  { name: "D'Ávila", isReadOnly: false, size: 20, owner: null, createdAt: null }
+];
+
+function names(filter: string): string[] {
+  const predicate = compileFilter(filter);
+  return items.filter(predicate).map(item => item.name);
+}
+
+suite('compileFilter', () => {
+  test('compares strings ignoring case', () => {
+    assert.deepStrictEqual(names("name eq 'VENDAS'"), ['Vendas']);
+    assert.deepStrictEqual(names("name ne 'vendas'"), ['Financeiro', "D'Ávila"]);
+    assert.deepStrictEqual(names("contains(name,'NAN')"), ['Financeiro']);
+    assert.deepStrictEqual(names("startswith(name, 'd''')"), ["D'Ávila"]);
+    assert.deepStrictEqual(names("endswith(name,'AS')"), ['Vendas']);
+  });
+
+  test('compares numbers, booleans, nulls and dates', () => {
+    assert.deepStrictEqual(names('size gt 10'), ['Financeiro', "D'Ávila"]);
+    assert.deepStrictEqual(names('size le 20'), ['Vendas', "D'Ávila"]);
+    assert.deepStrictEqual(names('isReadOnly eq true'), ['Financeiro']);
+    assert.deepStrictEqual(names('createdAt eq null'), ["D'Ávila"]);
+    assert.deepStrictEqual(names('createdAt ge 2024-01-01'), ['Vendas']);
+  });
+
+  test('reads nested fields', () => {
+    assert.deepStrictEqual(names("owner/name eq 'bruno'"), ['Financeiro']);
+  });
+
+  test('combines with and, or, not and parentheses', () => {
+    assert.deepStrictEqual(names("isReadOnly eq false and (size gt 15 or name eq 'Vendas')"), ['Vendas', "D'Ávila"]);
+    assert.deepStrictEqual(names("not contains(name,'a') or size eq 30"), ['Financeiro']);
+  });
+
+  test('rejects invalid filters with a validation error', () => {
+    for (const filter of ["name eq", "name like 'x'", "(size gt 1", "size gt 1 size", 'name eq #']) {
+      assert.throws(() => compileFilter(filter), (error: unknown) =>
+        error instanceof ToolError && error.code === 'VALIDATION_ERROR', filter);
+    }
+  });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { DEFAULT_PAGE_SIZE, listOptionsFor, toPage } from '../tools/pagination.js';
+import { ToolError } from '../tools/toolErrors.js';
+
+const items = Array.from({ length: 7 }, (_, index) => index);
+
+// Reads the list the way a list operation does: the window, then the page
+function read(args: Parameters<typeof listOptionsFor>[0]) {
+  const options = listOptionsFor(args);
+  return toPage(items.slice(options.skip, options.skip! + options.top!), options);
+}
+
+suite('pagination', () => {
+  test('reads one item past the page to know whether more follow', () => {
+    assert.deepStrictEqual(listOptionsFor({}), { skip: 0, top: DEFAULT_PAGE_SIZE + 1, limit: DEFAULT_PAGE_SIZE });
+    assert.deepStrictEqual(listOptionsFor({ limit: 3, filter: "name eq 'x'" }), { skip: 0, top: 4, limit: 3, filter: "name eq 'x'" });
+  });
+
+  test('walks the list with cursors until the last page', () => {
+    const first = read({ limit: 3 });
+    assert.deepStrictEqual(first.items, [0, 1, 2]);
+    assert.strictEqual(first.page.hasMore, true);
+
+    const second = read({ cursor: first.page.nextCursor });
+    assert.deepStrictEqual(second.items, [3, 4, 5]);
+
+    const last = read({ cursor: second.page.nextCursor });
+    assert.deepStrictEqual(last.items, [6]);
+    assert.deepStrictEqual(last.page, { count: 1, hasMore: false });
+  });
+
+  test('keeps the filter in the cursor', () => {
+    const { page } = toPage(items.slice(0, 3), listOptionsFor({ limit: 2, filter: 'size gt 1' }));
+    assert.deepStrictEqual(listOptionsFor({ cursor: page.nextCursor }), { skip: 2, top: 3, limit: 2, filter: 'size gt 1' });
+    // Repeating the same filter is fine
+    assert.strictEqual(listOptionsFor({ cursor: page.nextCursor, filter: 'size gt 1' }).skip, 2);
+  });
+
+  test('rejects a cursor read with another filter', () => {
+    const { page } = toPage(items.slice(0, 3), listOptionsFor({ limit: 2, filter: 'size gt 1' }));
+    assert.throws(() => listOptionsFor({ cursor: page.nextCursor, filter: 'size gt 2' }), /O filtro mudou/);
+  });
+
+  test('rejects invalid cursors', () => {
+    const invalid = [
+      'não-é-cursor',
+      Buffer.from(JSON.stringify({ skip: -1, limit: 2 })).toString('base64url'),
+      Buffer.from(JSON.stringify({ skip: 0, limit: 0 })).toString('base64url')
+    ];
+    for (const cursor of invalid) {
+      assert.throws(() => listOptionsFor({ cursor }), (error: unknown) =>
+        error instanceof ToolError && error.code === 'VALIDATION_ERROR' && /Cursor inválido/.test(error.message));
+    }
+  });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { AuthConfig, ServerConfig } from '../types/index.js';
+import { AuthProvider } from '../auth/authProvider.js';
+import { profileOfSecretKey, secretStorageKey } from '../auth/secrets.js';
+import { ProfileSessions } from '../server/profileSessions.js';
+
+const AUTH: AuthConfig = { tenantId: 'contoso', clientId: 'app', method: 'clientCredentials' };
+
+function config(secretsChangedAt?: Record<string, string>): ServerConfig {
+  return {
+    tools: {},
+    auth: AUTH,
+    connection: { defaultSemanticModelIds: [], xmlaEndpoint: '' },
+    profiles: [{ name: 'Cliente.B', auth: AUTH, connection: { defaultSemanticModelIds: [], xmlaEndpoint: '' } }],
+    readOnly: false,
+    requireConfirmation: true,
+    ...(secretsChangedAt && { secretsChangedAt })
+  };
+}
+
+// The MSAL client is built offline from the secret; tokens would need the network
+function credentialOf(auth: AuthProvider): Promise<unknown> {
+  return (auth as unknown as { confidentialClient(): Promise<unknown> }).confidentialClient();
+}
+
+suite('ProfileSessions', () => {
+  test('rebuilds the credential of a running session when its secret is rotated', async () => {
+    const reads: Array<string | undefined> = [];
+    const sessions = new ProfileSessions(config(), undefined, async (_name, profile) => {
+      reads.push(profile);
+      return `segredo-${reads.length}`;
+    });
+    const running = sessions.session();
+    const other = sessions.session('Cliente.B');
+    await credentialOf(running.auth);
+    await credentialOf(other.auth);
+    assert.deepStrictEqual(reads, [undefined, 'Cliente.B']);
+
+    // The same settings, only the default profile's secret changed
+    sessions.update(config({ default: '2026-10-19T10:00:00.000Z' }));
+    await credentialOf(running.auth);
+    await credentialOf(other.auth);
+    assert.deepStrictEqual(reads, [undefined, 'Cliente.B', undefined]);
+
+    // Reloading with the same stamp keeps the credential
+    sessions.update(config({ default: '2026-10-19T10:00:00.000Z' }));
+    await credentialOf(running.auth);
+    assert.strictEqual(reads.length, 3);
+    assert.strictEqual(sessions.session(), running);
+  });
+
+  test('reads the profile of secret keys', () => {
+    assert.strictEqual(profileOfSecretKey(secretStorageKey('clientSecret', 'Cliente.B')), 'Cliente.B');
+    assert.strictEqual(profileOfSecretKey(secretStorageKey('clientSecret')), undefined);
+  });
+});
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import { AxiosError, AxiosHeaders, AxiosResponse } from 'axios';
+import { ConcurrencyLimiter, RetryOptions, isIdempotentMethod, sendWithRetry } from '../tools/requestPipeline.js';
+
+const FAST: RetryOptions = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 1 };
+
+function response(status: number, headers: Record<string, string> = {}): AxiosResponse {
+  return { status, statusText: '', headers, data: null, config: { headers: new AxiosHeaders() } };
+}
+
+// A send function answering with the given statuses in turn (the last one repeats)
+function sequence(...answers: Array<AxiosResponse | Error>): { send: () => Promise<AxiosResponse>; calls: () => number } {
+  let calls = 0;
+  return {
+    send: async () => {
+      const answer = answers[Math.min(calls++, answers.length - 1)];
+      if (answer instanceof Error) throw answer;
+      return answer;
+    },
+    calls: () => calls
+  };
+}
+
+suite('sendWithRetry', () => {
+  test('waits for Retry-After on 429 and resends any method', async () => {
+    const { send, calls } = sequence(response(429, { 'retry-after': '0' }), response(200));
+    const result = await sendWithRetry(send, new ConcurrencyLimiter(1), { idempotent: false }, FAST);
+    assert.strictEqual(result.status, 200);
+    assert.strictEqual(calls(), 2);
+  });
+
+  test('gives up when Retry-After is too long to wait for', async () => {
+    const { send, calls } = sequence(response(429, { 'retry-after': '3600' }), response(200));
+    const result = await sendWithRetry(send, new ConcurrencyLimiter(1), { idempotent: true }, FAST);
+    assert.strictEqual(result.status, 429);
+    assert.strictEqual(calls(), 1);
+  });
+
+  test('refreshes the token once on 401', async () => {
+    let refreshes = 0;
+    const { send, calls } = sequence(response(401), response(401), response(200));
+    const result = await sendWithRetry(send, new ConcurrencyLimiter(1), {
+      idempotent: true,
+      refreshToken: async () => { refreshes++; }
+    }, FAST);
+    assert.strictEqual(result.status, 401);
+    assert.strictEqual(refreshes, 1);
+    assert.strictEqual(calls(), 2);
+  });
+
+  test('retries transient statuses of idempotent calls only', async () => {
+    const idempotent = sequence(response(503), response(500), response(200));
+    assert.strictEqual((await sendWithRetry(idempotent.send, new ConcurrencyLimiter(1), { idempotent: true }, FAST)).status, 200);
+    assert.strictEqual(idempotent.calls(), 3);
+
+    const command = sequence(response(503), response(200));
+    assert.strictEqual((await sendWithRetry(command.send, new ConcurrencyLimiter(1), { idempotent: false }, FAST)).status, 503);
+    assert.strictEqual(command.calls(), 1);
+  });
+
+  test('honors the transient statuses of the policy', async () => {
+    // XMLA faults arrive as HTTP 500 and must not be resent
+    const { send, calls } = sequence(response(500), response(200));
+    const result = await sendWithRetry(send, new ConcurrencyLimiter(1), { idempotent: true, transientStatuses: [502, 503, 504] }, FAST);
+    assert.strictEqual(result.status, 500);
+    assert.strictEqual(calls(), 1);
+  });
+
+  test('retries dropped connections of idempotent calls', async () => {
+    const reset = new AxiosError('socket hang up', 'ECONNRESET');
+    const { send, calls } = sequence(reset, response(200));
+    assert.strictEqual((await sendWithRetry(send, new ConcurrencyLimiter(1), { idempotent: true }, FAST)).status, 200);
+    assert.strictEqual(calls(), 2);
+
+    const command = sequence(reset, response(200));
+    await assert.rejects(sendWithRetry(command.send, new ConcurrencyLimiter(1), { idempotent: false }, FAST), /socket hang up/);
+  });
+
+  test('stops after maxRetries', async () => {
+    const { send, calls } = sequence(response(504));
+    const result = await sendWithRetry(send, new ConcurrencyLimiter(1), { idempotent: true }, FAST);
+    assert.strictEqual(result.status, 504);
+    assert.strictEqual(calls(), FAST.maxRetries + 1);
+  });
+});
+
+suite('ConcurrencyLimiter', () => {
+  test('keeps at most max tasks running', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    };
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)));
+    assert.strictEqual(peak, 2);
+  });
+
+  test('holds every task while paused', async () => {
+    const limiter = new ConcurrencyLimiter(4);
+    limiter.pause(30);
+    const started = Date.now();
+    await limiter.run(async () => undefined);
+    assert.ok(Date.now() - started >= 25);
+  });
+});
+
+suite('isIdempotentMethod', () => {
+  test('treats POST as not idempotent', () => {
+    assert.strictEqual(isIdempotentMethod('get'), true);
+    assert.strictEqual(isIdempotentMethod('DELETE'), true);
+    assert.strictEqual(isIdempotentMethod(undefined), true);
+    assert.strictEqual(isIdempotentMethod('post'), false);
+  });
+});
@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import { TmdlError, parseReference, parseTmdl, quoteName, readTmdlFolder, serializeTmdl, writeTmdlFolder } from '../tools/pbip/tmdl.js';
+
+const SALES_TABLE = [
+  '/// Fatos de venda',
+  "table 'Vendas Diárias'",
+  '\tlineageTag: 1a2b',
+  '',
+  '\tmeasure Total = SUM(\'Vendas Diárias\'[Valor])',
+  '\t\tformatString: #,0.00',
+  '',
+  '\tmeasure Margem =',
+  '\t\t\tDIVIDE(',
+  '\t\t\t\t[Total],',
+  '\t\t\t\t[Custo]',
+  '\t\t\t)',
+  '',
+  '\tcolumn Valor',
+  '\t\tdataType: decimal',
+  '\t\tsourceColumn: Valor',
+  '',
+  '\tcolumn ClienteId',
+  '\t\tdataType: int64',
+  '\t\tisHidden',
+  '',
+  "\tpartition 'Vendas Diárias' = m",
+  '\t\tmode: import',
+  '\t\tsource = ```',
+  '\t\t\t\tlet',
+  '\t\t\t\t    Fonte = Sql.Database("srv", "db")',
+  '\t\t\t\tin',
+  '\t\t\t\t    Fonte',
+  '\t\t\t\t```',
+  '',
+  '\tannotation PBI_ResultType = Table',
+  ''
+].join('\n');
+
+const FOLDER = new Map([
+  ['database.tmdl', 'database Vendas\n\tcompatibilityLevel: 1567\n'],
+  ['model.tmdl', 'model Model\n\tculture: pt-BR\n\nref table Clientes\nref table \'Vendas Diárias\'\n'],
+  ['tables/Vendas Diárias.tmdl', SALES_TABLE],
+  ['tables/Clientes.tmdl', 'table Clientes\n\n\tcolumn Id\n\t\tdataType: int64\n'],
+  ['relationships.tmdl', "relationship r1\n\tfromColumn: 'Vendas Diárias'.ClienteId\n\ttoColumn: Clientes.Id\n"]
+]);
+
+suite('TMDL syntax', () => {
+  test('parses names, properties, expressions and descriptions', () => {
+    const [table] = parseTmdl(SALES_TABLE);
+    assert.strictEqual(table.keyword, 'table');
+    assert.strictEqual(table.name, 'Vendas Diárias');
+    assert.strictEqual(table.description, 'Fatos de venda');
+
+    const margin = table.children.find(c => c.name === 'Margem')!;
+    assert.strictEqual(margin.expression, true);
+    assert.strictEqual(margin.value, 'DIVIDE(\n\t[Total],\n\t[Custo]\n)');
+
+    const partition = table.children.find(c => c.keyword === 'partition')!;
+    const source = partition.children.find(c => c.keyword === 'source')!;
+    assert.strictEqual(source.value, 'let\n    Fonte = Sql.Database("srv", "db")\nin\n    Fonte');
+  });
+
+  test('serializes back to text that parses to the same tree', () => {
+    const nodes = parseTmdl(SALES_TABLE);
+    assert.deepStrictEqual(parseTmdl(serializeTmdl(nodes)), nodes);
+  });
+
+  test('reports the file and line of invalid declarations', () => {
+    assert.throws(() => parseTmdl("table Vendas\n\tcolumn 'A' B\n", 'tables/Vendas.tmdl'), (error: unknown) =>
+      error instanceof TmdlError && error.line === 2 && error.message.startsWith('tables/Vendas.tmdl:2:'));
+  });
+
+  test('quotes and splits object references', () => {
+    assert.strictEqual(quoteName('Vendas'), 'Vendas');
+    assert.strictEqual(quoteName("Vendas D'Ávila"), "'Vendas D''Ávila'");
+    assert.deepStrictEqual(parseReference("'Vendas Diárias'.'Data do Pedido'"), ['Vendas Diárias', 'Data do Pedido']);
+    assert.throws(() => parseReference("'Vendas' x"), TmdlError);
+  });
+});
+
+suite('TMDL folders', () => {
+  test('reads a definition folder into the TMSL shape', () => {
+    const database = readTmdlFolder(FOLDER);
+    assert.strictEqual(database.name, 'Vendas');
+    assert.strictEqual(database.compatibilityLevel, 1567);
+    assert.strictEqual(database.model.culture, 'pt-BR');
+
+    const tables = database.model.tables as Array<Record<string, unknown>>;
+    // model.tmdl refs fix the order of the tables
+    assert.deepStrictEqual(tables.map(t => t.name), ['Clientes', 'Vendas Diárias']);
+
+    const sales = tables[1];
+    assert.strictEqual(sales.description, 'Fatos de venda');
+    assert.deepStrictEqual(sales.columns, [
+      { name: 'Valor', dataType: 'decimal', sourceColumn: 'Valor' },
+      { name: 'ClienteId', dataType: 'int64', isHidden: true }
+    ]);
+    assert.deepStrictEqual((sales.measures as unknown[])[0], {
+      name: 'Total',
+      expression: "SUM('Vendas Diárias'[Valor])",
+      formatString: '#,0.00'
+    });
+    assert.deepStrictEqual(sales.partitions, [{
+      name: 'Vendas Diárias',
+      mode: 'import',
+      source: { type: 'm', expression: 'let\n    Fonte = Sql.Database("srv", "db")\nin\n    Fonte' }
+    }]);
+    assert.deepStrictEqual(database.model.relationships, [
+      { name: 'r1', fromTable: 'Vendas Diárias', fromColumn: 'ClienteId', toTable: 'Clientes', toColumn: 'Id' }
+    ]);
+  });
+
+  test('writes a folder that reads back to the same model', () => {
+    const database = readTmdlFolder(FOLDER);
+    const files = writeTmdlFolder(database);
+    assert.deepStrictEqual([...files.keys()].sort(), [
+      'database.tmdl', 'model.tmdl', 'relationships.tmdl', 'tables/Clientes.tmdl', 'tables/Vendas Diárias.tmdl'
+    ]);
+    assert.deepStrictEqual(readTmdlFolder(files), database);
+  });
+
+  test('writes objects back to the files they were read from', () => {
+    const files = new Map([...FOLDER].map(([path, content]) => [path.replace('tables/Clientes', 'tables/cli'), content]));
+    const sources = new Map<string, string>();
+    const written = writeTmdlFolder(readTmdlFolder(files, sources), sources);
+    assert.ok(written.has('tables/cli.tmdl'));
+  });
+
+  test('rejects declarations outside an object', () => {
+    assert.throws(() => readTmdlFolder(new Map([['x.tmdl', 'annotation A = 1\n']])), /fora de um objeto/);
+  });
+});
@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AuthProvider } from '../auth/authProvider.js';
+import { PowerBiClient } from '../tools/powerbiClient.js';
+import { TmslDatabase, TmslDefinition, ToolContext } from '../types/index.js';
+import { AccessDeniedError } from '../config/accessPolicy.js';
+import { UndoJournal } from '../tools/undoJournal.js';
+import { handler } from '../tools/modeling/transactionOperations.js';
+
+const ENDPOINT = 'powerbi://api.powerbi.com/v1.0/myorg/Vendas Produção';
+const CONTEXT: ToolContext = { readOnly: false, requireConfirmation: false };
+
+function model(...tables: string[]): TmslDatabase {
+  return { name: 'Vendas', model: { tables: tables.map(name => ({ name, columns: [{ name: 'Id', dataType: 'int64' }] })) } };
+}
+
+// A call that deletes a table, as the journal sees it
+async function deleteTable(journal: UndoJournal): Promise<string> {
+  const states = [model('Clientes', 'Salários'), model('Clientes')];
+  const { entries } = await journal.run('table_operations', { operation: 'delete' }, () =>
+    journal.captureBeforeChange(ENDPOINT, 'Vendas', { delete: { object: { database: 'Vendas', table: 'Salários' } } }, async () => states.shift()));
+  return entries[0].id;
+}
+
+suite('transaction_operations undo', () => {
+  let sent: TmslDefinition[];
+  const clientWith = (journal: UndoJournal) => ({
+    undoJournal: journal,
+    getTransaction: () => undefined,
+    executeTmsl: async (_endpoint: string, tmsl: TmslDefinition) => {
+      sent.push(tmsl);
+      return {};
+    }
+  } as unknown as PowerBiClient);
+
+  setup(() => {
+    sent = [];
+  });
+
+  test('checks the model of the entry against the access policy', async () => {
+    const journal = new UndoJournal();
+    const undoId = await deleteTable(journal);
+    const context: ToolContext = { ...CONTEXT, accessPolicy: { workspaces: { deny: ['*Produção*'] } } };
+    await assert.rejects(handler({ operation: 'undo', undoId }, clientWith(journal), context), (error: unknown) =>
+      error instanceof AccessDeniedError && /o workspace 'Vendas Produção'/.test(error.message));
+    assert.strictEqual(sent.length, 0);
+
+    const history = await handler({ operation: 'history' }, clientWith(journal), context) as { count: number };
+    assert.strictEqual(history.count, 0);
+  });
+
+  test('checks the tables the entry changed', async () => {
+    const journal = new UndoJournal();
+    const undoId = await deleteTable(journal);
+    const context: ToolContext = { ...CONTEXT, accessPolicy: { tables: { deny: ['Salários'] } } };
+    await assert.rejects(handler({ operation: 'undo', undoId }, clientWith(journal), context), /a tabela 'Salários'/);
+
+    await handler({ operation: 'undo', undoId }, clientWith(journal), CONTEXT);
+    assert.strictEqual(sent.length, 1);
+  });
+
+  test('keeps the changes of each connection profile apart', async () => {
+    const journal = new UndoJournal();
+    const undoId = await deleteTable(journal);
+    const other = clientWith(new UndoJournal());
+    await assert.rejects(handler({ operation: 'undo', undoId }, other, CONTEXT), /não encontrada no histórico/);
+    await assert.rejects(handler({ operation: 'undo_last' }, other, CONTEXT), /Nenhuma alteração a desfazer/);
+    assert.strictEqual(sent.length, 0);
+  });
+});
+
+suite('model snapshots', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let modified: number;
+  let definitionReads: number;
+
+  setup(async () => {
+    modified = 0;
+    definitionReads = 0;
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.setEncoding('utf8');
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        const requestType = /<RequestType>(\w+)<\/RequestType>/.exec(body)?.[1];
+        let rows = '';
+        if (!requestType) {
+          modified++;
+        } else if (requestType === 'DBSCHEMA_CATALOGS') {
+          rows = `<row><CATALOG_NAME>Vendas</CATALOG_NAME><DATE_MODIFIED>2026-01-01T00:00:0${modified}</DATE_MODIFIED></row>`;
+        } else if (requestType === 'TMSCHEMA_TABLES') {
+          definitionReads++;
+          rows = `<row><ID>1</ID><Name>Vendas ${modified}</Name></row>`;
+        }
+        response.writeHead(200, { 'Content-Type': 'text/xml' });
+        response.end(`<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body><DiscoverResponse><return><root>${rows}</root></return></DiscoverResponse></soap:Body></soap:Envelope>`);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/xmla`;
+  });
+
+  teardown(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  test('reads a model once per change and reuses the snapshot after a call as the next one before it', async () => {
+    const client = new PowerBiClient({ tenantId: 'teste' } as unknown as AuthProvider);
+    const rename = (name: string) => client.undoJournal.run('table_operations', { operation: 'update' }, () =>
+      client.executeTmsl(endpoint, { alter: { object: { database: 'Vendas', table: 'Vendas' }, table: { name } } }));
+
+    const first = await rename('A');
+    assert.strictEqual(first.entries.length, 1);
+    assert.strictEqual(definitionReads, 2);
+
+    const second = await rename('B');
+    assert.strictEqual(second.entries.length, 1);
+    assert.strictEqual(definitionReads, 3);
+  });
+
+  test('reads the model again when it changed outside the client', async () => {
+    const client = new PowerBiClient({ tenantId: 'teste' } as unknown as AuthProvider);
+    await client.findModelDefinition(endpoint, 'Vendas');
+    await client.findModelDefinition(endpoint, 'Vendas');
+    assert.strictEqual(definitionReads, 1);
+
+    modified++;
+    const definition = await client.findModelDefinition(endpoint, 'Vendas');
+    assert.strictEqual(definitionReads, 2);
+    assert.strictEqual((definition?.model.tables as TmslDefinition[])[0].name, 'Vendas 1');
+  });
+});
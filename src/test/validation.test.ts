@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { OperationRequirements, describeRequirements, requiredFields, validateArguments } from '../tools/validation.js';
+import { getAllToolDefinitions, getEnabledToolDefinitions } from '../tools/index.js';
+
+const schema = {
+  type: 'object',
+  properties: {
+    operation: { type: 'string', enum: ['list', 'get', 'rename'] },
+    tableName: { type: 'string' },
+    newName: { type: 'string' },
+    limit: { type: 'integer', minimum: 1, maximum: 10 },
+    renames: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: { from: { type: 'string' }, to: { type: 'string' } },
+        required: ['from', 'to'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['operation']
+};
+
+const requiredByOperation: OperationRequirements = { get: ['tableName'], rename: ['tableName', 'newName'] };
+
+suite('validateArguments', () => {
+  test('accepts valid arguments', () => {
+    assert.deepStrictEqual(validateArguments(schema, { operation: 'list', limit: 5 }), []);
+    assert.deepStrictEqual(validateArguments(schema, { operation: 'get', tableName: 'Vendas' }, requiredByOperation), []);
+  });
+
+  test('reports the fields each operation requires', () => {
+    assert.deepStrictEqual(validateArguments(schema, { operation: 'rename', tableName: '' }, requiredByOperation), [
+      { field: 'tableName', message: "obrigatório para a operação 'rename'" },
+      { field: 'newName', message: "obrigatório para a operação 'rename'" }
+    ]);
+    assert.deepStrictEqual(validateArguments(schema, {}), [{ field: 'operation', message: 'obrigatório' }]);
+  });
+
+  test('reports types, enums and ranges', () => {
+    assert.deepStrictEqual(validateArguments(schema, { operation: 'drop', limit: 1.5 }).map(i => i.field), ['operation', 'limit']);
+    assert.deepStrictEqual(validateArguments(schema, { operation: 'list', limit: 11 }), [
+      { field: 'limit', message: 'deve ser menor ou igual a 10' }
+    ]);
+    assert.deepStrictEqual(validateArguments(schema, { operation: 'list', tableName: 3 }), [
+      { field: 'tableName', message: 'deve ser texto, recebido número' }
+    ]);
+  });
+
+  test('reports nested fields by path', () => {
+    const issues = validateArguments(schema, { operation: 'list', renames: [{ from: 'a', to: 'b' }, { from: 'c', extra: 1 }] });
+    assert.deepStrictEqual(issues, [
+      { field: 'renames[1].to', message: 'obrigatório' },
+      { field: 'renames[1].extra', message: 'campo não reconhecido' }
+    ]);
+    assert.deepStrictEqual(validateArguments(schema, { operation: 'list', renames: [] }), [
+      { field: 'renames', message: 'deve ter ao menos 1 item(ns)' }
+    ]);
+  });
+});
+
+suite('requiredFields', () => {
+  test('lists the required fields of the schema and of the operation', () => {
+    assert.deepStrictEqual(requiredFields(schema, { operation: 'list' }, requiredByOperation), ['operation']);
+    assert.deepStrictEqual(requiredFields(schema, { operation: 'rename' }, requiredByOperation), ['operation', 'tableName', 'newName']);
+    assert.deepStrictEqual(requiredFields(schema, { operation: 'toString' }, requiredByOperation), ['operation']);
+  });
+});
+
+suite('describeRequirements', () => {
+  test('lists the fields of the given operations', () => {
+    assert.strictEqual(describeRequirements(requiredByOperation), 'Campos obrigatórios por operação — get: tableName; rename: tableName, newName.');
+    assert.strictEqual(describeRequirements(requiredByOperation, ['list', 'get']), 'Campos obrigatórios por operação — get: tableName.');
+    assert.strictEqual(describeRequirements(requiredByOperation, ['list']), '');
+  });
+});
+
+suite('published tool schemas', () => {
+  const enabled = () => getEnabledToolDefinitions(Object.fromEntries(getAllToolDefinitions().map(t => [t.name, true])));
+  const operationOf = (tool: Tool) => tool.inputSchema.properties?.operation as { description: string };
+
+  test('carry no allOf, if or then, which some clients reject', () => {
+    for (const tool of enabled()) {
+      assert.doesNotMatch(JSON.stringify(tool.inputSchema), /"(allOf|if|then)":/, tool.name);
+    }
+  });
+
+  test('list the fields each operation requires in its description', () => {
+    const table = enabled().find(t => t.name === 'table_operations')!;
+    assert.match(operationOf(table).description, /^Operação a executar na tabela\. Campos obrigatórios por operação — list: xmlaEndpoint, databaseName; get: xmlaEndpoint, databaseName, tableName;/);
+  });
+});
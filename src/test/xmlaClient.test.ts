@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { XmlaClient, XmlaError } from '../tools/xmlaClient.js';
+import { ConcurrencyLimiter } from '../tools/requestPipeline.js';
+
+// XMLA client against a local HTTP stand-in for the XMLA endpoint
+
+interface StandInResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: string;
+}
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const ROWSET = `<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body>
+  <DiscoverResponse xmlns="urn:schemas-microsoft-com:xml-analysis"><return>
+    <root xmlns="urn:schemas-microsoft-com:xml-analysis:rowset" xmlns:xsd="http://www.w3.org/2001/XMLSchema">
+      <xsd:schema><xsd:complexType name="row"><xsd:sequence>
+        <xsd:element name="ID" type="xsd:unsignedLong"/>
+        <xsd:element name="Table_x0020_Name" type="xsd:string"/>
+        <xsd:element name="IsHidden" type="xsd:boolean"/>
+      </xsd:sequence></xsd:complexType></xsd:schema>
+      <row><ID>7</ID><Table_x0020_Name>Vendas &amp; Metas</Table_x0020_Name><IsHidden>false</IsHidden></row>
+      <row><ID>8</ID><IsHidden>true</IsHidden></row>
+    </root>
+  </return></DiscoverResponse>
+</soap:Body></soap:Envelope>`;
+
+const FAULT = `<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body>
+  <soap:Fault><faultcode>XMLAnalysisError.0xc10a0004</faultcode><faultstring>Falha</faultstring>
+    <detail><Error ErrorCode="3238002695" Description="A tabela 'X' não existe." Source="Microsoft SQL Server Analysis Services"/></detail>
+  </soap:Fault>
+</soap:Body></soap:Envelope>`;
+
+const EMPTY = '<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body><ExecuteResponse><return><root/></return></ExecuteResponse></soap:Body></soap:Envelope>';
+
+suite('XmlaClient', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let responses: StandInResponse[];
+  let received: ReceivedRequest[];
+  let tokenRequests: number;
+  let client: XmlaClient;
+
+  setup(async () => {
+    responses = [];
+    received = [];
+    tokenRequests = 0;
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.setEncoding('utf8');
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        const next = responses.shift() ?? { body: EMPTY };
+        response.writeHead(next.status ?? 200, { 'Content-Type': 'text/xml', ...next.headers });
+        response.end(next.body);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/xmla`;
+    client = new XmlaClient(async () => {
+      tokenRequests++;
+      return 'token';
+    }, () => new ConcurrencyLimiter(4), 5_000);
+  });
+
+  teardown(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  test('sends a SOAP Discover and decodes the typed rowset', async () => {
+    responses.push({ body: ROWSET });
+    const rows = await client.discover(endpoint, 'TMSCHEMA_TABLES', { DatabaseName: 'Vendas', ID: 7 });
+
+    assert.deepStrictEqual(rows, [
+      { ID: 7, 'Table Name': 'Vendas & Metas', IsHidden: false },
+      { ID: 8, 'Table Name': null, IsHidden: true }
+    ]);
+    const [request] = received;
+    assert.strictEqual(request.headers.soapaction, '"urn:schemas-microsoft-com:xml-analysis:Discover"');
+    assert.match(request.body, /<RequestType>TMSCHEMA_TABLES<\/RequestType>/);
+    assert.match(request.body, /<RestrictionList><ID>7<\/ID><\/RestrictionList>/);
+    assert.match(request.body, /<Catalog>Vendas<\/Catalog>/);
+  });
+
+  test('sends no token to loopback endpoints', async () => {
+    responses.push({ body: ROWSET });
+    await client.discover(endpoint, 'TMSCHEMA_TABLES');
+    assert.strictEqual(received[0].headers.authorization, undefined);
+    assert.strictEqual(tokenRequests, 0);
+  });
+
+  test('sends TMSL as an escaped Execute statement without Catalog', async () => {
+    await client.execute(endpoint, { delete: { object: { database: 'A<B' } } }, 'A<B');
+    const [request] = received;
+    assert.strictEqual(request.headers.soapaction, '"urn:schemas-microsoft-com:xml-analysis:Execute"');
+    assert.match(request.body, /<Statement>\{&quot;delete&quot;:\{&quot;object&quot;:\{&quot;database&quot;:&quot;A&lt;B&quot;\}\}\}<\/Statement>/);
+    assert.doesNotMatch(request.body, /<Catalog>/);
+  });
+
+  test('sets the Catalog of DAX statements', async () => {
+    responses.push({ body: ROWSET });
+    const result = await client.execute(endpoint, 'EVALUATE Vendas', 'Modelo');
+    assert.match(received[0].body, /<Catalog>Modelo<\/Catalog>/);
+    assert.strictEqual(result.rows.length, 2);
+    assert.deepStrictEqual(result.columns.map(c => c.name), ['ID', 'Table Name', 'IsHidden']);
+  });
+
+  test('turns a SOAP fault into an XmlaError with its code', async () => {
+    responses.push({ status: 500, body: FAULT });
+    await assert.rejects(client.execute(endpoint, { refresh: {} }), (error: unknown) => {
+      assert.ok(error instanceof XmlaError);
+      assert.strictEqual(error.code, '3238002695');
+      assert.strictEqual(error.message, "A tabela 'X' não existe.");
+      assert.strictEqual(error.httpStatus, 500);
+      return true;
+    });
+    // Faults are answers, not transient failures
+    assert.strictEqual(received.length, 1);
+  });
+
+  test('resends discovers after a gateway error', async () => {
+    responses.push({ status: 503, headers: { 'Retry-After': '0' }, body: '' }, { body: ROWSET });
+    const rows = await client.discover(endpoint, 'TMSCHEMA_TABLES');
+    assert.strictEqual(rows.length, 2);
+    assert.strictEqual(received.length, 2);
+  });
+
+  test('never resends a TMSL command after a gateway error', async () => {
+    responses.push({ status: 502, body: '' }, { body: EMPTY });
+    await assert.rejects(client.execute(endpoint, { refresh: {} }), /HTTP 502/);
+    assert.strictEqual(received.length, 1);
+  });
+
+  test('rejects unsupported endpoints', async () => {
+    await assert.rejects(client.discover('ftp://servidor/modelo', 'TMSCHEMA_TABLES'), /Endpoint XMLA não suportado/);
+  });
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { convertValue, decodeXmlName, parseRowset, parseXml, readFault, readMessages } from '../tools/xmlaRowset.js';
+
+suite('parseXml', () => {
+  test('keeps prefixes, attributes, entities and CDATA', () => {
+    const document = parseXml('<?xml version="1.0"?><!-- c --><a:root x="1 &lt; 2"><b>x &amp; <![CDATA[<y>]]></b><c/></a:root>');
+    const [root] = document.children;
+    assert.strictEqual(root.name, 'a:root');
+    assert.strictEqual(root.localName, 'root');
+    assert.strictEqual(root.attributes.x, '1 < 2');
+    assert.deepStrictEqual(root.children.map(c => c.name), ['b', 'c']);
+    assert.strictEqual(root.children[0].text, 'x & <y>');
+  });
+});
+
+suite('decodeXmlName', () => {
+  test('decodes _xHHHH_ escapes', () => {
+    assert.strictEqual(decodeXmlName('Order_x0020_Date'), 'Order Date');
+    assert.strictEqual(decodeXmlName('_x005B_Total_x005D_'), '[Total]');
+    assert.strictEqual(decodeXmlName('Plain_Name'), 'Plain_Name');
+  });
+});
+
+suite('convertValue', () => {
+  test('converts numbers, booleans and infinities', () => {
+    assert.strictEqual(convertValue('1.5', 'xsd:double'), 1.5);
+    assert.strictEqual(convertValue('-INF', 'xsd:double'), -Infinity);
+    assert.strictEqual(convertValue('1', 'xsd:boolean'), true);
+    assert.strictEqual(convertValue('false', 'xsd:boolean'), false);
+    assert.strictEqual(convertValue('42', 'xsd:int'), 42);
+    assert.strictEqual(convertValue('abc', undefined), 'abc');
+  });
+
+  test('keeps 64-bit integers beyond double precision as strings', () => {
+    assert.strictEqual(convertValue('9007199254740993', 'xsd:long'), '9007199254740993');
+    assert.strictEqual(convertValue('9007199254740991', 'xsd:long'), 9007199254740991);
+  });
+
+  test('reads dates without offset as UTC', () => {
+    assert.strictEqual((convertValue('2024-03-01T10:30:00', 'xsd:dateTime') as Date).toISOString(), '2024-03-01T10:30:00.000Z');
+    assert.strictEqual((convertValue('2024-03-01', 'xsd:date') as Date).toISOString(), '2024-03-01T00:00:00.000Z');
+    assert.strictEqual((convertValue('2024-03-01T10:30:00-03:00', 'xsd:dateTime') as Date).toISOString(), '2024-03-01T13:30:00.000Z');
+  });
+});
+
+suite('parseRowset', () => {
+  test('types columns from the schema, including restricted simple types', () => {
+    const rowset = parseRowset(`<root xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:sql="urn:schemas-microsoft-com:xml-sql">
+      <xsd:schema>
+        <xsd:simpleType name="uuid"><xsd:restriction base="xsd:string"/></xsd:simpleType>
+        <xsd:complexType name="row"><xsd:sequence>
+          <xsd:element name="C0" sql:field="[Vendas].[Total]" type="xsd:decimal"/>
+          <xsd:element name="Id" type="uuid"/>
+          <xsd:element name="Quando"><xsd:simpleType><xsd:restriction base="xsd:dateTime"/></xsd:simpleType></xsd:element>
+        </xsd:sequence></xsd:complexType>
+      </xsd:schema>
+      <row><C0>10.5</C0><Id>a-b</Id><Quando>2024-01-02T00:00:00</Quando></row>
+      <row><Id xsi:nil="true"/></row>
+    </root>`);
+
+    assert.deepStrictEqual(rowset.columns.map(c => [c.name, c.type]), [
+      ['[Vendas].[Total]', 'xsd:decimal'],
+      ['Id', 'xsd:string'],
+      ['Quando', 'xsd:dateTime']
+    ]);
+    assert.deepStrictEqual(rowset.rows, [
+      { '[Vendas].[Total]': 10.5, Id: 'a-b', Quando: new Date('2024-01-02T00:00:00Z') },
+      { '[Vendas].[Total]': null, Id: null, Quando: null }
+    ]);
+  });
+
+  test('returns an empty rowset for responses without data', () => {
+    assert.deepStrictEqual(parseRowset('<ExecuteResponse><return><root/></return></ExecuteResponse>'), { columns: [], rows: [] });
+  });
+});
+
+suite('XMLA faults and messages', () => {
+  test('prefers the error description over the fault string', () => {
+    const document = parseXml(`<soap:Envelope><soap:Body><soap:Fault><faultstring>Falha</faultstring>
+      <detail><Error ErrorCode="1" Description="Coluna inválida" Source="AS"/></detail></soap:Fault></soap:Body></soap:Envelope>`);
+    assert.deepStrictEqual(readFault(document), { type: 'error', code: '1', description: 'Coluna inválida', source: 'AS' });
+    assert.strictEqual(readFault(parseXml('<root/>')), undefined);
+  });
+
+  test('reads errors and warnings of a successful response', () => {
+    const document = parseXml(`<return><root><Messages>
+      <Warning WarningCode="10" Description="Aviso"/><Error ErrorCode="20" Description="Erro"/>
+    </Messages></root></return>`);
+    assert.deepStrictEqual(readMessages(document).map(m => [m.type, m.code, m.description]), [
+      ['warning', '10', 'Aviso'],
+      ['error', '20', 'Erro']
+    ]);
+  });
+});
@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// ============================================================
+// Audit trail
+// Collects the TMSL and DAX a tool call actually sends, so the
+// server can log them with the call. Commands are attached to
+// the call running in the current async context.
+// ============================================================
+
+export interface AuditCommand {
+  kind: 'tmsl' | 'dax';
+  target: string;               // XMLA endpoint, dataset ID or localhost:<port>
+  command: unknown;
+  queued?: boolean;             // held in an open transaction, sent on commit
+}
+
+const trail = new AsyncLocalStorage<AuditCommand[]>();
+
+// Runs a task, collecting the commands it sends into `commands`
+export function runWithAuditTrail<T>(commands: AuditCommand[], task: () => Promise<T>): Promise<T> {
+  return trail.run(commands, task);
+}
+
+export function recordCommand(command: AuditCommand): void {
+  trail.getStore()?.push(command);
+}
@@ -0,0 +1,136 @@
+import { randomUUID } from 'crypto';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolContext } from '../types/index.js';
+import { TOOL_MAP, getOperationKind } from '../config/toolConfig.js';
+import { ToolError } from './toolErrors.js';
+
+// ============================================================
+// Confirmation of destructive tool calls
+// With requireConfirmation on, a destructive call first returns
+// a preview and a single-use token; it only runs when repeated
+// with the same arguments and that token. Clients that support
+// MCP elicitation are asked directly instead.
+// ============================================================
+
+const TOKEN_TTL_MS = 5 * 60 * 1000;
+
+interface PendingConfirmation {
+  toolName: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+const pending = new Map<string, PendingConfirmation>();
+
+// Operations that honor dryRun, returning what would be done without doing it
+const DRY_RUN_OPERATIONS: Record<string, string[]> = {
+  database_operations: ['deploy']
+};
+
+export function isDestructiveCall(toolName: string, args: Record<string, unknown>): boolean {
+  if (args.dryRun === true && DRY_RUN_OPERATIONS[toolName]?.includes(String(args.operation))) return false;
+  const tool = TOOL_MAP.get(toolName);
+  if (tool?.operations) return getOperationKind(toolName, args.operation) === 'destructive';
+  return tool?.isDestructive === true;
+}
+
+// Returns undefined when the call may proceed, or the result to send back
+// instead of running it (a preview awaiting confirmation, or a cancellation)
+export async function confirmDestructiveCall(
+  toolName: string,
+  args: Record<string, unknown>,
+  confirmationToken: unknown,
+  context: ToolContext
+): Promise<Record<string, unknown> | undefined> {
+  if (confirmationToken !== undefined) {
+    if (!consumeToken(String(confirmationToken), toolName, args)) {
+      throw new ToolError(
+        'VALIDATION_ERROR',
+        'Token de confirmação inválido, expirado ou emitido para outros argumentos. Chame a ferramenta sem confirmationToken para obter um novo.'
+      );
+    }
+    return undefined;
+  }
+
+  const summary = describeCall(toolName, args);
+  if (context.confirm) {
+    try {
+      if (await context.confirm(`Confirmar operação destrutiva: ${summary}?`)) return undefined;
+      return { status: 'cancelled', tool: toolName, operation: args.operation, message: 'Operação cancelada pelo usuário.' };
+    } catch {
+      // Elicitation failed or timed out on the client: fall back to a token
+    }
+  }
+
+  const token = randomUUID();
+  const expiresAt = Date.now() + TOKEN_TTL_MS;
+  pruneExpired();
+  pending.set(token, { toolName, fingerprint: fingerprint(args), expiresAt });
+  return {
+    status: 'confirmation_required',
+    tool: toolName,
+    operation: args.operation,
+    preview: args,
+    confirmationToken: token,
+    expiresAt: new Date(expiresAt).toISOString(),
+    message: `Operação destrutiva: ${summary}. Nada foi executado. Confirme com o usuário e chame ${toolName} novamente com os mesmos argumentos e confirmationToken.`
+  };
+}
+
+// Adds the confirmationToken argument to tools that can be destructive
+export function withConfirmationArgument(definition: Tool): Tool {
+  const tool = TOOL_MAP.get(definition.name);
+  const destructive = tool?.operations
+    ? Object.values(tool.operations).includes('destructive')
+    : tool?.isDestructive === true;
+  if (!destructive) return definition;
+  return {
+    ...definition,
+    inputSchema: {
+      ...definition.inputSchema,
+      properties: {
+        ...definition.inputSchema.properties,
+        confirmationToken: {
+          type: 'string',
+          description: 'Token devolvido na prévia de uma operação destrutiva; reenvie-o com os mesmos argumentos para executá-la'
+        }
+      }
+    }
+  };
+}
+
+function consumeToken(token: string, toolName: string, args: Record<string, unknown>): boolean {
+  const entry = pending.get(token);
+  if (!entry || entry.expiresAt < Date.now()) {
+    pending.delete(token);
+    return false;
+  }
+  if (entry.toolName !== toolName || entry.fingerprint !== fingerprint(args)) return false;
+  pending.delete(token);
+  return true;
+}
+
+function pruneExpired(): void {
+  const now = Date.now();
+  for (const [token, entry] of pending) {
+    if (entry.expiresAt < now) pending.delete(token);
+  }
+}
+
+// Names of the objects a call affects, e.g. "table_operations delete (tableName: Vendas)"
+function describeCall(toolName: string, args: Record<string, unknown>): string {
+  const targets = Object.entries(args)
+    .filter(([key, value]) => key !== 'operation' && typeof value === 'string' && /(name|database|endpoint|path|id)$/i.test(key))
+    .map(([key, value]) => `${key}: ${value}`);
+  const operation = args.operation ? ` ${args.operation}` : '';
+  return `${toolName}${operation}${targets.length > 0 ? ` (${targets.join(', ')})` : ''}`;
+}
+
+// Key-order independent serialization, so a token matches the same arguments
+function fingerprint(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(fingerprint).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${fingerprint((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
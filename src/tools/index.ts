@@ -1,6 +1,12 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from './powerbiClient.js';
-import { ToolsState } from '../types/index.js';
+import { ToolsState, ToolContext } from '../types/index.js';
+import { confirmDestructiveCall, isDestructiveCall, withConfirmationArgument } from './confirmation.js';
+import { getAllowedOperations, isMutatingOperation, isOperationAllowed } from '../config/permissionsManager.js';
+import { checkAccessPolicy, checkDatasetAccess } from '../config/accessPolicy.js';
+import { UndoEntry } from './undoJournal.js';
+import { OperationRequirements, ToolValidationError, describeRequirements, requiredFields, validateArguments } from './validation.js';
+import { ToolError } from './toolErrors.js';
 
 // Remote tools
 import * as getSemanticModelSchema from './remote/getSemanticModelSchema.js';
@@ -13,6 +19,7 @@ import * as localPbiOperations from './local/localPbiOperations.js';
 // Modeling tools
 import * as connectionOperations from './modeling/connectionOperations.js';
 import * as databaseOperations from './modeling/databaseOperations.js';
+import * as transactionOperations from './modeling/transactionOperations.js';
 import * as tableOperations from './modeling/tableOperations.js';
 import * as columnOperations from './modeling/columnOperations.js';
 import * as measureOperations from './modeling/measureOperations.js';
@@ -24,22 +31,26 @@ import * as partitionOperations from './modeling/partitionOperations.js';
 import * as calculationGroupOperations from './modeling/calculationGroupOperations.js';
 import * as traceOperations from './modeling/traceOperations.js';
 import * as cultureOperations from './modeling/cultureOperations.js';
+import * as perspectiveOperations from './modeling/perspectiveOperations.js';
+import * as modelCompare from './modeling/modelCompare.js';
 
 // ============================================================
 // Central registry mapping tool ID -> { definition, handler }
 // ============================================================
 
-type ToolHandler = (args: Record<string, unknown>, client: PowerBiClient) => Promise<unknown>;
+type ToolHandler = (args: Record<string, unknown>, client: PowerBiClient, context?: ToolContext) => Promise<unknown>;
 
 interface ToolEntry {
   definition: Tool;
   handler: ToolHandler;
+  requiredByOperation?: OperationRequirements;
 }
 
 const TOOL_REGISTRY: Record<string, ToolEntry> = {
   local_pbi_operations: {
     definition: localPbiOperations.definition,
-    handler: localPbiOperations.handler as ToolHandler
+    handler: localPbiOperations.handler as ToolHandler,
+    requiredByOperation: localPbiOperations.requiredByOperation
   },
   get_semantic_model_schema: {
     definition: getSemanticModelSchema.definition,
@@ -55,27 +66,38 @@ const TOOL_REGISTRY: Record<string, ToolEntry> = {
   },
   connection_operations: {
     definition: connectionOperations.definition,
-    handler: connectionOperations.handler as ToolHandler
+    handler: connectionOperations.handler as ToolHandler,
+    requiredByOperation: connectionOperations.requiredByOperation
   },
   database_operations: {
     definition: databaseOperations.definition,
-    handler: databaseOperations.handler as ToolHandler
+    handler: databaseOperations.handler as ToolHandler,
+    requiredByOperation: databaseOperations.requiredByOperation
+  },
+  transaction_operations: {
+    definition: transactionOperations.definition,
+    handler: transactionOperations.handler as ToolHandler,
+    requiredByOperation: transactionOperations.requiredByOperation
   },
   table_operations: {
     definition: tableOperations.definition,
-    handler: tableOperations.handler as ToolHandler
+    handler: tableOperations.handler as ToolHandler,
+    requiredByOperation: tableOperations.requiredByOperation
   },
   column_operations: {
     definition: columnOperations.definition,
-    handler: columnOperations.handler as ToolHandler
+    handler: columnOperations.handler as ToolHandler,
+    requiredByOperation: columnOperations.requiredByOperation
   },
   measure_operations: {
     definition: measureOperations.definition,
-    handler: measureOperations.handler as ToolHandler
+    handler: measureOperations.handler as ToolHandler,
+    requiredByOperation: measureOperations.requiredByOperation
   },
   relationship_operations: {
     definition: relationshipOperations.definition,
-    handler: relationshipOperations.handler as ToolHandler
+    handler: relationshipOperations.handler as ToolHandler,
+    requiredByOperation: relationshipOperations.requiredByOperation
   },
   dax_query_operations: {
     definition: daxQueryOperations.definition,
@@ -83,35 +105,94 @@ const TOOL_REGISTRY: Record<string, ToolEntry> = {
   },
   bulk_operations: {
     definition: bulkOperations.definition,
-    handler: bulkOperations.handler as ToolHandler
+    handler: bulkOperations.handler as ToolHandler,
+    requiredByOperation: bulkOperations.requiredByOperation
   },
   security_role_operations: {
     definition: securityRoleOperations.definition,
-    handler: securityRoleOperations.handler as ToolHandler
+    handler: securityRoleOperations.handler as ToolHandler,
+    requiredByOperation: securityRoleOperations.requiredByOperation
   },
   partition_operations: {
     definition: partitionOperations.definition,
-    handler: partitionOperations.handler as ToolHandler
+    handler: partitionOperations.handler as ToolHandler,
+    requiredByOperation: partitionOperations.requiredByOperation
   },
   calculation_group_operations: {
     definition: calculationGroupOperations.definition,
-    handler: calculationGroupOperations.handler as ToolHandler
+    handler: calculationGroupOperations.handler as ToolHandler,
+    requiredByOperation: calculationGroupOperations.requiredByOperation
+  },
+  perspective_operations: {
+    definition: perspectiveOperations.definition,
+    handler: perspectiveOperations.handler as ToolHandler,
+    requiredByOperation: perspectiveOperations.requiredByOperation
   },
   trace_operations: {
     definition: traceOperations.definition,
-    handler: traceOperations.handler as ToolHandler
+    handler: traceOperations.handler as ToolHandler,
+    requiredByOperation: traceOperations.requiredByOperation
   },
   culture_operations: {
     definition: cultureOperations.definition,
-    handler: cultureOperations.handler as ToolHandler
+    handler: cultureOperations.handler as ToolHandler,
+    requiredByOperation: cultureOperations.requiredByOperation
+  },
+  model_compare: {
+    definition: modelCompare.definition,
+    handler: modelCompare.handler as ToolHandler
   }
 };
 
-// Get only the enabled tool definitions
+// Get only the enabled tool definitions, listing only the allowed operations
 export function getEnabledToolDefinitions(toolsState: ToolsState): Tool[] {
   return Object.entries(TOOL_REGISTRY)
     .filter(([id]) => toolsState[id] === true)
-    .map(([, entry]) => entry.definition);
+    .map(([id, entry]) => {
+      const definition = withAllowedOperations(entry.definition, getAllowedOperations(id, toolsState));
+      return definition && withRequirements(definition, entry.requiredByOperation);
+    })
+    .filter((definition): definition is Tool => definition !== undefined)
+    .map(withConfirmationArgument);
+}
+
+// The fields a call of the tool must pass, for its operation
+export function requiredArguments(toolName: string, args: Record<string, unknown>): string[] {
+  const entry = TOOL_REGISTRY[toolName];
+  return entry ? requiredFields(entry.definition.inputSchema, args, entry.requiredByOperation) : [];
+}
+
+// Narrows the operation enum to the allowed operations; a tool with none left is hidden
+function withAllowedOperations(definition: Tool, allowed: string[] | undefined): Tool | undefined {
+  const operation = definition.inputSchema.properties?.operation as { enum?: string[] } | undefined;
+  if (!allowed || !operation?.enum) return definition;
+  const operations = operation.enum.filter(op => allowed.includes(op));
+  if (operations.length === 0) return undefined;
+  return {
+    ...definition,
+    inputSchema: {
+      ...definition.inputSchema,
+      properties: { ...definition.inputSchema.properties, operation: { ...operation, enum: operations } }
+    }
+  };
+}
+
+// Lists the fields each listed operation requires in the operation's description
+function withRequirements(definition: Tool, requirements: OperationRequirements | undefined): Tool {
+  const operation = definition.inputSchema.properties?.operation as { enum?: string[]; description?: string } | undefined;
+  if (!requirements || !operation) return definition;
+  const text = describeRequirements(requirements, operation.enum);
+  if (!text) return definition;
+  return {
+    ...definition,
+    inputSchema: {
+      ...definition.inputSchema,
+      properties: {
+        ...definition.inputSchema.properties,
+        operation: { ...operation, description: operation.description ? `${operation.description.replace(/\.?$/, '.')} ${text}` : text }
+      }
+    }
+  };
 }
 
 // Get all tool definitions (regardless of state)
@@ -119,23 +200,93 @@ export function getAllToolDefinitions(): Tool[] {
   return Object.values(TOOL_REGISTRY).map(e => e.definition);
 }
 
+const DISABLED_HINT = 'Bloqueado pela configuração do servidor, não pela conta: use outra ferramenta ou operação disponível, ou peça ao usuário para habilitá-la.';
+
 // Dispatch a tool call
 export async function dispatchToolCall(
   toolName: string,
   args: Record<string, unknown>,
   client: PowerBiClient,
-  toolsState: ToolsState
+  toolsState: ToolsState,
+  context: ToolContext
 ): Promise<unknown> {
   const entry = TOOL_REGISTRY[toolName];
   if (!entry) {
-    throw new Error(`Ferramenta desconhecida: ${toolName}`);
+    throw new ToolError('NOT_FOUND', `Ferramenta desconhecida: ${toolName}`, {
+      hint: 'Use apenas as ferramentas retornadas por tools/list.'
+    });
   }
   if (!toolsState[toolName]) {
-    throw new Error(
-      `Ferramenta '${toolName}' está desabilitada. Habilite-a nas configurações do PowerBi MCP AeC.`
+    throw new ToolError(
+      'PERMISSION_DENIED',
+      `Ferramenta '${toolName}' está desabilitada. Habilite-a nas configurações do PowerBi MCP AeC.`,
+      { hint: DISABLED_HINT }
     );
   }
-  return entry.handler(args, client);
+  // The connection profile was resolved by the server (the client passed in)
+  const { confirmationToken, profile, ...toolArgs } = args;
+  const issues = validateArguments(entry.definition.inputSchema, toolArgs, entry.requiredByOperation);
+  if (issues.length > 0) throw new ToolValidationError(toolName, issues);
+  if (context.readOnly && isMutatingOperation(toolName, args.operation)) {
+    const operation = args.operation ? `a operação '${args.operation}' da ferramenta '${toolName}'` : `a ferramenta '${toolName}'`;
+    throw new ToolError('PERMISSION_DENIED', `Modo somente leitura ativo: ${operation} modifica o modelo e está bloqueada.`, {
+      hint: 'O servidor está em modo somente leitura (powerbiMcpAec.server.readOnly). Use apenas operações de leitura ou peça ao usuário para desativar o modo.'
+    });
+  }
+  if (!isOperationAllowed(toolName, args.operation, toolsState)) {
+    throw new ToolError(
+      'PERMISSION_DENIED',
+      `Operação '${args.operation}' da ferramenta '${toolName}' está desabilitada. Habilite-a nas configurações do PowerBi MCP AeC.`,
+      { hint: DISABLED_HINT }
+    );
+  }
+  checkAccessPolicy(toolName, toolArgs, context.accessPolicy);
+  await checkDatasetAccess(toolName, toolArgs, context.accessPolicy, datasetId => client.locateDataset(datasetId));
+  if (context.requireConfirmation && isDestructiveCall(toolName, toolArgs)) {
+    // A token confirms the call for the profile it was issued for
+    const confirmed = profile === undefined ? toolArgs : { ...toolArgs, profile };
+    const preview = await confirmDestructiveCall(toolName, confirmed, confirmationToken, context);
+    if (preview) return preview;
+  }
+  if (!isMutatingOperation(toolName, toolArgs.operation)) {
+    return annotatePendingTransaction(toolName, toolArgs, await entry.handler(toolArgs, client, context), client);
+  }
+  const { result, entries } = await client.undoJournal.run(toolName, toolArgs, () => entry.handler(toolArgs, client, context));
+  return annotateUndo(annotatePendingTransaction(toolName, toolArgs, result, client), entries);
+}
+
+// Points the caller to the journal entries that can revert what the call changed
+function annotateUndo(result: unknown, entries: UndoEntry[]): unknown {
+  if (entries.length === 0 || typeof result !== 'object' || result === null || Array.isArray(result)) return result;
+  return {
+    ...result,
+    undo: {
+      undoIds: entries.map(e => e.id),
+      message: 'Para reverter, use transaction_operations (undo_last ou undo com undoId).'
+    }
+  };
+}
+
+// Commands sent while a transaction is open were only queued, so a handler's
+// "created"/"updated" status must not be reported as applied
+function annotatePendingTransaction(
+  toolName: string,
+  args: Record<string, unknown>,
+  result: unknown,
+  client: PowerBiClient
+): unknown {
+  if (toolName === 'transaction_operations' || typeof args.xmlaEndpoint !== 'string') return result;
+  const transaction = client.getTransaction(args.xmlaEndpoint);
+  if (!transaction || typeof result !== 'object' || result === null || !('status' in result)) return result;
+  return {
+    ...result,
+    status: 'queued',
+    transaction: {
+      transactionId: transaction.id,
+      pendingCommands: transaction.commands.length,
+      message: 'Comando enfileirado na transação aberta. Use transaction_operations (commit) para aplicar.'
+    }
+  };
 }
 
 export { TOOL_REGISTRY };
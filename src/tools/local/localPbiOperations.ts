@@ -2,6 +2,15 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import axios from 'axios';
+import { XmlaError, soapEnvelope, escapeXml } from '../xmlaClient.js';
+import { XmlElement, XmlaRow, parseXml, readFault, readMessages, readRowsets } from '../xmlaRowset.js';
+import { buildSemanticModelSchema, SchemaRowsets, SCHEMA_ROWSET_TYPES } from '../modelSchema.js';
+import { discoverModelDefinition } from '../modelDefinition.js';
+import { exportTmdlFolder } from '../pbip/pbipProject.js';
+import { SemanticModelSchema, ColumnSchema, MeasureSchema, ToolContext, TmslDefinition } from '../../types/index.js';
+import { PowerBiClient } from '../powerbiClient.js';
+import { recordCommand } from '../auditTrail.js';
+import { OperationRequirements } from '../validation.js';
 
 // ============================================================
 // Local Power BI Desktop Operations
@@ -16,15 +25,27 @@ export const definition: Tool = {
 Usa o Analysis Services embutido no Power BI Desktop via porta local (sem autenticação).
 Operações disponíveis:
 - detect: Encontra instâncias do Power BI Desktop em execução e lista os modelos abertos
-- get_schema: Obtém o esquema completo de um modelo local (tabelas, colunas, medidas)
+- get_schema: Obtém o esquema completo de um modelo local (tabelas com colunas, medidas e hierarquias, além dos relacionamentos)
 - execute_dax: Executa uma consulta DAX no modelo local
-- list_tables: Lista as tabelas disponíveis no modelo local`,
+- list_tables: Lista as tabelas disponíveis no modelo local
+- create_measure / update_measure / delete_measure: Cria, altera ou exclui medidas no .pbix aberto
+- create_column / update_column / delete_column: Cria, altera ou exclui colunas calculadas
+- create_table / delete_table: Cria ou exclui tabelas calculadas (DAX)
+- set_description / set_format_string: Atualiza descrição ou formato de tabelas, colunas e medidas
+- export_tmdl: Grava a definição completa do modelo aberto como uma pasta TMDL
+As operações de escrita são bloqueadas no modo somente leitura.`,
   inputSchema: {
     type: 'object',
     properties: {
       operation: {
         type: 'string',
-        enum: ['detect', 'get_schema', 'execute_dax', 'list_tables'],
+        enum: [
+          'detect', 'get_schema', 'execute_dax', 'list_tables', 'export_tmdl',
+          'create_measure', 'update_measure', 'delete_measure',
+          'create_column', 'update_column', 'delete_column',
+          'create_table', 'delete_table',
+          'set_description', 'set_format_string'
+        ],
         description: 'Operação a executar'
       },
       database: {
@@ -38,12 +59,85 @@ Operações disponíveis:
       port: {
         type: 'number',
         description: 'Porta do Analysis Services local (opcional — detectada automaticamente)'
+      },
+      tableName: {
+        type: 'string',
+        description: 'Tabela alvo (obrigatório para operações de escrita)'
+      },
+      objectName: {
+        type: 'string',
+        description: 'Nome atual da medida ou coluna (para update_*, delete_*, set_description, set_format_string)'
+      },
+      objectType: {
+        type: 'string',
+        enum: ['table', 'column', 'measure'],
+        description: 'Tipo do objeto para set_description e set_format_string'
+      },
+      measureDefinition: {
+        type: 'object',
+        description: 'Definição da medida (create_measure/update_measure). Em update, apenas as propriedades informadas são alteradas',
+        properties: {
+          name: { type: 'string', description: 'Nome da medida' },
+          expression: { type: 'string', description: 'Expressão DAX' },
+          formatString: { type: 'string', description: 'Formato de exibição (ex: #,##0.00)' },
+          description: { type: 'string', description: 'Descrição' },
+          displayFolder: { type: 'string', description: 'Pasta de exibição' },
+          isHidden: { type: 'boolean', description: 'Ocultar medida' }
+        }
+      },
+      columnDefinition: {
+        type: 'object',
+        description: 'Definição da coluna calculada (create_column/update_column). Em update, apenas as propriedades informadas são alteradas',
+        properties: {
+          name: { type: 'string', description: 'Nome da coluna' },
+          expression: { type: 'string', description: 'Expressão DAX da coluna calculada' },
+          dataType: {
+            type: 'string',
+            enum: ['string', 'int64', 'double', 'dateTime', 'decimal', 'boolean'],
+            description: 'Tipo de dados (opcional — inferido pela expressão)'
+          },
+          formatString: { type: 'string', description: 'Formato de exibição' },
+          description: { type: 'string', description: 'Descrição' },
+          displayFolder: { type: 'string', description: 'Pasta de exibição' },
+          isHidden: { type: 'boolean', description: 'Ocultar coluna' }
+        }
+      },
+      tableExpression: {
+        type: 'string',
+        description: 'Expressão DAX da tabela calculada (create_table)'
+      },
+      description: {
+        type: 'string',
+        description: 'Nova descrição (set_description)'
+      },
+      formatString: {
+        type: 'string',
+        description: 'Novo formato de exibição (set_format_string)'
+      },
+      outputPath: {
+        type: 'string',
+        description: 'Pasta de destino dos arquivos .tmdl (obrigatório para export_tmdl)'
       }
     },
     required: ['operation']
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  execute_dax: ['query'],
+  export_tmdl: ['outputPath'],
+  create_measure: ['tableName', 'measureDefinition'],
+  update_measure: ['tableName', 'objectName', 'measureDefinition'],
+  delete_measure: ['tableName', 'objectName'],
+  create_column: ['tableName', 'columnDefinition'],
+  update_column: ['tableName', 'objectName', 'columnDefinition'],
+  delete_column: ['tableName', 'objectName'],
+  create_table: ['tableName', 'tableExpression'],
+  delete_table: ['tableName'],
+  set_description: ['tableName', 'description'],
+  set_format_string: ['tableName', 'objectName', 'formatString']
+};
+
 // ---- Port discovery ----
 
 interface PbiInstance {
@@ -83,16 +177,12 @@ function findPbiDesktopInstances(): PbiInstance[] {
 
 // ---- XMLA SOAP helpers ----
 
-function soapEnvelope(body: string): string {
-  return `<?xml version="1.0" encoding="utf-8"?>
-<Envelope xmlns="http://schemas.xmlsoap.org/soap/envelope/">
-  <Body>${body}</Body>
-</Envelope>`;
-}
+const DISCOVER_ACTION = 'urn:schemas-microsoft-com:xml-analysis:Discover';
+const EXECUTE_ACTION = 'urn:schemas-microsoft-com:xml-analysis:Execute';
 
-async function xmlaRequest(port: number, soapAction: string, body: string): Promise<string> {
+async function xmlaRequest(port: number, soapAction: string, body: string, path = '/xmla'): Promise<XmlElement> {
   const response = await axios.post(
-    `http://localhost:${port}/xmla`,
+    `http://localhost:${port}${path}`,
     soapEnvelope(body),
     {
       headers: {
@@ -100,168 +190,315 @@ async function xmlaRequest(port: number, soapAction: string, body: string): Prom
         'SOAPAction': `"${soapAction}"`
       },
       timeout: 10_000,
-      responseType: 'text'
+      responseType: 'text',
+      // SOAP faults arrive as HTTP 500 with a parseable body
+      validateStatus: () => true
     }
   );
-  return response.data as string;
+  const document = parseXml(response.data as string);
+  const fault = readFault(document);
+  if (fault) throw new XmlaError(`Erro XMLA: ${fault.description}`, fault.code, [fault], response.status);
+  if (response.status >= 400) {
+    throw new XmlaError(`Analysis Services local respondeu HTTP ${response.status}`, undefined, [], response.status);
+  }
+  return document;
 }
 
-// Extract text content of all matching XML tags (simple regex, no external deps)
-function extractTagValues(xml: string, tag: string): string[] {
-  const regex = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi');
-  const results: string[] = [];
-  let match;
-  while ((match = regex.exec(xml)) !== null) {
-    const val = match[1].trim();
-    if (val) results.push(val);
-  }
-  return results;
+function discoverBody(requestType: string, database?: string): string {
+  const catalog = database ? `<Catalog>${escapeXml(database)}</Catalog>` : '';
+  return `
+  <Discover xmlns="urn:schemas-microsoft-com:xml-analysis">
+    <RequestType>${requestType}</RequestType>
+    <Restrictions><RestrictionList/></Restrictions>
+    <Properties><PropertyList>${catalog}</PropertyList></Properties>
+  </Discover>`;
+}
+
+async function discoverRows(port: number, requestType: string, database: string): Promise<XmlaRow[]> {
+  const document = await xmlaRequest(port, DISCOVER_ACTION, discoverBody(requestType, database));
+  return readRowsets(document)[0]?.rows ?? [];
 }
 
 // ---- List databases (DBSCHEMA_CATALOGS) ----
 
 async function listDatabases(port: number): Promise<string[]> {
-  const body = `
-  <Discover xmlns="urn:schemas-microsoft-com:xml-analysis">
-    <RequestType>DBSCHEMA_CATALOGS</RequestType>
-    <Restrictions><RestrictionList/></Restrictions>
-    <Properties><PropertyList/></Properties>
-  </Discover>`;
-  try {
-    const xml = await xmlaRequest(port, 'urn:schemas-microsoft-com:xml-analysis:Discover', body);
-    return extractTagValues(xml, 'CATALOG_NAME');
-  } catch {
-    // Try without /xmla path suffix
+  const body = discoverBody('DBSCHEMA_CATALOGS');
+  for (const path of ['/xmla', '']) {
     try {
-      const response = await axios.post(
-        `http://localhost:${port}`,
-        soapEnvelope(`
-  <Discover xmlns="urn:schemas-microsoft-com:xml-analysis">
-    <RequestType>DBSCHEMA_CATALOGS</RequestType>
-    <Restrictions><RestrictionList/></Restrictions>
-    <Properties><PropertyList/></Properties>
-  </Discover>`),
-        {
-          headers: {
-            'Content-Type': 'text/xml; charset=utf-8',
-            'SOAPAction': '"urn:schemas-microsoft-com:xml-analysis:Discover"'
-          },
-          timeout: 10_000,
-          responseType: 'text'
-        }
-      );
-      return extractTagValues(response.data as string, 'CATALOG_NAME');
+      const document = await xmlaRequest(port, DISCOVER_ACTION, body, path);
+      return (readRowsets(document)[0]?.rows ?? []).map(r => String(r.CATALOG_NAME));
     } catch {
-      return [];
+      // Try without /xmla path suffix
     }
   }
+  return [];
 }
 
 // ---- List tables (TMSCHEMA_TABLES) ----
 
 async function listTables(port: number, database: string): Promise<string[]> {
-  const body = `
-  <Discover xmlns="urn:schemas-microsoft-com:xml-analysis">
-    <RequestType>TMSCHEMA_TABLES</RequestType>
-    <Restrictions>
-      <RestrictionList>
-        <DatabaseName>${database}</DatabaseName>
-      </RestrictionList>
-    </Restrictions>
-    <Properties>
-      <PropertyList>
-        <Catalog>${database}</Catalog>
-      </PropertyList>
-    </Properties>
-  </Discover>`;
   try {
-    const xml = await xmlaRequest(port, 'urn:schemas-microsoft-com:xml-analysis:Discover', body);
-    return extractTagValues(xml, 'Name');
+    const rows = await discoverRows(port, 'TMSCHEMA_TABLES', database);
+    return rows.map(r => String(r.Name));
   } catch {
     return [];
   }
 }
 
-// ---- Get schema (tables + columns + measures) ----
-
-async function getSchema(port: number, database: string): Promise<Record<string, unknown>> {
-  const [tablesXml, columnsXml, measuresXml] = await Promise.allSettled([
-    xmlaRequest(port, 'urn:schemas-microsoft-com:xml-analysis:Discover',
-      `<Discover xmlns="urn:schemas-microsoft-com:xml-analysis">
-        <RequestType>TMSCHEMA_TABLES</RequestType>
-        <Restrictions><RestrictionList><DatabaseName>${database}</DatabaseName></RestrictionList></Restrictions>
-        <Properties><PropertyList><Catalog>${database}</Catalog></PropertyList></Properties>
-      </Discover>`),
-    xmlaRequest(port, 'urn:schemas-microsoft-com:xml-analysis:Discover',
-      `<Discover xmlns="urn:schemas-microsoft-com:xml-analysis">
-        <RequestType>TMSCHEMA_COLUMNS</RequestType>
-        <Restrictions><RestrictionList><DatabaseName>${database}</DatabaseName></RestrictionList></Restrictions>
-        <Properties><PropertyList><Catalog>${database}</Catalog></PropertyList></Properties>
-      </Discover>`),
-    xmlaRequest(port, 'urn:schemas-microsoft-com:xml-analysis:Discover',
-      `<Discover xmlns="urn:schemas-microsoft-com:xml-analysis">
-        <RequestType>TMSCHEMA_MEASURES</RequestType>
-        <Restrictions><RestrictionList><DatabaseName>${database}</DatabaseName></RestrictionList></Restrictions>
-        <Properties><PropertyList><Catalog>${database}</Catalog></PropertyList></Properties>
-      </Discover>`)
+// ---- Get schema (tables, columns, measures, relationships, hierarchies) ----
+
+async function getSchema(port: number, database: string): Promise<SemanticModelSchema> {
+  const discover = (key: keyof SchemaRowsets) => discoverRows(port, SCHEMA_ROWSET_TYPES[key], database);
+
+  const [tables, columns, measures] = await Promise.all([
+    discover('tables'),
+    discover('columns'),
+    discover('measures')
+  ]);
+  // Older engines may lack some rowsets; the schema is still useful without them
+  const [relationships, hierarchies, levels] = await Promise.all([
+    discover('relationships').catch(() => []),
+    discover('hierarchies').catch(() => []),
+    discover('levels').catch(() => [])
   ]);
 
-  return {
-    tables: tablesXml.status === 'fulfilled' ? extractTagValues(tablesXml.value, 'Name') : [],
-    columns: columnsXml.status === 'fulfilled' ? extractTagValues(columnsXml.value, 'Name') : [],
-    measures: measuresXml.status === 'fulfilled' ? extractTagValues(measuresXml.value, 'Name') : []
-  };
+  return buildSemanticModelSchema({ tables, columns, measures, relationships, hierarchies, levels });
 }
 
 // ---- Execute DAX ----
 
 async function executeDax(port: number, database: string, query: string): Promise<unknown> {
+  recordCommand({ kind: 'dax', target: `localhost:${port}`, command: query });
   const body = `
   <Execute xmlns="urn:schemas-microsoft-com:xml-analysis">
     <Command>
-      <Statement>${query.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</Statement>
+      <Statement>${escapeXml(query)}</Statement>
     </Command>
     <Properties>
       <PropertyList>
-        <Catalog>${database}</Catalog>
+        <Catalog>${escapeXml(database)}</Catalog>
         <Format>Tabular</Format>
         <Content>SchemaData</Content>
       </PropertyList>
     </Properties>
   </Execute>`;
 
-  const xml = await xmlaRequest(port, 'urn:schemas-microsoft-com:xml-analysis:Execute', body);
+  const document = await xmlaRequest(port, EXECUTE_ACTION, body);
 
-  // Extract rows from tabular response
-  const rows = extractTagValues(xml, 'row');
-  if (rows.length === 0) {
-    // Try to detect errors
-    const errors = extractTagValues(xml, 'ErrorCode');
-    if (errors.length > 0) {
-      const msgs = extractTagValues(xml, 'Description');
-      throw new Error(`Erro DAX: ${msgs.join(', ') || errors.join(', ')}`);
-    }
-    return { rows: [], message: 'Consulta executada — nenhum dado retornado' };
+  const errors = readMessages(document).filter(m => m.type === 'error');
+  if (errors.length > 0) {
+    throw new XmlaError(`Erro DAX: ${errors.map(e => e.description).join(', ')}`, errors[0].code, errors);
   }
 
-  // Parse each row's cell values (simplified — values are in XML cells)
-  const parsedRows = rows.map(rowXml => {
-    const cells: Record<string, string> = {};
-    const cellRegex = /<t:([^>]+)>([^<]*)<\/t:\1>/g;
-    const cellRegex2 = /<([A-Za-z_][^>\s]*)>([^<]*)<\/\1>/g;
-    let m;
-    while ((m = cellRegex.exec(rowXml)) !== null) cells[m[1]] = m[2];
-    while ((m = cellRegex2.exec(rowXml)) !== null) cells[m[1]] = m[2];
-    return cells;
-  });
-
-  return { rows: parsedRows, rowCount: parsedRows.length };
+  const rowset = readRowsets(document)[0];
+  if (!rowset || rowset.rows.length === 0) {
+    return { columns: rowset?.columns.map(c => c.name) ?? [], rows: [], message: 'Consulta executada — nenhum dado retornado' };
+  }
+
+  return {
+    columns: rowset.columns.map(c => c.name),
+    rows: rowset.rows,
+    rowCount: rowset.rows.length
+  };
+}
+
+// ---- Write operations (TMSL Execute on the local port) ----
+
+const WRITE_OPERATIONS = [
+  'create_measure', 'update_measure', 'delete_measure',
+  'create_column', 'update_column', 'delete_column',
+  'create_table', 'delete_table',
+  'set_description', 'set_format_string'
+];
+
+// Child collections of a table, which alter leaves alone
+const TABLE_CHILDREN = ['columns', 'measures', 'hierarchies', 'partitions'];
+
+// TMSL alter replaces the whole object, so partial updates are merged over
+// the full current definition read from the model (sortByColumn, kpi,
+// annotations...), not over the summarized schema
+function toTmslMeasure(measure: Partial<MeasureSchema> & TmslDefinition): TmslDefinition {
+  const { tableName: _table, ...definition } = measure;
+  return definition;
+}
+
+function toTmslColumn(column: Partial<ColumnSchema> & TmslDefinition): TmslDefinition {
+  return column.expression !== undefined ? { ...column, type: column.type ?? 'calculated' } : { ...column };
+}
+
+async function findObject(port: number, database: string, tableName: string) {
+  const definition = await discoverModelDefinition(requestType => discoverRows(port, requestType, database), database);
+  const table = ((definition.model.tables as TmslDefinition[] | undefined) ?? []).find(t => t.name === tableName);
+  if (!table) throw new Error(`Tabela '${tableName}' não encontrada no modelo ${database}`);
+  const child = (collection: string, name: string) =>
+    ((table[collection] as TmslDefinition[] | undefined) ?? []).find(item => item.name === name);
+  return {
+    table: Object.fromEntries(Object.entries(table).filter(([key]) => !TABLE_CHILDREN.includes(key))),
+    measure: (name: string) => {
+      const measure = child('measures', name);
+      if (!measure) throw new Error(`Medida '${name}' não encontrada na tabela ${tableName}`);
+      return measure;
+    },
+    column: (name: string) => {
+      const column = child('columns', name);
+      if (!column) throw new Error(`Coluna '${name}' não encontrada na tabela ${tableName}`);
+      return column;
+    }
+  };
+}
+
+async function executeWrite(
+  operation: string,
+  args: Record<string, unknown>,
+  port: number,
+  database: string,
+  client: PowerBiClient
+): Promise<Record<string, unknown>> {
+  const tableName = args.tableName as string | undefined;
+  const objectName = args.objectName as string | undefined;
+  if (!tableName) throw new Error(`Campo "tableName" é obrigatório para ${operation}.`);
+  const requireName = () => {
+    if (!objectName) throw new Error(`Campo "objectName" é obrigatório para ${operation}.`);
+    return objectName;
+  };
+  const measureDefinition = args.measureDefinition as Partial<MeasureSchema> | undefined;
+  const columnDefinition = args.columnDefinition as Partial<ColumnSchema> | undefined;
+  const endpoint = `localhost:${port}`;
+  const run = (tmsl: unknown) => client.executeTmsl(endpoint, tmsl);
+
+  switch (operation) {
+    case 'create_measure': {
+      if (!measureDefinition?.name || !measureDefinition.expression) {
+        throw new Error('measureDefinition.name e measureDefinition.expression são obrigatórios para create_measure.');
+      }
+      await run({
+        createOrReplace: {
+          object: { database, table: tableName, measure: measureDefinition.name },
+          measure: toTmslMeasure(measureDefinition)
+        }
+      });
+      return { measure: measureDefinition.name, table: tableName, status: 'created' };
+    }
+
+    case 'update_measure': {
+      const name = requireName();
+      if (!measureDefinition) throw new Error('measureDefinition é obrigatório para update_measure.');
+      const current = (await findObject(port, database, tableName)).measure(name);
+      await run({
+        alter: {
+          object: { database, table: tableName, measure: name },
+          measure: toTmslMeasure({ ...current, ...measureDefinition })
+        }
+      });
+      return { measure: name, table: tableName, status: 'updated' };
+    }
+
+    case 'delete_measure': {
+      const name = requireName();
+      await run({ delete: { object: { database, table: tableName, measure: name } } });
+      return { measure: name, table: tableName, status: 'deleted' };
+    }
+
+    case 'create_column': {
+      if (!columnDefinition?.name || !columnDefinition.expression) {
+        throw new Error('columnDefinition.name e columnDefinition.expression são obrigatórios para create_column.');
+      }
+      await run({
+        createOrReplace: {
+          object: { database, table: tableName, column: columnDefinition.name },
+          column: toTmslColumn(columnDefinition)
+        }
+      });
+      return { column: columnDefinition.name, table: tableName, status: 'created' };
+    }
+
+    case 'update_column': {
+      const name = requireName();
+      if (!columnDefinition) throw new Error('columnDefinition é obrigatório para update_column.');
+      const current = (await findObject(port, database, tableName)).column(name);
+      await run({
+        alter: {
+          object: { database, table: tableName, column: name },
+          column: toTmslColumn({ ...current, ...columnDefinition })
+        }
+      });
+      return { column: name, table: tableName, status: 'updated' };
+    }
+
+    case 'delete_column': {
+      const name = requireName();
+      await run({ delete: { object: { database, table: tableName, column: name } } });
+      return { column: name, table: tableName, status: 'deleted' };
+    }
+
+    case 'create_table': {
+      const expression = args.tableExpression as string | undefined;
+      if (!expression) throw new Error('Campo "tableExpression" é obrigatório para create_table.');
+      await run({
+        createOrReplace: {
+          object: { database, table: tableName },
+          table: {
+            name: tableName,
+            partitions: [{ name: tableName, source: { type: 'calculated', expression } }]
+          }
+        }
+      });
+      return { table: tableName, status: 'created' };
+    }
+
+    case 'delete_table': {
+      await run({ delete: { object: { database, table: tableName } } });
+      return { table: tableName, status: 'deleted' };
+    }
+
+    case 'set_description':
+    case 'set_format_string': {
+      const property = operation === 'set_description' ? 'description' : 'formatString';
+      const value = args[property] as string | undefined;
+      if (value === undefined) throw new Error(`Campo "${property}" é obrigatório para ${operation}.`);
+      const objectType = (args.objectType as string | undefined) ?? 'measure';
+      const found = await findObject(port, database, tableName);
+
+      if (objectType === 'table') {
+        if (property !== 'description') throw new Error('Tabelas não possuem formato de exibição.');
+        await run({
+          alter: {
+            object: { database, table: tableName },
+            table: { ...found.table, description: value }
+          }
+        });
+        return { table: tableName, [property]: value, status: 'updated' };
+      }
+      const name = requireName();
+      if (objectType === 'column') {
+        await run({
+          alter: {
+            object: { database, table: tableName, column: name },
+            column: toTmslColumn({ ...found.column(name), [property]: value })
+          }
+        });
+      } else {
+        await run({
+          alter: {
+            object: { database, table: tableName, measure: name },
+            measure: toTmslMeasure({ ...found.measure(name), [property]: value })
+          }
+        });
+      }
+      return { [objectType]: name, table: tableName, [property]: value, status: 'updated' };
+    }
+
+    default:
+      throw new Error(`Operação desconhecida: ${operation}`);
+  }
 }
 
 // ---- Main handler ----
 
 export async function handler(
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  client: PowerBiClient,
+  context?: ToolContext
 ): Promise<unknown> {
   const operation = args.operation as string;
   const database = args.database as string | undefined;
@@ -329,7 +566,13 @@ export async function handler(
     const db = database ?? (await listDatabases(port))[0];
     if (!db) throw new Error('Nenhum modelo encontrado. Especifique o campo "database".');
     const schema = await getSchema(port, db);
-    return { database: db, port, connectionString: `localhost:${port}`, schema };
+    const summary = {
+      totalTables: schema.tables.length,
+      totalColumns: schema.tables.reduce((sum, t) => sum + t.columns.length, 0),
+      totalMeasures: schema.tables.reduce((sum, t) => sum + t.measures.length, 0),
+      totalRelationships: schema.relationships.length
+    };
+    return { database: db, port, connectionString: `localhost:${port}`, summary, schema };
   }
 
   if (operation === 'execute_dax') {
@@ -340,5 +583,26 @@ export async function handler(
     return { database: db, port, ...result as object };
   }
 
+  if (operation === 'export_tmdl') {
+    const outputPath = args.outputPath as string | undefined;
+    if (!outputPath) throw new Error('Campo "outputPath" é obrigatório para export_tmdl.');
+    const db = database ?? (await listDatabases(port))[0];
+    if (!db) throw new Error('Nenhum modelo encontrado. Especifique o campo "database".');
+    const instancePort = port;
+    const model = await discoverModelDefinition(requestType => discoverRows(instancePort, requestType, db), db);
+    const files = await exportTmdlFolder(model, outputPath);
+    return { operation, database: db, port, outputPath, fileCount: files.length, files };
+  }
+
+  if (WRITE_OPERATIONS.includes(operation)) {
+    if (context?.readOnly) {
+      throw new Error(`Modo somente leitura ativo: '${operation}' modifica o modelo local e está bloqueada.`);
+    }
+    const db = database ?? (await listDatabases(port))[0];
+    if (!db) throw new Error('Nenhum modelo encontrado. Especifique o campo "database".');
+    const result = await executeWrite(operation, args, port, db, client);
+    return { operation, database: db, port, ...result };
+  }
+
   throw new Error(`Operação desconhecida: ${operation}`);
 }
@@ -0,0 +1,508 @@
+import { TmslDatabase, TmslDefinition } from '../types/index.js';
+import { XmlaRow } from './xmlaRowset.js';
+import {
+  DATA_TYPES,
+  CROSS_FILTERING,
+  CARDINALITY,
+  COLUMN_TYPES,
+  SUMMARIZE_BY,
+  PARTITION_MODES,
+  PARTITION_SOURCE_TYPES,
+  MODEL_PERMISSIONS
+} from './modelSchema.js';
+
+// ============================================================
+// Model definition from TMSCHEMA_* rowsets
+// Rebuilds the TMSL/BIM JSON of a live model (Desktop or XMLA)
+// so it can be exported, e.g. as a TMDL folder, or altered without
+// losing properties. Object-level security details are not read back.
+// ============================================================
+
+export interface DefinitionRowsets {
+  catalogs: XmlaRow[];
+  model: XmlaRow[];
+  tables: XmlaRow[];
+  columns: XmlaRow[];
+  measures: XmlaRow[];
+  hierarchies: XmlaRow[];
+  levels: XmlaRow[];
+  partitions: XmlaRow[];
+  calculationGroups: XmlaRow[];
+  calculationItems: XmlaRow[];
+  relationships: XmlaRow[];
+  expressions: XmlaRow[];
+  dataSources: XmlaRow[];
+  roles: XmlaRow[];
+  roleMemberships: XmlaRow[];
+  tablePermissions: XmlaRow[];
+  perspectives: XmlaRow[];
+  perspectiveTables: XmlaRow[];
+  perspectiveColumns: XmlaRow[];
+  perspectiveMeasures: XmlaRow[];
+  perspectiveHierarchies: XmlaRow[];
+  cultures: XmlaRow[];
+  objectTranslations: XmlaRow[];
+  linguisticMetadata: XmlaRow[];
+  kpis: XmlaRow[];
+  formatStringDefinitions: XmlaRow[];
+  detailRowsDefinitions: XmlaRow[];
+  annotations: XmlaRow[];
+}
+
+export const DEFINITION_ROWSET_TYPES: Record<keyof DefinitionRowsets, string> = {
+  catalogs: 'DBSCHEMA_CATALOGS',
+  model: 'TMSCHEMA_MODEL',
+  tables: 'TMSCHEMA_TABLES',
+  columns: 'TMSCHEMA_COLUMNS',
+  measures: 'TMSCHEMA_MEASURES',
+  hierarchies: 'TMSCHEMA_HIERARCHIES',
+  levels: 'TMSCHEMA_LEVELS',
+  partitions: 'TMSCHEMA_PARTITIONS',
+  calculationGroups: 'TMSCHEMA_CALCULATION_GROUPS',
+  calculationItems: 'TMSCHEMA_CALCULATION_ITEMS',
+  relationships: 'TMSCHEMA_RELATIONSHIPS',
+  expressions: 'TMSCHEMA_EXPRESSIONS',
+  dataSources: 'TMSCHEMA_DATA_SOURCES',
+  roles: 'TMSCHEMA_ROLES',
+  roleMemberships: 'TMSCHEMA_ROLE_MEMBERSHIPS',
+  tablePermissions: 'TMSCHEMA_TABLE_PERMISSIONS',
+  perspectives: 'TMSCHEMA_PERSPECTIVES',
+  perspectiveTables: 'TMSCHEMA_PERSPECTIVE_TABLES',
+  perspectiveColumns: 'TMSCHEMA_PERSPECTIVE_COLUMNS',
+  perspectiveMeasures: 'TMSCHEMA_PERSPECTIVE_MEASURES',
+  perspectiveHierarchies: 'TMSCHEMA_PERSPECTIVE_HIERARCHIES',
+  cultures: 'TMSCHEMA_CULTURES',
+  objectTranslations: 'TMSCHEMA_OBJECT_TRANSLATIONS',
+  linguisticMetadata: 'TMSCHEMA_LINGUISTIC_METADATA',
+  kpis: 'TMSCHEMA_KPIS',
+  formatStringDefinitions: 'TMSCHEMA_FORMAT_STRING_DEFINITIONS',
+  detailRowsDefinitions: 'TMSCHEMA_DETAIL_ROWS_DEFINITIONS',
+  annotations: 'TMSCHEMA_ANNOTATIONS'
+};
+
+// Without these the definition is meaningless; the rest may be missing on older engines
+const REQUIRED_ROWSETS: (keyof DefinitionRowsets)[] = ['tables', 'columns', 'measures'];
+
+// Reads every definition rowset through the given discover function
+export async function discoverModelDefinition(
+  discover: (requestType: string) => Promise<XmlaRow[]>,
+  databaseName: string
+): Promise<TmslDatabase> {
+  const keys = Object.keys(DEFINITION_ROWSET_TYPES) as (keyof DefinitionRowsets)[];
+  const rowsets = {} as DefinitionRowsets;
+  // One at a time: the local engine and shared capacities throttle parallel discovers
+  for (const key of keys) {
+    const request = discover(DEFINITION_ROWSET_TYPES[key]);
+    rowsets[key] = REQUIRED_ROWSETS.includes(key) ? await request : await request.catch(() => []);
+  }
+  return buildModelDefinition(rowsets, databaseName);
+}
+
+// ObjectTranslation enums
+const TRANSLATED_OBJECT_TYPES: Record<number, string> = { 1: 'model', 3: 'table', 4: 'column', 8: 'measure', 9: 'hierarchy', 10: 'level' };
+const TRANSLATED_PROPERTIES: Record<number, string> = { 1: 'translatedCaption', 2: 'translatedDescription', 3: 'translatedDisplayFolder' };
+const DATA_SOURCE_TYPES: Record<number, string> = { 1: 'provider', 2: 'structured' };
+// ObjectType of the objects annotations, format strings and detail rows belong to
+const OBJECT_TYPES = { model: 1, table: 3, column: 4, partition: 6, measure: 8, hierarchy: 9, level: 10, expression: 41, calculationItem: 47 };
+const COLUMN_TYPE_ROW_NUMBER = 3;
+
+export function buildModelDefinition(rowsets: DefinitionRowsets, databaseName: string): TmslDatabase {
+  const catalog = rowsets.catalogs.find(c => String(c.CATALOG_NAME) === databaseName);
+  const modelRow = rowsets.model[0] ?? {};
+  const model: TmslDefinition = compact({
+    description: modelRow.Description,
+    culture: modelRow.Culture,
+    defaultMode: enumValue(PARTITION_MODES, modelRow.DefaultMode, 'import')
+  });
+
+  const tables = new Map<string, TmslDefinition>();
+  for (const row of rowsets.tables) {
+    tables.set(id(row.ID), compact({
+      name: row.Name,
+      description: row.Description,
+      dataCategory: row.DataCategory,
+      isHidden: flag(row.IsHidden),
+      lineageTag: row.LineageTag
+    }));
+  }
+  const tableOf = (row: XmlaRow) => tables.get(id(row.TableID));
+  const push = (owner: TmslDefinition | undefined, collection: string, item: TmslDefinition) => {
+    if (!owner) return;
+    owner[collection] = [...((owner[collection] as TmslDefinition[] | undefined) ?? []), item];
+  };
+
+  const columns = new Map<string, { table: TmslDefinition; column: TmslDefinition }>();
+  for (const row of rowsets.columns) {
+    const table = tableOf(row);
+    if (!table || Number(row.Type) === COLUMN_TYPE_ROW_NUMBER) continue;
+    const type = COLUMN_TYPES[Number(row.Type)] ?? 'data';
+    const column = compact({
+      name: row.ExplicitName ?? row.InferredName,
+      dataType: DATA_TYPES[Number(row.ExplicitDataType)],
+      ...(type !== 'data' && { type }),
+      expression: row.Expression,
+      description: row.Description,
+      formatString: row.FormatString,
+      displayFolder: row.DisplayFolder,
+      dataCategory: row.DataCategory,
+      isHidden: flag(row.IsHidden),
+      isKey: flag(row.IsKey),
+      isNameInferred: type === 'calculatedTableColumn' ? flag(row.IsNameInferred) : undefined,
+      summarizeBy: enumValue(SUMMARIZE_BY, row.SummarizeBy, 'default'),
+      sourceColumn: row.SourceColumn,
+      lineageTag: row.LineageTag
+    });
+    push(table, 'columns', column);
+    columns.set(id(row.ID), { table, column });
+  }
+  // Sort-by columns reference IDs that are only known once every column is read
+  for (const row of rowsets.columns) {
+    const sortBy = columns.get(id(row.SortByColumnID));
+    const column = columns.get(id(row.ID));
+    if (sortBy && column) column.column.sortByColumn = sortBy.column.name;
+  }
+
+  const measures = new Map<string, TmslDefinition>();
+  for (const row of rowsets.measures) {
+    const measure = compact({
+      name: row.Name,
+      expression: row.Expression,
+      formatString: row.FormatString,
+      description: row.Description,
+      displayFolder: row.DisplayFolder,
+      isHidden: flag(row.IsHidden),
+      lineageTag: row.LineageTag
+    });
+    push(tableOf(row), 'measures', measure);
+    measures.set(id(row.ID), measure);
+  }
+
+  const hierarchies = new Map<string, TmslDefinition>();
+  for (const row of rowsets.hierarchies) {
+    const hierarchy = compact({
+      name: row.Name,
+      description: row.Description,
+      displayFolder: row.DisplayFolder,
+      isHidden: flag(row.IsHidden),
+      lineageTag: row.LineageTag
+    });
+    push(tableOf(row), 'hierarchies', hierarchy);
+    hierarchies.set(id(row.ID), hierarchy);
+  }
+  const levels = new Map<string, TmslDefinition>();
+  for (const row of [...rowsets.levels].sort((a, b) => Number(a.Ordinal) - Number(b.Ordinal))) {
+    const level = compact({
+      name: row.Name,
+      ordinal: Number(row.Ordinal),
+      column: columns.get(id(row.ColumnID))?.column.name,
+      description: row.Description,
+      lineageTag: row.LineageTag
+    });
+    push(hierarchies.get(id(row.HierarchyID)), 'levels', level);
+    levels.set(id(row.ID), level);
+  }
+
+  const dataSources = new Map<string, string>();
+  for (const row of rowsets.dataSources) {
+    dataSources.set(id(row.ID), String(row.Name));
+    push(model, 'dataSources', compact({
+      name: row.Name,
+      type: DATA_SOURCE_TYPES[Number(row.Type)],
+      connectionString: row.ConnectionString,
+      description: row.Description
+    }));
+  }
+
+  const partitions = new Map<string, TmslDefinition>();
+  for (const row of rowsets.partitions) {
+    const sourceType = PARTITION_SOURCE_TYPES[Number(row.Type)] ?? 'm';
+    const partition = compact({
+      name: row.Name,
+      description: row.Description,
+      mode: enumValue(PARTITION_MODES, row.Mode, 'default'),
+      source: compact({
+        type: sourceType,
+        [sourceType === 'query' ? 'query' : 'expression']: row.QueryDefinition,
+        dataSource: dataSources.get(id(row.DataSourceID))
+      })
+    });
+    push(tableOf(row), 'partitions', partition);
+    partitions.set(id(row.ID), partition);
+  }
+
+  const calculationGroups = new Map<string, TmslDefinition>();
+  for (const row of rowsets.calculationGroups) {
+    const group = compact({ precedence: Number(row.Precedence ?? 0), description: row.Description });
+    const table = tableOf(row);
+    if (table) table.calculationGroup = group;
+    calculationGroups.set(id(row.ID), group);
+  }
+  const calculationItems = new Map<string, TmslDefinition>();
+  for (const row of [...rowsets.calculationItems].sort((a, b) => Number(a.Ordinal) - Number(b.Ordinal))) {
+    const item = compact({
+      name: row.Name,
+      expression: row.Expression,
+      ordinal: Number(row.Ordinal ?? 0),
+      description: row.Description
+    });
+    push(calculationGroups.get(id(row.CalculationGroupID)), 'calculationItems', item);
+    calculationItems.set(id(row.ID), item);
+  }
+
+  model.tables = [...tables.values()];
+
+  for (const row of rowsets.relationships) {
+    const from = columns.get(id(row.FromColumnID));
+    const to = columns.get(id(row.ToColumnID));
+    if (!from || !to) continue;
+    const crossFiltering = CROSS_FILTERING[Number(row.CrossFilteringBehavior)];
+    const fromCardinality = CARDINALITY[Number(row.FromCardinality)];
+    const toCardinality = CARDINALITY[Number(row.ToCardinality)];
+    // Defaults are left out, as Power BI Desktop does when saving
+    push(model, 'relationships', compact({
+      name: row.Name,
+      fromTable: from.table.name,
+      fromColumn: from.column.name,
+      toTable: to.table.name,
+      toColumn: to.column.name,
+      crossFilteringBehavior: crossFiltering !== 'oneDirection' ? crossFiltering : undefined,
+      fromCardinality: fromCardinality !== 'many' ? fromCardinality : undefined,
+      toCardinality: toCardinality !== 'one' ? toCardinality : undefined,
+      isActive: flag(row.IsActive) ? undefined : false
+    }));
+  }
+
+  const expressions = new Map<string, TmslDefinition>();
+  for (const row of rowsets.expressions) {
+    const expression = compact({
+      name: row.Name,
+      kind: 'm',
+      expression: row.Expression,
+      description: row.Description,
+      lineageTag: row.LineageTag
+    });
+    push(model, 'expressions', expression);
+    expressions.set(id(row.ID), expression);
+  }
+
+  const roles = new Map<string, TmslDefinition>();
+  for (const row of rowsets.roles) {
+    const role = compact({
+      name: row.Name,
+      description: row.Description,
+      modelPermission: MODEL_PERMISSIONS[Number(row.ModelPermission)] ?? 'read'
+    });
+    push(model, 'roles', role);
+    roles.set(id(row.ID), role);
+  }
+  for (const row of rowsets.roleMemberships) {
+    push(roles.get(id(row.RoleID)), 'members', compact({
+      memberName: row.MemberName,
+      memberId: row.MemberID,
+      identityProvider: row.IdentityProvider
+    }));
+  }
+  for (const row of rowsets.tablePermissions) {
+    push(roles.get(id(row.RoleID)), 'tablePermissions', compact({
+      name: tableOf(row)?.name,
+      filterExpression: row.FilterExpression
+    }));
+  }
+
+  const perspectives = new Map<string, TmslDefinition>();
+  for (const row of rowsets.perspectives) {
+    const perspective = compact({ name: row.Name, description: row.Description });
+    push(model, 'perspectives', perspective);
+    perspectives.set(id(row.ID), perspective);
+  }
+  const perspectiveTables = new Map<string, TmslDefinition>();
+  for (const row of rowsets.perspectiveTables) {
+    const table = compact({ name: tableOf(row)?.name, includeAll: flag(row.IncludeAll) });
+    push(perspectives.get(id(row.PerspectiveID)), 'tables', table);
+    perspectiveTables.set(id(row.ID), table);
+  }
+  const perspectiveMembers: Array<[XmlaRow[], string, (row: XmlaRow) => unknown]> = [
+    [rowsets.perspectiveColumns, 'columns', row => columns.get(id(row.ColumnID))?.column.name],
+    [rowsets.perspectiveMeasures, 'measures', row => measures.get(id(row.MeasureID))?.name],
+    [rowsets.perspectiveHierarchies, 'hierarchies', row => hierarchies.get(id(row.HierarchyID))?.name]
+  ];
+  for (const [rows, collection, nameOf] of perspectiveMembers) {
+    for (const row of rows) {
+      const name = nameOf(row);
+      if (name !== undefined) push(perspectiveTables.get(id(row.PerspectiveTableID)), collection, { name });
+    }
+  }
+
+  const cultures = new Map<string, TmslDefinition>();
+  for (const row of rowsets.cultures) {
+    const culture: TmslDefinition = { name: row.Name };
+    push(model, 'cultures', culture);
+    cultures.set(id(row.ID), culture);
+  }
+  for (const row of rowsets.linguisticMetadata) {
+    const culture = cultures.get(id(row.CultureID));
+    if (!culture || row.Content === null || row.Content === undefined) continue;
+    const isJson = Number(row.ContentType) === 1;
+    let content: unknown = row.Content;
+    if (isJson) {
+      try {
+        content = JSON.parse(String(row.Content));
+      } catch {
+        // Keep malformed metadata as text
+      }
+    }
+    culture.linguisticMetadata = { content, contentType: isJson ? 'json' : 'xml' };
+  }
+  addTranslations(rowsets.objectTranslations, cultures, { tables, columns, measures, hierarchies, levels });
+
+  for (const row of rowsets.kpis) {
+    const measure = measures.get(id(row.MeasureID));
+    if (!measure) continue;
+    measure.kpi = compact({
+      description: row.Description,
+      targetDescription: row.TargetDescription,
+      targetExpression: row.TargetExpression,
+      targetFormatString: row.TargetFormatString,
+      statusGraphic: row.StatusGraphic,
+      statusDescription: row.StatusDescription,
+      statusExpression: row.StatusExpression,
+      trendGraphic: row.TrendGraphic,
+      trendDescription: row.TrendDescription,
+      trendExpression: row.TrendExpression
+    });
+  }
+
+  // Owners of annotations and dynamic definitions, by ObjectType and ID
+  const objects = new Map<number, Map<string, TmslDefinition>>([
+    [OBJECT_TYPES.model, new Map([[id(modelRow.ID), model]])],
+    [OBJECT_TYPES.table, tables],
+    [OBJECT_TYPES.column, new Map([...columns].map(([key, entry]) => [key, entry.column]))],
+    [OBJECT_TYPES.partition, partitions],
+    [OBJECT_TYPES.measure, measures],
+    [OBJECT_TYPES.hierarchy, hierarchies],
+    [OBJECT_TYPES.level, levels],
+    [OBJECT_TYPES.expression, expressions],
+    [OBJECT_TYPES.calculationItem, calculationItems]
+  ]);
+  const ownerOf = (row: XmlaRow) => objects.get(Number(row.ObjectType))?.get(id(row.ObjectID));
+
+  for (const row of rowsets.formatStringDefinitions) {
+    const owner = ownerOf(row);
+    if (owner && row.Expression) owner.formatStringDefinition = { expression: row.Expression };
+  }
+  for (const row of rowsets.detailRowsDefinitions) {
+    const owner = ownerOf(row);
+    if (!owner || !row.Expression) continue;
+    // Tables hold the default for their measures
+    const property = Number(row.ObjectType) === OBJECT_TYPES.table ? 'defaultDetailRowsDefinition' : 'detailRowsDefinition';
+    owner[property] = { expression: row.Expression };
+  }
+  for (const row of rowsets.annotations) {
+    push(ownerOf(row), 'annotations', { name: row.Name, value: row.Value ?? '' });
+  }
+
+  return compact({
+    name: databaseName,
+    compatibilityLevel: catalog?.COMPATIBILITY_LEVEL !== undefined ? Number(catalog.COMPATIBILITY_LEVEL) : undefined,
+    model
+  }) as TmslDatabase;
+}
+
+// Places each translation under culture.translations.model, following the
+// translated object's position in the model (table > column, ...)
+function addTranslations(
+  rows: XmlaRow[],
+  cultures: Map<string, TmslDefinition>,
+  objects: {
+    tables: Map<string, TmslDefinition>;
+    columns: Map<string, { table: TmslDefinition; column: TmslDefinition }>;
+    measures: Map<string, TmslDefinition>;
+    hierarchies: Map<string, TmslDefinition>;
+    levels: Map<string, TmslDefinition>;
+  }
+): void {
+  const tableOfObject = new Map<TmslDefinition, TmslDefinition>();
+  for (const table of objects.tables.values()) {
+    for (const collection of ['measures', 'hierarchies'] as const) {
+      for (const item of (table[collection] as TmslDefinition[] | undefined) ?? []) tableOfObject.set(item, table);
+    }
+  }
+  const hierarchyOfLevel = new Map<TmslDefinition, TmslDefinition>();
+  for (const hierarchy of objects.hierarchies.values()) {
+    for (const level of (hierarchy.levels as TmslDefinition[] | undefined) ?? []) hierarchyOfLevel.set(level, hierarchy);
+  }
+
+  for (const row of rows) {
+    const culture = cultures.get(id(row.CultureID));
+    const objectType = TRANSLATED_OBJECT_TYPES[Number(row.ObjectType)];
+    const property = TRANSLATED_PROPERTIES[Number(row.Property)];
+    if (!culture || !objectType || !property) continue;
+
+    const translations = (culture.translations ??= { model: { name: 'Model' } }) as { model: TmslDefinition };
+    const objectId = id(row.ObjectID);
+    // Path of [collection, name] steps from the model down to the object
+    let path: Array<[string, unknown]> | undefined;
+    switch (objectType) {
+      case 'model':
+        path = [];
+        break;
+      case 'table':
+        path = objects.tables.has(objectId) ? [['tables', objects.tables.get(objectId)!.name]] : undefined;
+        break;
+      case 'column': {
+        const column = objects.columns.get(objectId);
+        path = column && [['tables', column.table.name], ['columns', column.column.name]];
+        break;
+      }
+      case 'measure':
+      case 'hierarchy': {
+        const item = (objectType === 'measure' ? objects.measures : objects.hierarchies).get(objectId);
+        const table = item && tableOfObject.get(item);
+        path = item && table && [['tables', table.name], [objectType === 'measure' ? 'measures' : 'hierarchies', item.name]];
+        break;
+      }
+      case 'level': {
+        const level = objects.levels.get(objectId);
+        const hierarchy = level && hierarchyOfLevel.get(level);
+        const table = hierarchy && tableOfObject.get(hierarchy);
+        path = level && hierarchy && table && [['tables', table.name], ['hierarchies', hierarchy.name], ['levels', level.name]];
+        break;
+      }
+    }
+    if (!path) continue;
+
+    let target = translations.model;
+    for (const [collection, name] of path) {
+      const list = ((target[collection] as TmslDefinition[] | undefined) ?? []);
+      target[collection] = list;
+      let next = list.find(item => item.name === name);
+      if (!next) {
+        next = { name };
+        list.push(next);
+      }
+      target = next;
+    }
+    target[property] = row.Value;
+  }
+}
+
+function id(value: unknown): string {
+  return String(value);
+}
+
+function flag(value: unknown): true | undefined {
+  return value === true || value === 'true' ? true : undefined;
+}
+
+// Maps a TOM enum, leaving out the engine default
+function enumValue(values: Record<number, string>, value: unknown, defaultValue: string): string | undefined {
+  const name = values[Number(value)];
+  return name === undefined || name === defaultValue ? undefined : name;
+}
+
+// Drops null/undefined/empty properties so exports only carry what is set
+function compact(object: Record<string, unknown>): TmslDefinition {
+  return Object.fromEntries(
+    Object.entries(object).filter(([, value]) => value !== undefined && value !== null && value !== '')
+  );
+}
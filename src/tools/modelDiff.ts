@@ -0,0 +1,362 @@
+import { TmslDatabase, TmslDefinition } from '../types/index.js';
+
+// ============================================================
+// Semantic model diff
+// Compares two TMSL model definitions object by object and
+// builds the TMSL sequence that brings the target in line
+// with the source.
+// ============================================================
+
+export interface PropertyChange {
+  property: string;
+  source: unknown;
+  target: unknown;
+}
+
+export interface ObjectChange {
+  name: string;
+  changes: PropertyChange[];
+}
+
+export interface CollectionDiff {
+  added: string[];
+  removed: string[];
+  changed: ObjectChange[];
+}
+
+export interface ModelDiff {
+  tables: CollectionDiff;
+  columns: CollectionDiff;
+  measures: CollectionDiff;
+  partitions: CollectionDiff;
+  relationships: CollectionDiff;
+  roles: CollectionDiff;
+  dataSources: CollectionDiff;
+  expressions: CollectionDiff;
+  perspectives: CollectionDiff;
+  cultures: CollectionDiff;
+}
+
+export interface SyncScript {
+  // Absent when the models are already in sync
+  tmsl?: TmslDefinition;
+  operationCount: number;
+  // Objects that hold no data until refreshed in the target
+  requiresRefresh: string[];
+}
+
+// Properties that differ between copies of the same model without meaning a change
+const IGNORED_PROPERTIES = new Set([
+  'lineageTag', 'sourceLineageTag', 'modifiedTime', 'structureModifiedTime', 'refreshedTime', 'state', 'errorMessage'
+]);
+
+// Values the engine assumes when a property is omitted, so `isHidden: false`
+// and a missing isHidden compare equal
+const DEFAULTS: Record<string, Record<string, unknown>> = {
+  table: { isHidden: false },
+  column: { type: 'data', isHidden: false, isKey: false, isNullable: true, isAvailableInMdx: true, summarizeBy: 'default' },
+  measure: { isHidden: false },
+  partition: { mode: 'default' },
+  relationship: {
+    isActive: true,
+    crossFilteringBehavior: 'oneDirection',
+    securityFilteringBehavior: 'oneDirection',
+    fromCardinality: 'many',
+    toCardinality: 'one'
+  },
+  role: {}
+};
+
+// Collections compared on their own instead of as properties of their parent
+const TABLE_COLLECTIONS = new Set(['columns', 'measures', 'partitions']);
+
+// Model-level objects synced by name: sources are created before the tables
+// whose partitions use them, the rest after the tables they reference
+const SOURCE_OBJECTS = [['dataSources', 'dataSource'], ['expressions', 'expression']] as const;
+const DEPENDENT_OBJECTS = [['roles', 'role'], ['perspectives', 'perspective'], ['cultures', 'culture']] as const;
+
+interface Keyed {
+  name: string;
+  object: TmslDefinition;
+}
+
+export function diffModels(source: TmslDatabase, target: TmslDatabase): ModelDiff {
+  const sourceTables = keyByName(list(source.model.tables));
+  const targetTables = keyByName(list(target.model.tables));
+
+  const diff: ModelDiff = {
+    tables: compareCollections('table', sourceTables, targetTables, TABLE_COLLECTIONS),
+    columns: emptyDiff(),
+    measures: emptyDiff(),
+    partitions: emptyDiff(),
+    relationships: compareCollections(
+      'relationship',
+      keyRelationships(list(source.model.relationships)),
+      keyRelationships(list(target.model.relationships)),
+      new Set(['name'])
+    ),
+    roles: emptyDiff(),
+    dataSources: emptyDiff(),
+    expressions: emptyDiff(),
+    perspectives: emptyDiff(),
+    cultures: emptyDiff()
+  };
+  for (const [collection, type] of [...DEPENDENT_OBJECTS, ...SOURCE_OBJECTS]) {
+    diff[collection] = compareCollections(
+      type,
+      keyByName(list(source.model[collection])),
+      keyByName(list(target.model[collection]))
+    );
+  }
+
+  // Children of added or removed tables are reported with the table only
+  for (const [key, sourceTable] of sourceTables) {
+    const targetTable = targetTables.get(key);
+    if (!targetTable) continue;
+    for (const [collection, type] of [['columns', 'column'], ['measures', 'measure'], ['partitions', 'partition']] as const) {
+      const childDiff = compareCollections(
+        type,
+        keyByName(list(sourceTable.object[collection]), sourceTable.name),
+        keyByName(list(targetTable.object[collection]), sourceTable.name)
+      );
+      diff[collection].added.push(...childDiff.added);
+      diff[collection].removed.push(...childDiff.removed);
+      diff[collection].changed.push(...childDiff.changed);
+    }
+  }
+  return diff;
+}
+
+export function hasDifferences(diff: ModelDiff): boolean {
+  return Object.values(diff).some((c: CollectionDiff) => c.added.length + c.removed.length + c.changed.length > 0);
+}
+
+export function summarizeDiff(diff: ModelDiff): Record<string, { added: number; removed: number; changed: number }> {
+  return Object.fromEntries(Object.entries(diff).map(([collection, c]: [string, CollectionDiff]) => [
+    collection,
+    { added: c.added.length, removed: c.removed.length, changed: c.changed.length }
+  ]));
+}
+
+// Builds the commands that turn the target into the source. Deletes run first
+// (relationships before the columns they use), then data sources and shared
+// expressions, tables and their children, and finally relationships, roles,
+// perspectives and cultures, which may reference them.
+export function buildSyncScript(source: TmslDatabase, target: TmslDatabase, databaseName: string): SyncScript {
+  const operations: TmslDefinition[] = [];
+  const requiresRefresh: string[] = [];
+  const database = databaseName;
+
+  const sourceTables = keyByName(list(source.model.tables));
+  const targetTables = keyByName(list(target.model.tables));
+  const sourceRelationships = keyRelationships(list(source.model.relationships));
+  const targetRelationships = keyRelationships(list(target.model.relationships));
+  const deleteRemoved = (collection: string, type: string) => {
+    const sourceObjects = keyByName(list(source.model[collection]));
+    for (const [key, object] of keyByName(list(target.model[collection]))) {
+      if (!sourceObjects.has(key)) operations.push({ delete: { object: { database, [type]: object.name } } });
+    }
+  };
+  const replaceChanged = (collection: string, type: string) => {
+    const targetObjects = keyByName(list(target.model[collection]));
+    for (const [key, object] of keyByName(list(source.model[collection]))) {
+      const existing = targetObjects.get(key);
+      if (existing && compareObjects(type, object.object, existing.object).length === 0) continue;
+      operations.push({ createOrReplace: { object: { database, [type]: existing?.name ?? object.name }, [type]: object.object } });
+    }
+  };
+
+  // -- Deletes --
+  for (const [key, relationship] of targetRelationships) {
+    if (!sourceRelationships.has(key)) {
+      operations.push({ delete: { object: { database, relationship: relationship.object.name } } });
+    }
+  }
+  for (const [collection, type] of DEPENDENT_OBJECTS) deleteRemoved(collection, type);
+  for (const [key, targetTable] of targetTables) {
+    const sourceTable = sourceTables.get(key);
+    if (!sourceTable) continue;
+    for (const [collection, type] of [['measures', 'measure'], ['columns', 'column'], ['partitions', 'partition']] as const) {
+      const sourceChildren = keyByName(list(sourceTable.object[collection]));
+      for (const [childKey, child] of keyByName(list(targetTable.object[collection]))) {
+        if (!sourceChildren.has(childKey)) {
+          operations.push({ delete: { object: { database, table: targetTable.name, [type]: child.name } } });
+        }
+      }
+    }
+  }
+  for (const [key, table] of targetTables) {
+    if (!sourceTables.has(key)) operations.push({ delete: { object: { database, table: table.name } } });
+  }
+  for (const [collection, type] of SOURCE_OBJECTS) deleteRemoved(collection, type);
+
+  // -- Sources, tables and their children --
+  for (const [collection, type] of SOURCE_OBJECTS) replaceChanged(collection, type);
+  for (const [key, sourceTable] of sourceTables) {
+    const targetTable = targetTables.get(key);
+    if (!targetTable) {
+      operations.push({ createOrReplace: { object: { database, table: sourceTable.name }, table: sourceTable.object } });
+      requiresRefresh.push(sourceTable.name);
+      continue;
+    }
+
+    const tableChanges = compareObjects('table', sourceTable.object, targetTable.object, TABLE_COLLECTIONS);
+    if (tableChanges.some(c => c.property === 'hierarchies' || c.property === 'calculationGroup')) {
+      // Hierarchies and calculation items only exist inside the table definition
+      operations.push({ createOrReplace: { object: { database, table: targetTable.name }, table: sourceTable.object } });
+      requiresRefresh.push(sourceTable.name);
+      continue;
+    }
+    if (tableChanges.length > 0) {
+      operations.push({ alter: { object: { database, table: targetTable.name }, table: withoutCollections(sourceTable.object) } });
+    }
+
+    for (const [collection, type] of [['columns', 'column'], ['measures', 'measure'], ['partitions', 'partition']] as const) {
+      const targetChildren = keyByName(list(targetTable.object[collection]));
+      for (const [childKey, child] of keyByName(list(sourceTable.object[collection]))) {
+        const existing = targetChildren.get(childKey);
+        if (existing && compareObjects(type, child.object, existing.object).length === 0) continue;
+        operations.push({
+          createOrReplace: { object: { database, table: targetTable.name, [type]: existing?.name ?? child.name }, [type]: child.object }
+        });
+        if (type === 'partition') requiresRefresh.push(`${sourceTable.name}/${child.name}`);
+      }
+    }
+  }
+
+  // -- Relationships and dependent objects --
+  for (const [key, relationship] of sourceRelationships) {
+    const existing = targetRelationships.get(key);
+    if (existing && compareObjects('relationship', relationship.object, existing.object, new Set(['name'])).length === 0) continue;
+    // Keep the target's name so the relationship is replaced, not duplicated
+    const name = existing?.object.name ?? relationship.object.name;
+    operations.push({
+      createOrReplace: { object: { database, relationship: name }, relationship: { ...relationship.object, name } }
+    });
+  }
+  for (const [collection, type] of DEPENDENT_OBJECTS) replaceChanged(collection, type);
+
+  return {
+    tmsl: operations.length > 0 ? { sequence: { operations } } : undefined,
+    operationCount: operations.length,
+    requiresRefresh
+  };
+}
+
+// ---- Comparison ----
+
+function compareCollections(
+  type: string,
+  source: Map<string, Keyed>,
+  target: Map<string, Keyed>,
+  exclude = new Set<string>()
+): CollectionDiff {
+  const diff = emptyDiff();
+  for (const [key, item] of source) {
+    const other = target.get(key);
+    if (!other) {
+      diff.added.push(item.name);
+      continue;
+    }
+    const changes = compareObjects(type, item.object, other.object, exclude);
+    if (changes.length > 0) diff.changed.push({ name: item.name, changes });
+  }
+  for (const [key, item] of target) {
+    if (!source.has(key)) diff.removed.push(item.name);
+  }
+  return diff;
+}
+
+function compareObjects(
+  type: string,
+  source: TmslDefinition,
+  target: TmslDefinition,
+  exclude = new Set<string>()
+): PropertyChange[] {
+  const a = normalize(type, source);
+  const b = normalize(type, target);
+  const changes: PropertyChange[] = [];
+  for (const property of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (exclude.has(property)) continue;
+    if (JSON.stringify(a[property]) !== JSON.stringify(b[property])) {
+      changes.push({ property, source: source[property], target: target[property] });
+    }
+  }
+  return changes;
+}
+
+// Drops defaults and volatile properties and puts values in a comparable form
+function normalize(type: string, object: TmslDefinition): TmslDefinition {
+  const defaults = DEFAULTS[type] ?? {};
+  const result: TmslDefinition = {};
+  for (const [key, value] of Object.entries(object)) {
+    if (IGNORED_PROPERTIES.has(key) || value === undefined || value === null) continue;
+    if (key in defaults && defaults[key] === value) continue;
+    result[key] = canonical(value);
+  }
+  return result;
+}
+
+function canonical(value: unknown): unknown {
+  if (typeof value === 'string') return value.replace(/\r\n/g, '\n');
+  if (Array.isArray(value)) {
+    // TMSL may split expressions into arrays of lines
+    if (value.every(v => typeof v === 'string')) return value.join('\n').replace(/\r\n/g, '\n');
+    const items = value.map(canonical);
+    // Named children (members, annotations, levels...) compare regardless of order
+    return items.every(isNamed) ? items.sort((x, y) => nameOf(x).localeCompare(nameOf(y))) : items;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: TmslDefinition = {};
+    for (const key of Object.keys(value).sort()) {
+      if (IGNORED_PROPERTIES.has(key)) continue;
+      result[key] = canonical((value as TmslDefinition)[key]);
+    }
+    return result;
+  }
+  return value;
+}
+
+function isNamed(value: unknown): value is TmslDefinition {
+  return typeof value === 'object' && value !== null && (typeof (value as TmslDefinition).name === 'string'
+    || typeof (value as TmslDefinition).memberName === 'string');
+}
+
+function nameOf(value: TmslDefinition): string {
+  return String(value.name ?? value.memberName).toLowerCase();
+}
+
+// ---- Keys ----
+
+// Object names are case-insensitive in the engine
+function keyByName(items: TmslDefinition[], parent?: string): Map<string, Keyed> {
+  const result = new Map<string, Keyed>();
+  for (const object of items) {
+    const name = String(object.name);
+    result.set(name.toLowerCase(), { name: parent ? `${parent}[${name}]` : name, object });
+  }
+  return result;
+}
+
+// Relationship names are generated GUIDs that differ between copies of a
+// model, so relationships are matched on the columns they join
+function keyRelationships(items: TmslDefinition[]): Map<string, Keyed> {
+  const result = new Map<string, Keyed>();
+  for (const object of items) {
+    const name = `${object.fromTable}[${object.fromColumn}] -> ${object.toTable}[${object.toColumn}]`;
+    result.set(name.toLowerCase(), { name, object });
+  }
+  return result;
+}
+
+function withoutCollections(table: TmslDefinition): TmslDefinition {
+  return Object.fromEntries(Object.entries(table).filter(([key]) => !TABLE_COLLECTIONS.has(key)));
+}
+
+function list(value: unknown): TmslDefinition[] {
+  return Array.isArray(value) ? (value as TmslDefinition[]) : [];
+}
+
+function emptyDiff(): CollectionDiff {
+  return { added: [], removed: [], changed: [] };
+}
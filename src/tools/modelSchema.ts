@@ -0,0 +1,157 @@
+import {
+  SemanticModelSchema,
+  TableSchema,
+  ColumnSchema,
+  MeasureSchema,
+  HierarchySchema,
+  RelationshipSchema
+} from '../types/index.js';
+import { XmlaRow } from './xmlaRowset.js';
+
+// ============================================================
+// Semantic model schema from TMSCHEMA_* rowsets
+// Joins the discover rowsets on their IDs into the same
+// SemanticModelSchema shape returned for cloud models.
+// ============================================================
+
+export interface SchemaRowsets {
+  tables: XmlaRow[];
+  columns: XmlaRow[];
+  measures: XmlaRow[];
+  relationships?: XmlaRow[];
+  hierarchies?: XmlaRow[];
+  levels?: XmlaRow[];
+}
+
+// The rowsets buildSemanticModelSchema needs, keyed like SchemaRowsets
+export const SCHEMA_ROWSET_TYPES: Record<keyof SchemaRowsets, string> = {
+  tables: 'TMSCHEMA_TABLES',
+  columns: 'TMSCHEMA_COLUMNS',
+  measures: 'TMSCHEMA_MEASURES',
+  relationships: 'TMSCHEMA_RELATIONSHIPS',
+  hierarchies: 'TMSCHEMA_HIERARCHIES',
+  levels: 'TMSCHEMA_LEVELS'
+};
+
+// TOM enum values as exposed by the TMSCHEMA rowsets
+export const DATA_TYPES: Record<number, string> = {
+  1: 'automatic', 2: 'string', 6: 'int64', 8: 'double', 9: 'dateTime',
+  10: 'decimal', 11: 'boolean', 17: 'binary', 19: 'unknown', 20: 'variant'
+};
+export const CROSS_FILTERING: Record<number, string> = { 1: 'oneDirection', 2: 'bothDirections', 3: 'automatic' };
+export const CARDINALITY: Record<number, string> = { 1: 'one', 2: 'many' };
+export const COLUMN_TYPES: Record<number, string> = { 1: 'data', 2: 'calculated', 3: 'rowNumber', 4: 'calculatedTableColumn' };
+export const SUMMARIZE_BY: Record<number, string> = {
+  1: 'default', 2: 'none', 3: 'sum', 4: 'min', 5: 'max', 6: 'count', 7: 'average', 8: 'distinctCount'
+};
+export const PARTITION_MODES: Record<number, string> = { 0: 'import', 1: 'directQuery', 2: 'default', 3: 'push', 4: 'dual' };
+export const PARTITION_SOURCE_TYPES: Record<number, string> = {
+  1: 'query', 2: 'calculated', 3: 'none', 4: 'm', 5: 'entity', 6: 'policyRange', 7: 'calculationGroup', 8: 'inferred'
+};
+export const MODEL_PERMISSIONS: Record<number, string> = { 1: 'none', 2: 'read', 3: 'readRefresh', 4: 'refresh', 5: 'administrator' };
+const COLUMN_TYPE_ROW_NUMBER = 3;
+
+export function buildSemanticModelSchema(rowsets: SchemaRowsets): SemanticModelSchema {
+  const tablesById = new Map<string, TableSchema>();
+  for (const row of rowsets.tables) {
+    tablesById.set(id(row.ID), {
+      name: String(row.Name),
+      columns: [],
+      measures: [],
+      hierarchies: [],
+      isHidden: bool(row.IsHidden),
+      ...optional('description', row.Description),
+      ...optional('dataCategory', row.DataCategory)
+    });
+  }
+
+  const columnsById = new Map<string, { table: TableSchema; column: ColumnSchema }>();
+  for (const row of rowsets.columns) {
+    const table = tablesById.get(id(row.TableID));
+    // RowNumber columns are engine-internal and never shown to users
+    if (!table || Number(row.Type) === COLUMN_TYPE_ROW_NUMBER) continue;
+    const column: ColumnSchema = {
+      name: String(row.ExplicitName ?? row.InferredName ?? row.Name),
+      dataType: DATA_TYPES[Number(row.ExplicitDataType)] ?? String(row.ExplicitDataType ?? 'unknown'),
+      isHidden: bool(row.IsHidden),
+      ...optional('description', row.Description),
+      ...optional('formatString', row.FormatString),
+      ...optional('expression', row.Expression),
+      ...optional('sourceColumn', row.SourceColumn),
+      ...optional('displayFolder', row.DisplayFolder),
+      ...(bool(row.IsKey) && { isKey: true })
+    };
+    table.columns.push(column);
+    columnsById.set(id(row.ID), { table, column });
+  }
+
+  for (const row of rowsets.measures) {
+    const table = tablesById.get(id(row.TableID));
+    if (!table) continue;
+    const measure: MeasureSchema = {
+      name: String(row.Name),
+      expression: String(row.Expression ?? ''),
+      tableName: table.name,
+      isHidden: bool(row.IsHidden),
+      ...optional('description', row.Description),
+      ...optional('formatString', row.FormatString),
+      ...optional('displayFolder', row.DisplayFolder)
+    };
+    table.measures.push(measure);
+  }
+
+  const levelsByHierarchy = new Map<string, XmlaRow[]>();
+  for (const row of rowsets.levels ?? []) {
+    const list = levelsByHierarchy.get(id(row.HierarchyID)) ?? [];
+    list.push(row);
+    levelsByHierarchy.set(id(row.HierarchyID), list);
+  }
+  for (const row of rowsets.hierarchies ?? []) {
+    const table = tablesById.get(id(row.TableID));
+    if (!table) continue;
+    const levels = (levelsByHierarchy.get(id(row.ID)) ?? [])
+      .sort((a, b) => Number(a.Ordinal) - Number(b.Ordinal))
+      .map(level => columnsById.get(id(level.ColumnID))?.column.name ?? String(level.Name));
+    const hierarchy: HierarchySchema = {
+      name: String(row.Name),
+      levels,
+      isHidden: bool(row.IsHidden),
+      ...optional('description', row.Description)
+    };
+    table.hierarchies!.push(hierarchy);
+  }
+
+  const relationships: RelationshipSchema[] = [];
+  for (const row of rowsets.relationships ?? []) {
+    const from = columnsById.get(id(row.FromColumnID));
+    const to = columnsById.get(id(row.ToColumnID));
+    if (!from || !to) continue;
+    relationships.push({
+      name: String(row.Name),
+      fromTable: from.table.name,
+      fromColumn: from.column.name,
+      toTable: to.table.name,
+      toColumn: to.column.name,
+      crossFilteringBehavior: CROSS_FILTERING[Number(row.CrossFilteringBehavior)],
+      isActive: bool(row.IsActive),
+      fromCardinality: CARDINALITY[Number(row.FromCardinality)],
+      toCardinality: CARDINALITY[Number(row.ToCardinality)]
+    });
+  }
+
+  // Measures live under their tables; the top-level list is kept for
+  // sources (like the REST API) that cannot tell the home table
+  return { tables: [...tablesById.values()], relationships, measures: [] };
+}
+
+function id(value: unknown): string {
+  return String(value);
+}
+
+function bool(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+function optional<K extends string>(key: K, value: unknown): Partial<Record<K, string>> {
+  return value === undefined || value === null || value === '' ? {} : { [key]: String(value) } as Record<K, string>;
+}
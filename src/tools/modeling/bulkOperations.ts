@@ -1,5 +1,6 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { OperationRequirements } from '../validation.js';
 
 export const definition: Tool = {
   name: 'bulk_operations',
@@ -74,6 +75,15 @@ export const definition: Tool = {
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  bulk_rename: ['renames'],
+  bulk_hide: ['objectPaths'],
+  bulk_unhide: ['objectPaths'],
+  bulk_document: ['documentations'],
+  bulk_format_strings: ['formatStrings'],
+  apply_naming_convention: ['namingConvention']
+};
+
 export async function handler(
   args: {
     operation: string;
@@ -125,23 +135,38 @@ export async function handler(
       };
     }
 
-    case 'bulk_hide': {
-      if (!args.objectPaths?.length) throw new Error('objectPaths é obrigatório para bulk_hide');
+    case 'bulk_hide':
+    case 'bulk_unhide': {
+      const objectPaths = args.objectPaths;
+      if (!objectPaths?.length) throw new Error(`objectPaths é obrigatório para ${args.operation}`);
+      const isHidden = args.operation === 'bulk_hide';
 
+      // One request per object, so each one succeeds or fails on its own. The
+      // requests wait for a slot of the tenant's concurrency limit and pause
+      // on 429 (see requestPipeline), so large lists are not throttled.
       const results = await Promise.allSettled(
-        args.objectPaths.map(path => {
+        objectPaths.map(path => {
           const parts = path.split('.');
           const tableName = parts[0];
           const objName = parts[1];
           const tmsl = objName
-            ? { alter: { object: { database: args.databaseName, table: tableName, column: objName }, column: { isHidden: true } } }
-            : { alter: { object: { database: args.databaseName, table: tableName }, table: { isHidden: true } } };
+            ? { alter: { object: { database: args.databaseName, table: tableName, column: objName }, column: { isHidden } } }
+            : { alter: { object: { database: args.databaseName, table: tableName }, table: { isHidden } } };
           return client.executeTmsl(args.xmlaEndpoint, tmsl);
         })
       );
 
       const succeeded = results.filter(r => r.status === 'fulfilled').length;
-      return { operation: 'bulk_hide', total: args.objectPaths.length, succeeded, failed: results.length - succeeded };
+      const failures = results.flatMap((r, i) => r.status === 'rejected'
+        ? [{ objectPath: objectPaths[i], error: r.reason instanceof Error ? r.reason.message : String(r.reason) }]
+        : []);
+      return {
+        operation: args.operation,
+        total: objectPaths.length,
+        succeeded,
+        failed: results.length - succeeded,
+        ...(failures.length > 0 && { failures })
+      };
     }
 
     case 'bulk_document': {
@@ -1,5 +1,6 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { OperationRequirements } from '../validation.js';
 
 export const definition: Tool = {
   name: 'calculation_group_operations',
@@ -32,6 +33,12 @@ export const definition: Tool = {
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  create: ['definition'],
+  add_item: ['groupName', 'definition'],
+  delete: ['groupName']
+};
+
 export async function handler(
   args: {
     operation: string;
@@ -1,5 +1,6 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { OperationRequirements } from '../validation.js';
 
 export const definition: Tool = {
   name: 'column_operations',
@@ -46,6 +47,17 @@ export const definition: Tool = {
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  list: ['xmlaEndpoint', 'databaseName'],
+  get: ['xmlaEndpoint', 'databaseName', 'tableName', 'columnName'],
+  create: ['xmlaEndpoint', 'databaseName', 'tableName', 'columnDefinition'],
+  update: ['xmlaEndpoint', 'databaseName', 'tableName', 'columnName', 'columnDefinition'],
+  delete: ['xmlaEndpoint', 'databaseName', 'tableName', 'columnName'],
+  hide: ['xmlaEndpoint', 'databaseName', 'tableName', 'columnName'],
+  unhide: ['xmlaEndpoint', 'databaseName', 'tableName', 'columnName'],
+  update_format: ['xmlaEndpoint', 'databaseName', 'tableName', 'columnName', 'formatString']
+};
+
 export async function handler(
   args: {
     operation: string;
@@ -1,41 +1,72 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { ToolContext } from '../../types/index.js';
+import { PbipProject } from '../pbip/pbipProject.js';
+import { OperationRequirements } from '../validation.js';
+import { PAGING_PROPERTIES, listOptionsFor, toPage } from '../pagination.js';
+import { datasetTargets, isAllowedByAccessPolicy, workspaceTargets } from '../../config/accessPolicy.js';
 
 export const definition: Tool = {
   name: 'connection_operations',
-  description: 'Gerencia conexões com Power BI Desktop, workspace Fabric ou arquivo PBIP. Liste workspaces, obtenha informações de conexão e verifique a conectividade.',
+  description: 'Gerencia conexões com Power BI Desktop, workspace Fabric ou arquivo PBIP. Liste workspaces, modelos e itens do Fabric (com filtro OData e paginação por cursor: passe o nextCursor retornado como cursor), obtenha informações de conexão e verifique a conectividade. open_pbip abre um projeto PBIP (TMDL ou model.bim) do disco e retorna um endpoint pbip:// para usar como xmlaEndpoint nas demais ferramentas, sem Desktop nem workspace. list_profiles mostra os perfis de conexão (tenant, conta, endpoint XMLA e modelos padrão) para usar no argumento profile.',
   inputSchema: {
     type: 'object',
     properties: {
       operation: {
         type: 'string',
-        enum: ['list_workspaces', 'list_datasets', 'get_dataset_info', 'test_connection'],
+        enum: ['list_workspaces', 'list_datasets', 'list_items', 'get_dataset_info', 'test_connection', 'open_pbip', 'list_profiles'],
         description: 'Operação a executar'
       },
       workspaceId: {
         type: 'string',
-        description: 'ID do workspace (para list_datasets e operações de workspace específico)'
+        description: 'ID do workspace (para list_datasets, list_items e operações de workspace específico)'
+      },
+      itemType: {
+        type: 'string',
+        description: 'Tipo de item do Fabric para list_items, ex.: Lakehouse, Warehouse, Notebook, SemanticModel, Report'
       },
       datasetId: {
         type: 'string',
         description: 'ID do dataset/modelo semântico (para get_dataset_info)'
-      }
+      },
+      path: {
+        type: 'string',
+        description: 'Caminho da pasta do projeto, do arquivo .pbip ou da pasta .SemanticModel (para open_pbip)'
+      },
+      ...PAGING_PROPERTIES
     },
     required: ['operation']
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  list_items: ['workspaceId'],
+  get_dataset_info: ['datasetId'],
+  open_pbip: ['path']
+};
+
 export async function handler(
-  args: { operation: string; workspaceId?: string; datasetId?: string },
-  client: PowerBiClient
+  args: {
+    operation: string;
+    workspaceId?: string;
+    itemType?: string;
+    datasetId?: string;
+    path?: string;
+    filter?: string;
+    limit?: number;
+    cursor?: string;
+  },
+  client: PowerBiClient,
+  context?: ToolContext
 ): Promise<unknown> {
   switch (args.operation) {
     case 'list_workspaces': {
-      const workspaces = await client.listWorkspaces();
+      const options = listOptionsFor(args);
+      const { items: workspaces, page } = toPage(await client.listWorkspaces(options), options);
       return {
         operation: 'list_workspaces',
-        count: workspaces.length,
-        workspaces: workspaces.map((w: Record<string, unknown>) => ({
+        ...page,
+        workspaces: workspaces.filter(w => isAllowedByAccessPolicy(workspaceTargets(w), context?.accessPolicy)).map((w: Record<string, unknown>) => ({
           id: w.id,
           name: w.name,
           type: w.type,
@@ -45,12 +76,13 @@ export async function handler(
     }
 
     case 'list_datasets': {
-      const datasets = await client.listDatasets(args.workspaceId);
+      const options = listOptionsFor(args);
+      const { items: datasets, page } = toPage(await client.listDatasets(args.workspaceId, options), options);
       return {
         operation: 'list_datasets',
         workspaceId: args.workspaceId || 'my_workspace',
-        count: datasets.length,
-        datasets: datasets.map((d: Record<string, unknown>) => ({
+        ...page,
+        datasets: datasets.filter(d => isAllowedByAccessPolicy(datasetTargets(d), context?.accessPolicy)).map((d: Record<string, unknown>) => ({
           id: d.id,
           name: d.name,
           configuredBy: d.configuredBy,
@@ -60,6 +92,25 @@ export async function handler(
       };
     }
 
+    case 'list_items': {
+      if (!args.workspaceId) throw new Error('workspaceId é obrigatório para list_items');
+      const options = listOptionsFor(args);
+      const { items, page } = toPage(await client.listFabricItems(args.workspaceId, args.itemType, options), options);
+      return {
+        operation: 'list_items',
+        workspaceId: args.workspaceId,
+        ...page,
+        items: items.filter(i => i.type !== 'SemanticModel' || isAllowedByAccessPolicy(
+          datasetTargets({ id: i.id, name: i.displayName }), context?.accessPolicy
+        )).map((i: Record<string, unknown>) => ({
+          id: i.id,
+          displayName: i.displayName,
+          type: i.type,
+          description: i.description
+        }))
+      };
+    }
+
     case 'get_dataset_info': {
       if (!args.datasetId) throw new Error('datasetId é obrigatório para get_dataset_info');
       const dataset = await client.getDataset(args.datasetId);
@@ -67,12 +118,51 @@ export async function handler(
     }
 
     case 'test_connection': {
-      // Try to list datasets as a connection test
-      await client.listDatasets();
+      // Try to list workspaces as a connection test
+      await client.listWorkspaces({ top: 1 });
       return {
         operation: 'test_connection',
         status: 'connected',
-        message: 'Conexão com Power BI REST API estabelecida com sucesso'
+        message: 'Conexão com Power BI REST API estabelecida com sucesso',
+        ...(context?.profile && { profile: context.profile })
+      };
+    }
+
+    case 'list_profiles': {
+      // Connection settings only: secrets never leave SecretStorage
+      return {
+        operation: 'list_profiles',
+        current: context?.profile,
+        profiles: (context?.profiles ?? []).map(p => ({
+          name: p.name,
+          tenantId: p.auth.tenantId || 'common',
+          method: p.auth.method,
+          ...(p.auth.account && { account: p.auth.account }),
+          ...(p.connection.xmlaEndpoint && { xmlaEndpoint: p.connection.xmlaEndpoint }),
+          defaultSemanticModelIds: p.connection.defaultSemanticModelIds
+        }))
+      };
+    }
+
+    case 'open_pbip': {
+      if (!args.path) throw new Error('path é obrigatório para open_pbip');
+      const project = await PbipProject.open(args.path);
+      const database = await project.load();
+      const tables = (database.model.tables as Record<string, unknown>[] | undefined) ?? [];
+      const count = (key: string) => tables.reduce((sum, t) => sum + ((t[key] as unknown[] | undefined)?.length ?? 0), 0);
+      return {
+        operation: 'open_pbip',
+        xmlaEndpoint: project.endpoint,
+        databaseName: project.databaseName(database),
+        format: project.format,
+        path: project.definitionPath,
+        summary: {
+          totalTables: tables.length,
+          totalColumns: count('columns'),
+          totalMeasures: count('measures'),
+          totalRelationships: (database.model.relationships as unknown[] | undefined)?.length ?? 0
+        },
+        message: 'Projeto aberto. Use xmlaEndpoint e databaseName nas ferramentas de modelagem; as alterações são gravadas nos arquivos do projeto.'
       };
     }
 
@@ -80,3 +170,4 @@ export async function handler(
       throw new Error(`Operação desconhecida: ${args.operation}`);
   }
 }
+
@@ -1,5 +1,6 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { OperationRequirements } from '../validation.js';
 
 export const definition: Tool = {
   name: 'culture_operations',
@@ -36,6 +37,12 @@ export const definition: Tool = {
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  add_culture: ['cultureName'],
+  remove_culture: ['cultureName'],
+  bulk_translate: ['cultureName', 'translations']
+};
+
 export async function handler(
   args: {
     operation: string;
@@ -1,21 +1,37 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { TmslDatabase, TmslDefinition, ToolContext } from '../../types/index.js';
+import { exportTmdlFolder, isPbipEndpoint, readModelDefinition } from '../pbip/pbipProject.js';
+import { buildSyncScript, diffModels, summarizeDiff } from '../modelDiff.js';
+import { OperationRequirements } from '../validation.js';
+import { PAGING_PROPERTIES, listOptionsFor, toPage } from '../pagination.js';
+import { checkAccessPolicy, datasetTargets, isAllowedByAccessPolicy } from '../../config/accessPolicy.js';
 
 export const definition: Tool = {
   name: 'database_operations',
-  description: 'Lista, cria, exclui e gerencia bancos de dados/modelos semânticos no workspace do Power BI/Fabric.',
+  description: 'Lista, cria, exclui e gerencia bancos de dados/modelos semânticos no workspace do Power BI/Fabric. list e get_refresh_history aceitam filtro OData (filter) e são paginadas: passe o nextCursor retornado como cursor. deploy publica um modelo (BIM/TMDL/PBIP ou outro banco) em um endpoint XMLA aplicando apenas as diferenças, com opções para manter partições, funções e membros e para ignorar fontes de dados; dryRun retorna o script TMSL sem executá-lo. export_tmdl grava a definição completa do modelo (XMLA ou pbip://) como uma pasta TMDL.',
   inputSchema: {
     type: 'object',
     properties: {
       operation: {
         type: 'string',
-        enum: ['list', 'get', 'create', 'delete', 'refresh', 'get_refresh_history', 'deploy'],
+        enum: ['list', 'get', 'create', 'delete', 'refresh', 'get_refresh_history', 'deploy', 'export_tmdl'],
         description: 'Operação a executar'
       },
       xmlaEndpoint: { type: 'string', description: 'Endpoint XMLA do workspace' },
       workspaceId: { type: 'string', description: 'ID do workspace Power BI' },
       semanticModelId: { type: 'string', description: 'ID do modelo semântico (para get, delete, refresh)' },
       databaseName: { type: 'string', description: 'Nome do banco de dados (para operações XMLA)' },
+      outputPath: { type: 'string', description: 'Pasta de destino dos arquivos .tmdl (para export_tmdl)' },
+      sourcePath: { type: 'string', description: 'Modelo a publicar: arquivo .bim, pasta TMDL ou projeto PBIP (para deploy)' },
+      sourceXmlaEndpoint: { type: 'string', description: 'Endpoint XMLA do banco de origem, alternativa a sourcePath (para deploy)' },
+      sourceDatabaseName: { type: 'string', description: 'Banco de origem em sourceXmlaEndpoint (para deploy)' },
+      retainPartitions: { type: 'boolean', description: 'Manter as partições existentes no destino (para deploy)' },
+      retainRoles: { type: 'boolean', description: 'Manter as funções de segurança do destino, ignorando as da origem (para deploy)' },
+      retainRoleMembers: { type: 'boolean', description: 'Manter os membros das funções existentes no destino (para deploy)' },
+      skipDataSources: { type: 'boolean', description: 'Não alterar fontes de dados nem expressões compartilhadas do destino (para deploy)' },
+      dryRun: { type: 'boolean', description: 'Apenas retorna o script TMSL, sem executá-lo (para deploy)' },
+      ...PAGING_PROPERTIES,
       databaseDefinition: {
         type: 'object',
         description: 'Definição TMSL do banco de dados (para create)',
@@ -30,6 +46,16 @@ export const definition: Tool = {
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  get: ['semanticModelId'],
+  create: ['xmlaEndpoint', 'databaseDefinition'],
+  refresh: ['semanticModelId'],
+  get_refresh_history: ['semanticModelId'],
+  delete: ['xmlaEndpoint', 'databaseName'],
+  deploy: ['xmlaEndpoint'],
+  export_tmdl: ['xmlaEndpoint', 'outputPath']
+};
+
 export async function handler(
   args: {
     operation: string;
@@ -37,17 +63,31 @@ export async function handler(
     workspaceId?: string;
     semanticModelId?: string;
     databaseName?: string;
+    outputPath?: string;
+    sourcePath?: string;
+    sourceXmlaEndpoint?: string;
+    sourceDatabaseName?: string;
+    retainPartitions?: boolean;
+    retainRoles?: boolean;
+    retainRoleMembers?: boolean;
+    skipDataSources?: boolean;
+    dryRun?: boolean;
     databaseDefinition?: Record<string, unknown>;
+    filter?: string;
+    limit?: number;
+    cursor?: string;
   },
-  client: PowerBiClient
+  client: PowerBiClient,
+  context?: ToolContext
 ): Promise<unknown> {
   switch (args.operation) {
     case 'list': {
-      const datasets = await client.listDatasets(args.workspaceId);
+      const options = listOptionsFor(args);
+      const { items: datasets, page } = toPage(await client.listDatasets(args.workspaceId, options), options);
       return {
         operation: 'list',
-        count: datasets.length,
-        databases: datasets.map((d: Record<string, unknown>) => ({
+        ...page,
+        databases: datasets.filter(d => isAllowedByAccessPolicy(datasetTargets(d), context?.accessPolicy)).map((d: Record<string, unknown>) => ({
           id: d.id,
           name: d.name,
           isRefreshable: d.isRefreshable,
@@ -93,8 +133,9 @@ export async function handler(
 
     case 'get_refresh_history': {
       if (!args.semanticModelId) throw new Error('semanticModelId é obrigatório');
-      const history = await client.getRefreshHistory(args.semanticModelId, args.workspaceId);
-      return { operation: 'get_refresh_history', refreshes: history };
+      const options = listOptionsFor(args);
+      const { items: refreshes, page } = toPage(await client.getRefreshHistory(args.semanticModelId, args.workspaceId, options), options);
+      return { operation: 'get_refresh_history', ...page, refreshes };
     }
 
     case 'delete': {
@@ -106,7 +147,131 @@ export async function handler(
       return { operation: 'delete', database: args.databaseName, status: 'deleted' };
     }
 
+    case 'deploy': {
+      if (!args.xmlaEndpoint) throw new Error('xmlaEndpoint é obrigatório para deploy');
+      let source: TmslDatabase;
+      if (args.sourcePath) {
+        source = await readModelDefinition(args.sourcePath);
+      } else if (args.sourceXmlaEndpoint && (args.sourceDatabaseName || isPbipEndpoint(args.sourceXmlaEndpoint))) {
+        source = await client.getModelDefinition(args.sourceXmlaEndpoint, args.sourceDatabaseName ?? '');
+      } else {
+        throw new Error('Informe sourcePath ou sourceXmlaEndpoint e sourceDatabaseName para deploy');
+      }
+
+      const databaseName = args.databaseName ?? source.name;
+      if (!databaseName) throw new Error('databaseName é obrigatório para deploy');
+      // Without databaseName the target comes from the source, which the policy did not see
+      checkAccessPolicy(definition.name, { xmlaEndpoint: args.xmlaEndpoint, databaseName }, context?.accessPolicy);
+      const target = await client.findModelDefinition(args.xmlaEndpoint, databaseName);
+      const warnings: string[] = [];
+      const model = prepareDeployment(source, target, args, warnings);
+
+      let tmsl: TmslDefinition | undefined;
+      let requiresRefresh: string[];
+      if (target) {
+        const script = buildSyncScript({ ...source, model }, target, databaseName);
+        tmsl = script.tmsl;
+        requiresRefresh = script.requiresRefresh;
+      } else {
+        // New database: nothing to diff against, the whole definition is created
+        const { name: _name, ...database } = source;
+        tmsl = {
+          createOrReplace: {
+            object: { database: databaseName },
+            database: { compatibilityLevel: 1605, ...database, name: databaseName, model }
+          }
+        };
+        requiresRefresh = ((model.tables as TmslDefinition[] | undefined) ?? []).map(t => String(t.name));
+      }
+
+      const result = {
+        operation: 'deploy',
+        database: databaseName,
+        targetExists: target !== undefined,
+        summary: target ? summarizeDiff(diffModels({ ...source, model }, target)) : undefined,
+        operationCount: tmsl ? ((tmsl.sequence as { operations?: unknown[] } | undefined)?.operations?.length ?? 1) : 0,
+        requiresRefresh,
+        warnings,
+        tmsl
+      };
+      if (!tmsl) return { ...result, status: 'up_to_date', message: 'O destino já está igual à origem.' };
+      if (args.dryRun) return { ...result, status: 'dry_run', message: 'Script gerado e não executado (dryRun).' };
+
+      await client.executeTmsl(args.xmlaEndpoint, tmsl);
+      return {
+        ...result,
+        status: 'deployed',
+        message: requiresRefresh.length > 0
+          ? 'Deploy concluído. Atualize (refresh) os objetos em requiresRefresh para carregar dados.'
+          : 'Deploy concluído.'
+      };
+    }
+
+    case 'export_tmdl': {
+      if (!args.xmlaEndpoint || !args.outputPath) {
+        throw new Error('xmlaEndpoint e outputPath são obrigatórios para export_tmdl');
+      }
+      // Projects know their own database; XMLA servers may host several
+      if (!args.databaseName && !isPbipEndpoint(args.xmlaEndpoint)) {
+        throw new Error('databaseName é obrigatório para export_tmdl em endpoints XMLA');
+      }
+      const database = await client.getModelDefinition(args.xmlaEndpoint, args.databaseName ?? '');
+      const files = await exportTmdlFolder(database, args.outputPath);
+      return {
+        operation: 'export_tmdl',
+        database: database.name ?? args.databaseName,
+        outputPath: args.outputPath,
+        fileCount: files.length,
+        files
+      };
+    }
+
     default:
       throw new Error(`Operação desconhecida: ${args.operation}`);
   }
 }
+
+// Applies the retain/skip options: the deployed model keeps the target's
+// version of the objects the caller asked to preserve
+function prepareDeployment(
+  source: TmslDatabase,
+  target: TmslDatabase | undefined,
+  options: { retainPartitions?: boolean; retainRoles?: boolean; retainRoleMembers?: boolean; skipDataSources?: boolean },
+  warnings: string[]
+): TmslDefinition {
+  const model: TmslDefinition = structuredClone(source.model);
+  const byName = (items: unknown) => new Map(
+    ((items as TmslDefinition[] | undefined) ?? []).map(item => [String(item.name).toLowerCase(), item])
+  );
+
+  if (!target) {
+    if (options.retainPartitions || options.retainRoles || options.retainRoleMembers || options.skipDataSources) {
+      warnings.push('O banco de destino não existe: as opções de retenção foram ignoradas e o modelo será criado por completo.');
+    }
+    return model;
+  }
+
+  if (options.retainPartitions) {
+    const targetTables = byName(target.model.tables);
+    for (const table of (model.tables as TmslDefinition[] | undefined) ?? []) {
+      const existing = targetTables.get(String(table.name).toLowerCase());
+      if (existing?.partitions) table.partitions = existing.partitions;
+    }
+  }
+
+  if (options.retainRoles) {
+    model.roles = target.model.roles;
+  } else if (options.retainRoleMembers) {
+    const targetRoles = byName(target.model.roles);
+    for (const role of (model.roles as TmslDefinition[] | undefined) ?? []) {
+      const existing = targetRoles.get(String(role.name).toLowerCase());
+      if (existing) role.members = existing.members;
+    }
+  }
+
+  if (options.skipDataSources) {
+    model.dataSources = target.model.dataSources;
+    model.expressions = target.model.expressions;
+  }
+  return model;
+}
@@ -1,5 +1,6 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { invalidDax } from '../toolErrors.js';
 
 export const definition: Tool = {
   name: 'dax_query_operations',
@@ -131,14 +132,14 @@ export async function handler(
 
     case 'validate_syntax': {
       try {
-        await client.executeQuery(args.semanticModelId, `EVALUATE TOPN(1, ${args.daxQuery})`);
+        await client.executeQuery(args.semanticModelId, `${VALIDATION_PREFIX}${args.daxQuery})`);
         return { operation: 'validate_syntax', valid: true, query: args.daxQuery };
       } catch (e) {
         return {
           operation: 'validate_syntax',
           valid: false,
           query: args.daxQuery,
-          error: e instanceof Error ? e.message : String(e)
+          ...invalidDax(e, VALIDATION_PREFIX)
         };
       }
     }
@@ -157,3 +158,6 @@ export async function handler(
       throw new Error(`Operação desconhecida: ${args.operation}`);
   }
 }
+
+// Validation wraps the expression; reported positions are mapped back onto it
+const VALIDATION_PREFIX = 'EVALUATE TOPN(1, ';
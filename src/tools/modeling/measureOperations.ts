@@ -1,5 +1,7 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { invalidDax } from '../toolErrors.js';
+import { OperationRequirements } from '../validation.js';
 
 export const definition: Tool = {
   name: 'measure_operations',
@@ -54,6 +56,16 @@ export const definition: Tool = {
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  list: ['xmlaEndpoint', 'databaseName'],
+  get: ['xmlaEndpoint', 'databaseName', 'measureName'],
+  create: ['xmlaEndpoint', 'databaseName', 'tableName', 'measureDefinition'],
+  update: ['xmlaEndpoint', 'databaseName', 'tableName', 'measureName', 'measureDefinition'],
+  delete: ['xmlaEndpoint', 'databaseName', 'tableName', 'measureName'],
+  validate_dax: ['daxExpression', 'semanticModelId'],
+  document: ['xmlaEndpoint', 'databaseName']
+};
+
 export async function handler(
   args: {
     operation: string;
@@ -148,7 +160,7 @@ export async function handler(
       // Use a simple EVALUATE to test DAX syntax
       if (!args.semanticModelId) throw new Error('semanticModelId é obrigatório para validate_dax');
       try {
-        const testQuery = `EVALUATE ROW("test", ${args.daxExpression})`;
+        const testQuery = `${VALIDATION_PREFIX}${args.daxExpression})`;
         await client.executeQuery(args.semanticModelId, testQuery);
         return { operation: 'validate_dax', valid: true, expression: args.daxExpression };
       } catch (e) {
@@ -156,7 +168,7 @@ export async function handler(
           operation: 'validate_dax',
           valid: false,
           expression: args.daxExpression,
-          error: e instanceof Error ? e.message : String(e)
+          ...invalidDax(e, VALIDATION_PREFIX)
         };
       }
     }
@@ -188,3 +200,6 @@ export async function handler(
       throw new Error(`Operação desconhecida: ${args.operation}`);
   }
 }
+
+// Validation wraps the expression; reported positions are mapped back onto it
+const VALIDATION_PREFIX = 'EVALUATE ROW("test", ';
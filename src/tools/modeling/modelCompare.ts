@@ -0,0 +1,108 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { PowerBiClient } from '../powerbiClient.js';
+import { TmslDatabase } from '../../types/index.js';
+import { isPbipEndpoint, readModelDefinition } from '../pbip/pbipProject.js';
+import { buildSyncScript, diffModels, hasDifferences, summarizeDiff } from '../modelDiff.js';
+
+// ============================================================
+// Model compare
+// Diffs two semantic models (XMLA, Power BI Desktop or files)
+// and generates the TMSL that brings the target in line with
+// the source — e.g. before promoting dev → homolog → prod.
+// ============================================================
+
+const MODEL_SOURCE = {
+  type: 'object',
+  properties: {
+    xmlaEndpoint: { type: 'string', description: 'Endpoint XMLA (powerbi://, asazure:// ou pbip://)' },
+    databaseName: { type: 'string', description: 'Nome do banco de dados (obrigatório para endpoints XMLA; opcional no Desktop)' },
+    port: { type: 'number', description: 'Porta do Power BI Desktop local' },
+    path: { type: 'string', description: 'Arquivo .bim, pasta TMDL ou projeto PBIP' }
+  }
+};
+
+export const definition: Tool = {
+  name: 'model_compare',
+  description: `Compara dois modelos semânticos e retorna as diferenças em tabelas, colunas, medidas (incluindo mudanças de expressão), relacionamentos, funções e partições, além de fontes de dados, expressões compartilhadas, perspectivas e culturas.
+Cada lado pode ser um banco XMLA (xmlaEndpoint + databaseName), o Power BI Desktop local (port) ou um arquivo (path: .bim, pasta TMDL ou projeto PBIP).
+Gera também um script TMSL (sequence) que deixa o destino igual à origem. O script não é executado.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      source: { ...MODEL_SOURCE, description: 'Modelo de origem (ex: dev)' },
+      target: { ...MODEL_SOURCE, description: 'Modelo de destino a ser atualizado (ex: prod)' },
+      includeScript: { type: 'boolean', description: 'Gerar o script TMSL de sincronização (padrão: true)' }
+    },
+    required: ['source', 'target']
+  }
+};
+
+interface ModelSource {
+  xmlaEndpoint?: string;
+  databaseName?: string;
+  port?: number;
+  path?: string;
+}
+
+export async function handler(
+  args: { source: ModelSource; target: ModelSource; includeScript?: boolean },
+  client: PowerBiClient
+): Promise<unknown> {
+  if (!args.source || !args.target) throw new Error('source e target são obrigatórios');
+
+  // Sequential: both sides may be the same throttled capacity or Desktop instance
+  const source = await loadModel(args.source, client, 'source');
+  const target = await loadModel(args.target, client, 'target');
+
+  const diff = diffModels(source, target);
+  const identical = !hasDifferences(diff);
+  const targetDatabase = args.target.databaseName ?? target.name ?? '';
+  const script = identical || args.includeScript === false ? undefined : buildSyncScript(source, target, targetDatabase);
+
+  return {
+    source: describe(args.source, source),
+    target: describe(args.target, target),
+    identical,
+    summary: summarizeDiff(diff),
+    diff,
+    script: script && {
+      databaseName: targetDatabase,
+      operationCount: script.operationCount,
+      requiresRefresh: script.requiresRefresh,
+      tmsl: script.tmsl
+    },
+    message: identical
+      ? 'Os modelos são equivalentes.'
+      : 'Revise as diferenças antes de aplicar o script no destino (ex: via transaction_operations ou database_operations).'
+  };
+}
+
+async function loadModel(spec: ModelSource, client: PowerBiClient, side: string): Promise<TmslDatabase> {
+  if (spec.path) return readModelDefinition(spec.path);
+
+  if (spec.port) {
+    const endpoint = `localhost:${spec.port}`;
+    // Desktop hosts a single model whose name is a generated ID
+    const databaseName = spec.databaseName
+      ?? (await client.discover(endpoint, 'DBSCHEMA_CATALOGS', {}))[0]?.CATALOG_NAME as string | undefined;
+    if (!databaseName) throw new Error(`Nenhum modelo encontrado na porta ${spec.port} (${side}).`);
+    return client.getModelDefinition(endpoint, databaseName);
+  }
+
+  if (spec.xmlaEndpoint) {
+    if (!spec.databaseName && !isPbipEndpoint(spec.xmlaEndpoint)) {
+      throw new Error(`databaseName é obrigatório para o endpoint XMLA de ${side}.`);
+    }
+    return client.getModelDefinition(spec.xmlaEndpoint, spec.databaseName ?? '');
+  }
+
+  throw new Error(`Informe xmlaEndpoint, port ou path em ${side}.`);
+}
+
+function describe(spec: ModelSource, model: TmslDatabase): Record<string, unknown> {
+  return {
+    location: spec.path ?? (spec.port ? `localhost:${spec.port}` : spec.xmlaEndpoint),
+    databaseName: model.name ?? spec.databaseName,
+    compatibilityLevel: model.compatibilityLevel
+  };
+}
@@ -1,5 +1,6 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { OperationRequirements } from '../validation.js';
 
 export const definition: Tool = {
   name: 'partition_operations',
@@ -37,6 +38,11 @@ export const definition: Tool = {
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  create: ['partitionDefinition'],
+  delete: ['partitionName']
+};
+
 export async function handler(
   args: {
     operation: string;
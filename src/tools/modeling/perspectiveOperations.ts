@@ -0,0 +1,365 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { PowerBiClient } from '../powerbiClient.js';
+import { OperationRequirements } from '../validation.js';
+
+export const definition: Tool = {
+  name: 'perspective_operations',
+  description:
+    'Lista, cria, atualiza e exclui perspectivas do modelo semântico, e adiciona ou remove tabelas, colunas, medidas e hierarquias de uma perspectiva via TMSL.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      operation: {
+        type: 'string',
+        enum: ['list', 'get', 'create', 'update', 'delete', 'add_objects', 'remove_objects'],
+        description: 'Operação a executar'
+      },
+      xmlaEndpoint: { type: 'string', description: 'Endpoint XMLA' },
+      databaseName: { type: 'string', description: 'Nome do banco de dados' },
+      perspectiveName: { type: 'string', description: 'Nome da perspectiva (para get, update, delete, add_objects, remove_objects)' },
+      perspectiveDefinition: {
+        type: 'object',
+        description: 'Definição da perspectiva (para create e update)',
+        properties: {
+          name: { type: 'string', description: 'Nome da perspectiva' },
+          description: { type: 'string', description: 'Descrição da perspectiva' }
+        }
+      },
+      objects: {
+        type: 'array',
+        description: 'Objetos a adicionar/remover da perspectiva (também aceito em create como conteúdo inicial)',
+        items: {
+          type: 'object',
+          properties: {
+            objectType: {
+              type: 'string',
+              enum: ['table', 'column', 'measure', 'hierarchy'],
+              description: 'Tipo do objeto. "table" inclui a tabela inteira'
+            },
+            tableName: { type: 'string', description: 'Tabela do objeto' },
+            objectName: { type: 'string', description: 'Nome da coluna, medida ou hierarquia (não usado para table)' }
+          },
+          required: ['objectType', 'tableName']
+        }
+      }
+    },
+    required: ['operation', 'xmlaEndpoint', 'databaseName']
+  }
+};
+
+export const requiredByOperation: OperationRequirements = {
+  get: ['perspectiveName'],
+  create: ['perspectiveDefinition'],
+  update: ['perspectiveName', 'perspectiveDefinition'],
+  delete: ['perspectiveName'],
+  add_objects: ['perspectiveName', 'objects'],
+  remove_objects: ['perspectiveName', 'objects']
+};
+
+type MemberKind = 'column' | 'measure' | 'hierarchy';
+
+interface PerspectiveObject {
+  objectType: 'table' | MemberKind;
+  tableName: string;
+  objectName?: string;
+}
+
+interface PerspectiveTable {
+  name: string;
+  includeAll: boolean;
+  columns: string[];
+  measures: string[];
+  hierarchies: string[];
+}
+
+interface Perspective {
+  name: string;
+  description?: string;
+  tables: PerspectiveTable[];
+}
+
+interface ModelObjects {
+  tableNames: Map<string, string>;
+  // tableName -> member names per kind
+  members: Map<string, Record<MemberKind, string[]>>;
+  memberNames: Record<MemberKind, Map<string, string>>;
+}
+
+const MEMBER_LISTS: Record<MemberKind, 'columns' | 'measures' | 'hierarchies'> = {
+  column: 'columns',
+  measure: 'measures',
+  hierarchy: 'hierarchies'
+};
+
+// ---- Discover helpers ----
+
+async function loadModelObjects(client: PowerBiClient, xmlaEndpoint: string, databaseName: string): Promise<ModelObjects> {
+  const restrictions = { DatabaseName: databaseName };
+  const [tables, columns, measures, hierarchies] = await Promise.all([
+    client.discover(xmlaEndpoint, 'TMSCHEMA_TABLES', restrictions),
+    client.discover(xmlaEndpoint, 'TMSCHEMA_COLUMNS', restrictions),
+    client.discover(xmlaEndpoint, 'TMSCHEMA_MEASURES', restrictions),
+    client.discover(xmlaEndpoint, 'TMSCHEMA_HIERARCHIES', restrictions)
+  ]);
+
+  const tableNames = new Map(tables.map(t => [String(t.ID), String(t.Name)]));
+  const members = new Map<string, Record<MemberKind, string[]>>();
+  for (const name of tableNames.values()) {
+    members.set(name, { column: [], measure: [], hierarchy: [] });
+  }
+
+  const memberNames: Record<MemberKind, Map<string, string>> = {
+    column: new Map(),
+    measure: new Map(),
+    hierarchy: new Map()
+  };
+  const register = (kind: MemberKind, rows: Record<string, unknown>[], nameOf: (row: Record<string, unknown>) => unknown) => {
+    for (const row of rows) {
+      const name = String(nameOf(row));
+      memberNames[kind].set(String(row.ID), name);
+      members.get(tableNames.get(String(row.TableID)) ?? '')?.[kind].push(name);
+    }
+  };
+  // Skip the internal RowNumber column (Type 3), which never appears in perspectives
+  register('column', columns.filter(c => Number(c.Type) !== 3), c => c.ExplicitName ?? c.Name);
+  register('measure', measures, m => m.Name);
+  register('hierarchy', hierarchies, h => h.Name);
+
+  return { tableNames, members, memberNames };
+}
+
+async function loadPerspectives(
+  client: PowerBiClient,
+  xmlaEndpoint: string,
+  databaseName: string,
+  model: ModelObjects
+): Promise<Perspective[]> {
+  const restrictions = { DatabaseName: databaseName };
+  const [perspectives, pTables, pColumns, pMeasures, pHierarchies] = await Promise.all([
+    client.discover(xmlaEndpoint, 'TMSCHEMA_PERSPECTIVES', restrictions),
+    client.discover(xmlaEndpoint, 'TMSCHEMA_PERSPECTIVE_TABLES', restrictions),
+    client.discover(xmlaEndpoint, 'TMSCHEMA_PERSPECTIVE_COLUMNS', restrictions),
+    client.discover(xmlaEndpoint, 'TMSCHEMA_PERSPECTIVE_MEASURES', restrictions),
+    client.discover(xmlaEndpoint, 'TMSCHEMA_PERSPECTIVE_HIERARCHIES', restrictions)
+  ]);
+
+  const tablesById = new Map<string, PerspectiveTable>();
+  const tablesByPerspective = new Map<string, PerspectiveTable[]>();
+  for (const row of pTables) {
+    const table: PerspectiveTable = {
+      name: model.tableNames.get(String(row.TableID)) ?? String(row.TableID),
+      includeAll: row.IncludeAll === true || row.IncludeAll === 'true',
+      columns: [],
+      measures: [],
+      hierarchies: []
+    };
+    tablesById.set(String(row.ID), table);
+    const list = tablesByPerspective.get(String(row.PerspectiveID)) ?? [];
+    list.push(table);
+    tablesByPerspective.set(String(row.PerspectiveID), list);
+  }
+
+  const attach = (kind: MemberKind, rows: Record<string, unknown>[], idColumn: string) => {
+    for (const row of rows) {
+      const table = tablesById.get(String(row.PerspectiveTableID));
+      const name = model.memberNames[kind].get(String(row[idColumn]));
+      if (table && name) table[MEMBER_LISTS[kind]].push(name);
+    }
+  };
+  attach('column', pColumns, 'ColumnID');
+  attach('measure', pMeasures, 'MeasureID');
+  attach('hierarchy', pHierarchies, 'HierarchyID');
+
+  return perspectives.map(p => ({
+    name: String(p.Name),
+    description: p.Description ? String(p.Description) : undefined,
+    tables: tablesByPerspective.get(String(p.ID)) ?? []
+  }));
+}
+
+async function getPerspective(
+  client: PowerBiClient,
+  xmlaEndpoint: string,
+  databaseName: string,
+  perspectiveName: string
+): Promise<{ perspective: Perspective; model: ModelObjects }> {
+  const model = await loadModelObjects(client, xmlaEndpoint, databaseName);
+  const perspectives = await loadPerspectives(client, xmlaEndpoint, databaseName, model);
+  const perspective = perspectives.find(p => p.name === perspectiveName);
+  if (!perspective) throw new Error(`Perspectiva '${perspectiveName}' não encontrada em ${databaseName}`);
+  return { perspective, model };
+}
+
+// ---- Membership editing ----
+
+function findOrAddTable(perspective: Perspective, tableName: string): PerspectiveTable {
+  let table = perspective.tables.find(t => t.name === tableName);
+  if (!table) {
+    table = { name: tableName, includeAll: false, columns: [], measures: [], hierarchies: [] };
+    perspective.tables.push(table);
+  }
+  return table;
+}
+
+function addObjects(perspective: Perspective, objects: PerspectiveObject[], model: ModelObjects): void {
+  for (const obj of objects) {
+    if (!model.members.has(obj.tableName)) throw new Error(`Tabela '${obj.tableName}' não existe no modelo`);
+    const table = findOrAddTable(perspective, obj.tableName);
+    if (obj.objectType === 'table') {
+      table.includeAll = true;
+      continue;
+    }
+    if (!obj.objectName) throw new Error(`objectName é obrigatório para objetos do tipo ${obj.objectType}`);
+    const list = table[MEMBER_LISTS[obj.objectType]];
+    if (!list.includes(obj.objectName)) list.push(obj.objectName);
+  }
+}
+
+function removeObjects(perspective: Perspective, objects: PerspectiveObject[], model: ModelObjects): void {
+  for (const obj of objects) {
+    const table = perspective.tables.find(t => t.name === obj.tableName);
+    if (!table) continue;
+    if (obj.objectType === 'table') {
+      perspective.tables = perspective.tables.filter(t => t !== table);
+      continue;
+    }
+    if (!obj.objectName) throw new Error(`objectName é obrigatório para objetos do tipo ${obj.objectType}`);
+    if (table.includeAll) {
+      // Removing one member from a whole-table entry means listing the rest explicitly
+      const all = model.members.get(table.name)!;
+      table.includeAll = false;
+      table.columns = [...all.column];
+      table.measures = [...all.measure];
+      table.hierarchies = [...all.hierarchy];
+    }
+    const key = MEMBER_LISTS[obj.objectType];
+    table[key] = table[key].filter(name => name !== obj.objectName);
+  }
+}
+
+function toTmslPerspective(perspective: Perspective): Record<string, unknown> {
+  return {
+    name: perspective.name,
+    ...(perspective.description && { description: perspective.description }),
+    perspectiveTables: perspective.tables.map(t => ({
+      name: t.name,
+      ...(t.includeAll && { includeAll: true }),
+      ...(t.columns.length && { perspectiveColumns: t.columns.map(name => ({ name })) }),
+      ...(t.measures.length && { perspectiveMeasures: t.measures.map(name => ({ name })) }),
+      ...(t.hierarchies.length && { perspectiveHierarchies: t.hierarchies.map(name => ({ name })) })
+    }))
+  };
+}
+
+async function savePerspective(
+  client: PowerBiClient,
+  xmlaEndpoint: string,
+  databaseName: string,
+  perspective: Perspective
+): Promise<void> {
+  const tmsl = {
+    createOrReplace: {
+      object: { database: databaseName, perspective: perspective.name },
+      perspective: toTmslPerspective(perspective)
+    }
+  };
+  await client.executeTmsl(xmlaEndpoint, tmsl);
+}
+
+// ---- Main handler ----
+
+export async function handler(
+  args: {
+    operation: string;
+    xmlaEndpoint: string;
+    databaseName: string;
+    perspectiveName?: string;
+    perspectiveDefinition?: { name?: string; description?: string };
+    objects?: PerspectiveObject[];
+  },
+  client: PowerBiClient
+): Promise<unknown> {
+  switch (args.operation) {
+    case 'list': {
+      const model = await loadModelObjects(client, args.xmlaEndpoint, args.databaseName);
+      const perspectives = await loadPerspectives(client, args.xmlaEndpoint, args.databaseName, model);
+      return {
+        operation: 'list',
+        count: perspectives.length,
+        perspectives: perspectives.map(p => ({
+          name: p.name,
+          description: p.description,
+          tableCount: p.tables.length
+        }))
+      };
+    }
+
+    case 'get': {
+      if (!args.perspectiveName) throw new Error('perspectiveName é obrigatório para get');
+      const { perspective } = await getPerspective(client, args.xmlaEndpoint, args.databaseName, args.perspectiveName);
+      return { operation: 'get', perspective };
+    }
+
+    case 'create': {
+      if (!args.perspectiveDefinition?.name) throw new Error('perspectiveDefinition.name é obrigatório para create');
+      const perspective: Perspective = {
+        name: args.perspectiveDefinition.name,
+        description: args.perspectiveDefinition.description,
+        tables: []
+      };
+      if (args.objects?.length) {
+        const model = await loadModelObjects(client, args.xmlaEndpoint, args.databaseName);
+        addObjects(perspective, args.objects, model);
+      }
+      await savePerspective(client, args.xmlaEndpoint, args.databaseName, perspective);
+      return { operation: 'create', perspective: perspective.name, tableCount: perspective.tables.length, status: 'created' };
+    }
+
+    case 'update': {
+      if (!args.perspectiveName || !args.perspectiveDefinition) {
+        throw new Error('perspectiveName e perspectiveDefinition são obrigatórios para update');
+      }
+      const tmsl = {
+        alter: {
+          object: { database: args.databaseName, perspective: args.perspectiveName },
+          perspective: args.perspectiveDefinition
+        }
+      };
+      await client.executeTmsl(args.xmlaEndpoint, tmsl);
+      return { operation: 'update', perspective: args.perspectiveName, status: 'updated' };
+    }
+
+    case 'delete': {
+      if (!args.perspectiveName) throw new Error('perspectiveName é obrigatório para delete');
+      const tmsl = { delete: { object: { database: args.databaseName, perspective: args.perspectiveName } } };
+      await client.executeTmsl(args.xmlaEndpoint, tmsl);
+      return { operation: 'delete', perspective: args.perspectiveName, status: 'deleted' };
+    }
+
+    case 'add_objects':
+    case 'remove_objects': {
+      if (!args.perspectiveName || !args.objects?.length) {
+        throw new Error(`perspectiveName e objects são obrigatórios para ${args.operation}`);
+      }
+      const { perspective, model } = await getPerspective(
+        client, args.xmlaEndpoint, args.databaseName, args.perspectiveName
+      );
+      if (args.operation === 'add_objects') {
+        addObjects(perspective, args.objects, model);
+      } else {
+        removeObjects(perspective, args.objects, model);
+      }
+      await savePerspective(client, args.xmlaEndpoint, args.databaseName, perspective);
+      return {
+        operation: args.operation,
+        perspective: perspective.name,
+        count: args.objects.length,
+        tables: perspective.tables,
+        status: 'updated'
+      };
+    }
+
+    default:
+      throw new Error(`Operação desconhecida: ${args.operation}`);
+  }
+}
@@ -1,5 +1,6 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { OperationRequirements } from '../validation.js';
 
 export const definition: Tool = {
   name: 'relationship_operations',
@@ -42,6 +43,15 @@ export const definition: Tool = {
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  list: ['xmlaEndpoint', 'databaseName'],
+  create: ['xmlaEndpoint', 'databaseName', 'relationshipDefinition'],
+  update: ['xmlaEndpoint', 'databaseName', 'relationshipName', 'relationshipDefinition'],
+  delete: ['xmlaEndpoint', 'databaseName', 'relationshipName'],
+  activate: ['xmlaEndpoint', 'databaseName', 'relationshipName'],
+  deactivate: ['xmlaEndpoint', 'databaseName', 'relationshipName']
+};
+
 export async function handler(
   args: {
     operation: string;
@@ -1,5 +1,6 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { OperationRequirements } from '../validation.js';
 
 export const definition: Tool = {
   name: 'security_role_operations',
@@ -47,6 +48,13 @@ export const definition: Tool = {
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  list: ['xmlaEndpoint', 'databaseName'],
+  create: ['xmlaEndpoint', 'databaseName', 'roleDefinition'],
+  update: ['xmlaEndpoint', 'databaseName', 'roleName', 'roleDefinition'],
+  delete: ['xmlaEndpoint', 'databaseName', 'roleName']
+};
+
 export async function handler(
   args: {
     operation: string;
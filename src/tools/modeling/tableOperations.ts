@@ -1,5 +1,6 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { OperationRequirements } from '../validation.js';
 
 export const definition: Tool = {
   name: 'table_operations',
@@ -40,6 +41,16 @@ export const definition: Tool = {
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  list: ['xmlaEndpoint', 'databaseName'],
+  get: ['xmlaEndpoint', 'databaseName', 'tableName'],
+  create: ['xmlaEndpoint', 'databaseName', 'tableDefinition'],
+  update: ['xmlaEndpoint', 'databaseName', 'tableName', 'tableDefinition'],
+  delete: ['xmlaEndpoint', 'databaseName', 'tableName'],
+  hide: ['xmlaEndpoint', 'databaseName', 'tableName'],
+  unhide: ['xmlaEndpoint', 'databaseName', 'tableName']
+};
+
 export async function handler(
   args: {
     operation: string;
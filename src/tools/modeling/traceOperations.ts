@@ -1,5 +1,6 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { OperationRequirements } from '../validation.js';
 
 export const definition: Tool = {
   name: 'trace_operations',
@@ -20,6 +21,11 @@ export const definition: Tool = {
   }
 };
 
+export const requiredByOperation: OperationRequirements = {
+  analyze_query: ['semanticModelId', 'daxQuery'],
+  get_refresh_history: ['semanticModelId']
+};
+
 export async function handler(
   args: {
     operation: string;
@@ -0,0 +1,213 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { PowerBiClient, ModelTransaction } from '../powerbiClient.js';
+import { UndoEntry } from '../undoJournal.js';
+import { OperationRequirements } from '../validation.js';
+import { ToolContext } from '../../types/index.js';
+import { checkAccessPolicy } from '../../config/accessPolicy.js';
+
+export const definition: Tool = {
+  name: 'transaction_operations',
+  description:
+    'Controla transações no modelo semântico: após begin, os comandos de tabelas, colunas, medidas e relacionamentos enviados ao mesmo endpoint XMLA ficam pendentes e são aplicados de forma atômica no commit (ou descartados no rollback). ' +
+    'Também desfaz alterações: cada chamada que modifica um modelo registra no histórico o TMSL que restaura o estado anterior; undo_last reverte a última e undo reverte uma entrada específica (undoId).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      operation: {
+        type: 'string',
+        enum: ['begin', 'commit', 'rollback', 'status', 'history', 'undo_last', 'undo'],
+        description: 'Operação de transação a executar'
+      },
+      xmlaEndpoint: {
+        type: 'string',
+        description: 'Endpoint XMLA da transação (obrigatório para begin, commit e rollback)'
+      },
+      databaseName: {
+        type: 'string',
+        description: 'Nome do banco de dados/modelo (informativo, usado no begin)'
+      },
+      undoId: {
+        type: 'string',
+        description: 'ID da entrada do histórico a desfazer (para undo)'
+      },
+      force: {
+        type: 'boolean',
+        description: 'Desfazer mesmo havendo alterações posteriores no mesmo modelo, que também podem ser afetadas'
+      }
+    },
+    required: ['operation']
+  }
+};
+
+export const requiredByOperation: OperationRequirements = {
+  begin: ['xmlaEndpoint'],
+  commit: ['xmlaEndpoint'],
+  rollback: ['xmlaEndpoint'],
+  undo: ['undoId']
+};
+
+function summarize(transaction: ModelTransaction) {
+  return {
+    transactionId: transaction.id,
+    xmlaEndpoint: transaction.xmlaEndpoint,
+    databaseName: transaction.databaseName,
+    startedAt: transaction.startedAt,
+    pendingCommands: transaction.commands.length
+  };
+}
+
+export async function handler(
+  args: {
+    operation: string;
+    xmlaEndpoint?: string;
+    databaseName?: string;
+    undoId?: string;
+    force?: boolean;
+  },
+  client: PowerBiClient,
+  context?: ToolContext
+): Promise<unknown> {
+  if (['history', 'undo_last', 'undo'].includes(args.operation)) return handleUndo(args, client, context);
+  if (args.operation !== 'status' && !args.xmlaEndpoint) {
+    throw new Error('xmlaEndpoint é obrigatório para esta operação de transação');
+  }
+
+  switch (args.operation) {
+    case 'begin': {
+      const transaction = client.beginTransaction(args.xmlaEndpoint!, args.databaseName);
+      return {
+        operation: 'begin',
+        ...summarize(transaction),
+        status: 'open',
+        message: 'Transação iniciada. Os próximos comandos de modificação neste endpoint serão enfileirados até o commit.'
+      };
+    }
+
+    case 'commit': {
+      const transaction = await client.commitTransaction(args.xmlaEndpoint!);
+      return {
+        operation: 'commit',
+        ...summarize(transaction),
+        status: 'committed',
+        message: `${transaction.commands.length} comando(s) aplicado(s) em um único lote.`
+      };
+    }
+
+    case 'rollback': {
+      const transaction = client.rollbackTransaction(args.xmlaEndpoint!);
+      return {
+        operation: 'rollback',
+        ...summarize(transaction),
+        status: 'rolled_back',
+        message: `${transaction.commands.length} comando(s) pendente(s) descartado(s).`
+      };
+    }
+
+    case 'status': {
+      if (args.xmlaEndpoint) {
+        const transaction = client.getTransaction(args.xmlaEndpoint);
+        return transaction
+          ? { operation: 'status', ...summarize(transaction), status: 'open', commands: transaction.commands }
+          : { operation: 'status', xmlaEndpoint: args.xmlaEndpoint, status: 'none' };
+      }
+      const transactions = client.listTransactions();
+      return { operation: 'status', count: transactions.length, transactions: transactions.map(summarize) };
+    }
+
+    default:
+      throw new Error(`Operação desconhecida: ${args.operation}`);
+  }
+}
+
+// ---- Undo ----
+
+// Journal collections whose names are "Tabela[Objeto]"
+const TABLE_CHILDREN = ['columns', 'measures', 'partitions'];
+
+function describeEntry(entry: UndoEntry) {
+  return {
+    undoId: entry.id,
+    timestamp: entry.timestamp,
+    tool: entry.tool,
+    operation: entry.operation,
+    xmlaEndpoint: entry.xmlaEndpoint,
+    databaseName: entry.databaseName,
+    changes: entry.changes,
+    ...(entry.undoOf && { undoOf: entry.undoOf }),
+    ...(entry.undoneAt && { undoneAt: entry.undoneAt })
+  };
+}
+
+// What replaying an entry touches: its model and the tables it changed,
+// including the tables of changed children ("Tabela[Coluna]")
+function entryTargets(entry: UndoEntry): Record<string, unknown> {
+  const tables = new Set<string>();
+  for (const [collection, changes] of Object.entries(entry.changes)) {
+    if (!['tables', ...TABLE_CHILDREN].includes(collection)) continue;
+    for (const name of [...changes.added, ...changes.removed, ...changes.changed]) {
+      tables.add(collection === 'tables' ? name : name.slice(0, name.lastIndexOf('[')));
+    }
+  }
+  return {
+    xmlaEndpoint: entry.xmlaEndpoint,
+    databaseName: entry.databaseName,
+    tables: [...tables].map(tableName => ({ tableName }))
+  };
+}
+
+async function handleUndo(
+  args: { operation: string; xmlaEndpoint?: string; undoId?: string; force?: boolean },
+  client: PowerBiClient,
+  context?: ToolContext
+): Promise<unknown> {
+  if (args.operation === 'history') {
+    const entries = client.undoJournal.list(args.xmlaEndpoint).filter(entry => {
+      try {
+        checkAccessPolicy(definition.name, entryTargets(entry), context?.accessPolicy);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+    return { operation: 'history', count: entries.length, entries: entries.map(describeEntry) };
+  }
+
+  let entry: UndoEntry | undefined;
+  if (args.operation === 'undo') {
+    if (!args.undoId) throw new Error('undoId é obrigatório para undo. Use history para listar as entradas.');
+    entry = client.undoJournal.get(args.undoId);
+    if (!entry) throw new Error(`Entrada '${args.undoId}' não encontrada no histórico. Use history para listar as entradas.`);
+    if (entry.undoneAt) throw new Error(`A entrada '${entry.id}' já foi desfeita em ${entry.undoneAt}.`);
+  } else {
+    entry = client.undoJournal.lastUndoable(args.xmlaEndpoint);
+    if (!entry) throw new Error('Nenhuma alteração a desfazer no histórico.');
+  }
+
+  // The entry's model never appears in the arguments, so the policy the call
+  // was checked against did not see it
+  checkAccessPolicy(definition.name, entryTargets(entry), context?.accessPolicy);
+  if (client.getTransaction(entry.xmlaEndpoint)) {
+    throw new Error('Há uma transação aberta neste endpoint. Faça commit ou rollback antes de desfazer.');
+  }
+  const later = client.undoJournal.laterThan(entry);
+  if (later.length > 0 && !args.force) {
+    throw new Error(
+      `O modelo '${entry.databaseName}' foi alterado depois desta entrada (${later.map(e => e.id).join(', ')}). ` +
+      'Desfaça essas alterações primeiro ou use force: true.'
+    );
+  }
+
+  client.undoJournal.markAsUndo(entry.id);
+  const result = await client.executeTmsl(entry.xmlaEndpoint, entry.inverse);
+  client.undoJournal.markUndone(entry);
+  return {
+    ...describeEntry(entry),
+    undoOperation: args.operation,
+    status: 'undone',
+    result,
+    ...(entry.requiresRefresh.length > 0 && {
+      requiresRefresh: entry.requiresRefresh,
+      message: 'Objetos recriados ficam sem dados até o próximo refresh.'
+    })
+  };
+}
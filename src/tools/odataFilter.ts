@@ -0,0 +1,153 @@
+import { ToolError } from './toolErrors.js';
+
+// ============================================================
+// OData $filter subset
+// The Power BI list APIs accept $filter only on some endpoints
+// (workspaces); dataset and refresh lists are filtered locally
+// with the same syntax: eq/ne/gt/ge/lt/le, contains, startswith,
+// endswith, and/or/not and parentheses. String comparisons
+// ignore case.
+// ============================================================
+
+type Predicate = (item: Record<string, unknown>) => boolean;
+type Literal = string | number | boolean | null;
+
+const COMPARISONS = ['eq', 'ne', 'gt', 'ge', 'lt', 'le'];
+const FUNCTIONS = ['contains', 'startswith', 'endswith'];
+
+// Parenthesis, comma, quoted string ('' escapes a quote), identifier/path, number or date
+const TOKEN = /\s*(\(|\)|,|'(?:[^']|'')*'|[A-Za-z_][\w/]*|-?\d[\w:.+-]*)/y;
+
+export function compileFilter(filter: string): Predicate {
+  const tokens = tokenize(filter);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next()?.toLowerCase() !== token) fail(`esperado '${token}'`);
+  };
+  const fail = (reason: string): never => {
+    throw new ToolError('VALIDATION_ERROR', `Filtro inválido '${filter}': ${reason}.`, {
+      hint: "Use a sintaxe OData $filter, ex.: contains(name,'Vendas') and isReadOnly eq false."
+    });
+  };
+
+  const parseOr = (): Predicate => {
+    let left = parseAnd();
+    while (peek()?.toLowerCase() === 'or') {
+      next();
+      const a = left, b = parseAnd();
+      left = item => a(item) || b(item);
+    }
+    return left;
+  };
+  const parseAnd = (): Predicate => {
+    let left = parseUnary();
+    while (peek()?.toLowerCase() === 'and') {
+      next();
+      const a = left, b = parseUnary();
+      left = item => a(item) && b(item);
+    }
+    return left;
+  };
+  const parseUnary = (): Predicate => {
+    const token = next();
+    if (token === undefined) return fail('expressão incompleta');
+    if (token.toLowerCase() === 'not') {
+      const inner = parseUnary();
+      return item => !inner(item);
+    }
+    if (token === '(') {
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    if (FUNCTIONS.includes(token.toLowerCase())) {
+      expect('(');
+      const field = parseField();
+      expect(',');
+      const literal = String(parseLiteral() ?? '').toLowerCase();
+      expect(')');
+      const fn = token.toLowerCase();
+      return item => {
+        const value = String(readField(item, field) ?? '').toLowerCase();
+        return fn === 'contains' ? value.includes(literal) : fn === 'startswith' ? value.startsWith(literal) : value.endsWith(literal);
+      };
+    }
+    const field = token;
+    if (!/^[A-Za-z_]/.test(field)) fail(`esperado um campo, recebido '${field}'`);
+    const operator = next()?.toLowerCase();
+    if (!operator || !COMPARISONS.includes(operator)) fail(`esperado um operador (${COMPARISONS.join(', ')}) após '${field}'`);
+    const literal = parseLiteral();
+    return item => compare(readField(item, field), operator!, literal);
+  };
+  const parseField = (): string => {
+    const token = next();
+    if (!token || !/^[A-Za-z_]/.test(token)) fail('esperado um campo');
+    return token!;
+  };
+  const parseLiteral = (): Literal => {
+    const token = next();
+    if (token === undefined) return fail('esperado um valor');
+    if (token.startsWith("'")) return token.slice(1, -1).replace(/''/g, "'");
+    if (token === 'true' || token === 'false') return token === 'true';
+    if (token === 'null') return null;
+    if (/^-?\d+(\.\d+)?$/.test(token)) return Number(token);
+    if (/^\d{4}-\d{2}-\d{2}/.test(token)) return token;
+    return fail(`valor inválido '${token}'`);
+  };
+
+  const predicate = parseOr();
+  if (position < tokens.length) fail(`trecho inesperado '${tokens[position]}'`);
+  return predicate;
+}
+
+function tokenize(filter: string): string[] {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < filter.length) {
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(filter);
+    if (!match) {
+      if (!filter.slice(start).trim()) break;
+      throw new ToolError('VALIDATION_ERROR', `Filtro inválido '${filter}': caractere inesperado na posição ${start + 1}.`);
+    }
+    tokens.push(match[1]);
+  }
+  return tokens;
+}
+
+// a/b reads property b of the nested object a
+function readField(item: Record<string, unknown>, field: string): unknown {
+  return field.split('/').reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    item
+  );
+}
+
+function compare(value: unknown, operator: string, literal: Literal): boolean {
+  if (operator === 'eq' || operator === 'ne') {
+    const equal = typeof value === 'string' && typeof literal === 'string'
+      ? value.toLowerCase() === literal.toLowerCase()
+      : (value ?? null) === literal;
+    return operator === 'eq' ? equal : !equal;
+  }
+  if (value === undefined || value === null || literal === null) return false;
+  const order = orderOf(value, literal);
+  switch (operator) {
+    case 'gt': return order > 0;
+    case 'ge': return order >= 0;
+    case 'lt': return order < 0;
+    default: return order <= 0;
+  }
+}
+
+// Numbers numerically, dates by time, anything else as text
+function orderOf(value: unknown, literal: Exclude<Literal, null>): number {
+  if (typeof value === 'number' && typeof literal === 'number') return value - literal;
+  const a = Date.parse(String(value));
+  const b = Date.parse(String(literal));
+  if (typeof literal === 'string' && /^\d{4}-\d{2}-\d{2}/.test(literal) && !Number.isNaN(a) && !Number.isNaN(b)) return a - b;
+  return String(value).localeCompare(String(literal), undefined, { sensitivity: 'base' });
+}
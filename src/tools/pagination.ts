@@ -0,0 +1,89 @@
+import { ListOptions } from './powerbiClient.js';
+import { ToolError } from './toolErrors.js';
+
+// ============================================================
+// Paging of list operations
+// List results are returned a page at a time; each page carries
+// an opaque nextCursor that the agent passes back as `cursor` to
+// read the next one. The cursor keeps the filter and page size,
+// so later pages only need the cursor.
+// ============================================================
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+export interface PagingArgs {
+  filter?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface PageInfo {
+  count: number;
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+interface Cursor {
+  skip: number;
+  limit: number;
+  filter?: string;
+}
+
+// Schema properties shared by the list operations
+export const PAGING_PROPERTIES = {
+  filter: {
+    type: 'string',
+    description: "Filtro OData $filter para listas, ex.: contains(name,'Vendas') ou name eq 'Financeiro'"
+  },
+  limit: {
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+    description: `Itens por página em listas (padrão ${DEFAULT_PAGE_SIZE}, máximo ${MAX_PAGE_SIZE})`
+  },
+  cursor: {
+    type: 'string',
+    description: 'nextCursor retornado pela página anterior, para ler a próxima'
+  }
+};
+
+// The window to read: one item past the page, to know whether more follow
+export function listOptionsFor(args: PagingArgs): ListOptions & { limit: number } {
+  const cursor = args.cursor ? decodeCursor(args.cursor) : undefined;
+  if (cursor && args.filter !== undefined && args.filter !== (cursor.filter ?? '')) {
+    throw new ToolError('VALIDATION_ERROR', 'O filtro mudou desde a página anterior: o cursor não vale para o novo filtro.', {
+      hint: 'Repita a chamada sem cursor para começar a lista com o novo filtro, ou mantenha o filtro original.'
+    });
+  }
+  const limit = args.limit ?? cursor?.limit ?? DEFAULT_PAGE_SIZE;
+  const filter = args.filter || cursor?.filter;
+  return { skip: cursor?.skip ?? 0, top: limit + 1, limit, ...(filter && { filter }) };
+}
+
+// Cuts the page out of what was read and points to the next one
+export function toPage<T>(items: T[], options: ListOptions & { limit: number }): { items: T[]; page: PageInfo } {
+  const pageItems = items.slice(0, options.limit);
+  const hasMore = items.length > options.limit;
+  const next: Cursor = { skip: (options.skip ?? 0) + pageItems.length, limit: options.limit, ...(options.filter && { filter: options.filter }) };
+  return {
+    items: pageItems,
+    page: {
+      count: pageItems.length,
+      hasMore,
+      ...(hasMore && { nextCursor: Buffer.from(JSON.stringify(next)).toString('base64url') })
+    }
+  };
+}
+
+function decodeCursor(value: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as Cursor;
+    if (Number.isInteger(cursor.skip) && cursor.skip >= 0 && Number.isInteger(cursor.limit) && cursor.limit > 0) return cursor;
+  } catch {
+    // falls through to the error below
+  }
+  throw new ToolError('VALIDATION_ERROR', `Cursor inválido: ${value}`, {
+    hint: 'Use exatamente o nextCursor retornado pela página anterior, ou omita cursor para começar do início.'
+  });
+}
@@ -0,0 +1,459 @@
+import { TmslDatabase, TmslDefinition, TmslObject } from '../../types/index.js';
+import { XmlaRow } from '../xmlaRowset.js';
+import {
+  DATA_TYPES,
+  CROSS_FILTERING,
+  CARDINALITY,
+  COLUMN_TYPES,
+  SUMMARIZE_BY,
+  PARTITION_MODES,
+  PARTITION_SOURCE_TYPES,
+  MODEL_PERMISSIONS
+} from '../modelSchema.js';
+
+// ============================================================
+// Offline model engine
+// Applies TMSL commands to a model definition held as JSON and
+// answers TMSCHEMA_* discovers from it, so the modeling tools
+// behave the same against project files as against a server.
+// ============================================================
+
+// TMSL object path keys in nesting order, with the collection each lives in
+const PATH_STEPS: Array<[keyof TmslObject, string]> = [
+  ['table', 'tables'],
+  ['column', 'columns'],
+  ['measure', 'measures'],
+  ['partition', 'partitions'],
+  ['hierarchy', 'hierarchies'],
+  ['level', 'levels'],
+  ['calculationItem', 'calculationItems'],
+  ['relationship', 'relationships'],
+  ['role', 'roles'],
+  ['perspective', 'perspectives'],
+  ['culture', 'cultures'],
+  ['expression', 'expressions'],
+  ['dataSource', 'dataSources']
+];
+
+interface Target {
+  type: string;                 // TMSL object type, e.g. measure
+  name: string;
+  collection: TmslDefinition[];
+}
+
+// ---- TMSL commands ----
+
+// Applies a command in place and returns the warnings it produced
+export function applyTmsl(database: TmslDatabase, command: TmslDefinition): string[] {
+  const [commandType, body] = Object.entries(command)[0] ?? [];
+  const args = (body ?? {}) as TmslDefinition;
+
+  switch (commandType) {
+    case 'sequence':
+      return ((args.operations as TmslDefinition[] | undefined) ?? []).flatMap(op => applyTmsl(database, op));
+
+    case 'createOrReplace': {
+      const target = locate(database, args.object as TmslObject);
+      if (!target) {
+        replaceDatabase(database, args.database as TmslDatabase);
+        return [];
+      }
+      const definition = definitionFor(args, target.type);
+      const index = indexOf(target);
+      if (index === -1) target.collection.push(definition);
+      else target.collection[index] = definition;
+      return [];
+    }
+
+    case 'create': {
+      const type = Object.keys(args).find(key => key !== 'parentObject' && key !== 'object');
+      if (!type) throw new Error('Comando create sem definição de objeto.');
+      const definition = definitionFor(args, type);
+      const path = (args.object as TmslObject | undefined)
+        ?? { ...(args.parentObject as TmslObject | undefined), [type]: definition.name };
+      const target = locate(database, path);
+      if (!target) throw new Error('O projeto já contém um banco de dados; use createOrReplace para substituí-lo.');
+      if (indexOf(target) !== -1) throw new Error(`${target.type} '${target.name}' já existe.`);
+      target.collection.push(definition);
+      return [];
+    }
+
+    case 'alter': {
+      const target = locate(database, args.object as TmslObject);
+      if (!target) {
+        // Altering a database only touches its own properties, never the model
+        const { model: _model, ...properties } = (args.database ?? {}) as TmslDefinition;
+        Object.assign(database, properties);
+        return [];
+      }
+      const index = requireIndex(target);
+      // Partial definitions update only the given properties (child collections included)
+      target.collection[index] = { ...target.collection[index], ...definitionFor(args, target.type) };
+      return [];
+    }
+
+    case 'delete': {
+      const target = locate(database, args.object as TmslObject);
+      if (!target) throw new Error('Não é possível excluir o banco de dados de um projeto PBIP.');
+      target.collection.splice(requireIndex(target), 1);
+      return [];
+    }
+
+    case 'refresh':
+      return ['refresh ignorado: projetos PBIP guardam apenas a definição do modelo, sem dados.'];
+
+    default:
+      throw new Error(`Comando TMSL '${commandType}' não é suportado em projetos PBIP.`);
+  }
+}
+
+function locate(database: TmslDatabase, path: TmslObject | undefined): Target | undefined {
+  const steps = PATH_STEPS.filter(([key]) => path?.[key] !== undefined);
+  if (steps.length === 0) return undefined;
+
+  let owner: TmslDefinition = database.model;
+  for (let i = 0; i < steps.length; i++) {
+    const [key, collectionName] = steps[i];
+    const name = String(path![key]);
+    const container = key === 'calculationItem' ? owner.calculationGroup as TmslDefinition | undefined : owner;
+    if (!container) throw new Error(`'${owner.name}' não é um grupo de cálculo.`);
+    const collection = (container[collectionName] as TmslDefinition[] | undefined) ?? [];
+    container[collectionName] = collection;
+
+    const target: Target = { type: key, name, collection };
+    if (i === steps.length - 1) return target;
+    owner = collection[requireIndex(target)];
+  }
+  return undefined;
+}
+
+function indexOf(target: Target): number {
+  const name = target.name.toLowerCase();
+  // Object names are case-insensitive in the engine
+  return target.collection.findIndex(item => String(item.name).toLowerCase() === name);
+}
+
+function requireIndex(target: Target): number {
+  const index = indexOf(target);
+  if (index === -1) throw new Error(`${target.type} '${target.name}' não encontrado no modelo.`);
+  return index;
+}
+
+function definitionFor(args: TmslDefinition, type: string): TmslDefinition {
+  const definition = args[type] as TmslDefinition | undefined;
+  if (!definition || typeof definition !== 'object') throw new Error(`Definição de '${type}' ausente no comando TMSL.`);
+  return structuredClone(definition);
+}
+
+function replaceDatabase(database: TmslDatabase, definition: TmslDatabase | undefined): void {
+  if (!definition) throw new Error('Definição de banco de dados ausente no comando TMSL.');
+  for (const key of Object.keys(database)) delete database[key];
+  Object.assign(database, structuredClone(definition));
+  database.model ??= {};
+}
+
+// ---- TMSCHEMA rowsets ----
+
+const DATA_TYPE_IDS = invert(DATA_TYPES);
+const CROSS_FILTERING_IDS = invert(CROSS_FILTERING);
+const CARDINALITY_IDS = invert(CARDINALITY);
+const COLUMN_TYPE_IDS = invert(COLUMN_TYPES);
+const SUMMARIZE_BY_IDS = invert(SUMMARIZE_BY);
+const PARTITION_MODE_IDS = invert(PARTITION_MODES);
+const PARTITION_SOURCE_TYPE_IDS = invert(PARTITION_SOURCE_TYPES);
+const MODEL_PERMISSION_IDS = invert(MODEL_PERMISSIONS);
+
+export function discoverRowset(
+  database: TmslDatabase,
+  requestType: string,
+  restrictions: Record<string, unknown> = {}
+): XmlaRow[] {
+  const rowsets = buildRowsets(database);
+  const rows = rowsets.get(requestType.toUpperCase());
+  if (!rows) throw new Error(`Rowset ${requestType} não é suportado em projetos PBIP.`);
+  return rows.filter(row => matches(row, requestType.toUpperCase(), restrictions, rowsets));
+}
+
+function buildRowsets(database: TmslDatabase): Map<string, XmlaRow[]> {
+  const rowsets = new Map<string, XmlaRow[]>();
+  const add = (requestType: string, row: XmlaRow): number => {
+    const list = rowsets.get(requestType) ?? [];
+    list.push(row);
+    rowsets.set(requestType, list);
+    return Number(row.ID);
+  };
+  let lastId = 1;
+  const nextId = () => ++lastId;
+  const model = database.model;
+  const modelId = 1;
+  const key = (...names: unknown[]) => names.map(n => String(n).toLowerCase()).join('|');
+
+  for (const requestType of ROWSET_TYPES) rowsets.set(requestType, []);
+  add('TMSCHEMA_MODEL', {
+    ID: modelId,
+    Name: database.name ?? 'Model',
+    Description: text(model.description),
+    Culture: text(model.culture),
+    DefaultMode: PARTITION_MODE_IDS[String(model.defaultMode ?? 'import')] ?? 0
+  });
+
+  const tableIds = new Map<string, number>();
+  const columnIds = new Map<string, number>();
+  const measureIds = new Map<string, number>();
+  const hierarchyIds = new Map<string, number>();
+
+  const sortedColumns: Array<[XmlaRow, unknown, unknown]> = [];
+  for (const table of list(model.tables)) {
+    const tableId = add('TMSCHEMA_TABLES', {
+      ID: nextId(),
+      ModelID: modelId,
+      Name: table.name,
+      DataCategory: text(table.dataCategory),
+      Description: text(table.description),
+      IsHidden: table.isHidden === true
+    });
+    tableIds.set(key(table.name), tableId);
+
+    for (const column of list(table.columns)) {
+      const type = String(column.type ?? (column.expression !== undefined ? 'calculated' : 'data'));
+      const row: XmlaRow = {
+        ID: nextId(),
+        TableID: tableId,
+        ExplicitName: column.name,
+        ExplicitDataType: DATA_TYPE_IDS[String(column.dataType ?? 'automatic')] ?? 1,
+        DataCategory: text(column.dataCategory),
+        Description: text(column.description),
+        IsHidden: column.isHidden === true,
+        IsKey: column.isKey === true,
+        FormatString: text(column.formatString),
+        DisplayFolder: text(column.displayFolder),
+        Type: COLUMN_TYPE_IDS[type] ?? 1,
+        SourceColumn: text(column.sourceColumn),
+        Expression: text(column.expression),
+        SummarizeBy: SUMMARIZE_BY_IDS[String(column.summarizeBy ?? 'default')] ?? 1,
+        SortByColumnID: null
+      };
+      columnIds.set(key(table.name, column.name), add('TMSCHEMA_COLUMNS', row));
+      if (column.sortByColumn !== undefined) sortedColumns.push([row, table.name, column.sortByColumn]);
+    }
+
+    for (const measure of list(table.measures)) {
+      measureIds.set(key(table.name, measure.name), add('TMSCHEMA_MEASURES', {
+        ID: nextId(),
+        TableID: tableId,
+        Name: measure.name,
+        Description: text(measure.description),
+        Expression: text(measure.expression),
+        FormatString: text(measure.formatString),
+        IsHidden: measure.isHidden === true,
+        DisplayFolder: text(measure.displayFolder)
+      }));
+    }
+
+    for (const hierarchy of list(table.hierarchies)) {
+      const hierarchyId = add('TMSCHEMA_HIERARCHIES', {
+        ID: nextId(),
+        TableID: tableId,
+        Name: hierarchy.name,
+        Description: text(hierarchy.description),
+        IsHidden: hierarchy.isHidden === true,
+        DisplayFolder: text(hierarchy.displayFolder)
+      });
+      hierarchyIds.set(key(table.name, hierarchy.name), hierarchyId);
+      list(hierarchy.levels).forEach((level, index) => add('TMSCHEMA_LEVELS', {
+        ID: nextId(),
+        HierarchyID: hierarchyId,
+        Ordinal: level.ordinal ?? index,
+        Name: level.name,
+        ColumnID: columnIds.get(key(table.name, level.column)) ?? null,
+        Description: text(level.description)
+      }));
+    }
+
+    for (const partition of list(table.partitions)) {
+      const source = (partition.source ?? {}) as TmslDefinition;
+      add('TMSCHEMA_PARTITIONS', {
+        ID: nextId(),
+        TableID: tableId,
+        Name: partition.name,
+        Description: text(partition.description),
+        Mode: PARTITION_MODE_IDS[String(partition.mode ?? 'default')] ?? 2,
+        Type: PARTITION_SOURCE_TYPE_IDS[String(source.type ?? 'none')] ?? 3,
+        QueryDefinition: text(source.expression ?? source.query)
+      });
+    }
+
+    const calculationGroup = table.calculationGroup as TmslDefinition | undefined;
+    if (calculationGroup) {
+      const groupId = add('TMSCHEMA_CALCULATION_GROUPS', {
+        ID: nextId(),
+        TableID: tableId,
+        Precedence: calculationGroup.precedence ?? 0,
+        Description: text(calculationGroup.description)
+      });
+      for (const item of list(calculationGroup.calculationItems)) {
+        add('TMSCHEMA_CALCULATION_ITEMS', {
+          ID: nextId(),
+          CalculationGroupID: groupId,
+          Name: item.name,
+          Expression: text(item.expression),
+          Ordinal: item.ordinal ?? 0,
+          Description: text(item.description)
+        });
+      }
+    }
+  }
+  // Sort-by columns may be declared after the column that uses them
+  for (const [row, tableName, sortBy] of sortedColumns) {
+    row.SortByColumnID = columnIds.get(key(tableName, sortBy)) ?? null;
+  }
+
+  for (const relationship of list(model.relationships)) {
+    add('TMSCHEMA_RELATIONSHIPS', {
+      ID: nextId(),
+      ModelID: modelId,
+      Name: relationship.name,
+      IsActive: relationship.isActive !== false,
+      CrossFilteringBehavior: CROSS_FILTERING_IDS[String(relationship.crossFilteringBehavior ?? 'oneDirection')] ?? 1,
+      FromTableID: tableIds.get(key(relationship.fromTable)) ?? null,
+      FromColumnID: columnIds.get(key(relationship.fromTable, relationship.fromColumn)) ?? null,
+      FromCardinality: CARDINALITY_IDS[String(relationship.fromCardinality ?? 'many')] ?? 2,
+      ToTableID: tableIds.get(key(relationship.toTable)) ?? null,
+      ToColumnID: columnIds.get(key(relationship.toTable, relationship.toColumn)) ?? null,
+      ToCardinality: CARDINALITY_IDS[String(relationship.toCardinality ?? 'one')] ?? 1
+    });
+  }
+
+  for (const role of list(model.roles)) {
+    const roleId = add('TMSCHEMA_ROLES', {
+      ID: nextId(),
+      ModelID: modelId,
+      Name: role.name,
+      Description: text(role.description),
+      ModelPermission: MODEL_PERMISSION_IDS[String(role.modelPermission ?? 'read')] ?? 2
+    });
+    for (const member of list(role.members)) {
+      add('TMSCHEMA_ROLE_MEMBERSHIPS', {
+        ID: nextId(),
+        RoleID: roleId,
+        MemberName: member.memberName,
+        MemberID: text(member.memberId),
+        IdentityProvider: text(member.identityProvider)
+      });
+    }
+    for (const permission of list(role.tablePermissions)) {
+      add('TMSCHEMA_TABLE_PERMISSIONS', {
+        ID: nextId(),
+        RoleID: roleId,
+        TableID: tableIds.get(key(permission.name)) ?? null,
+        FilterExpression: text(permission.filterExpression)
+      });
+    }
+  }
+
+  for (const perspective of list(model.perspectives)) {
+    const perspectiveId = add('TMSCHEMA_PERSPECTIVES', {
+      ID: nextId(),
+      ModelID: modelId,
+      Name: perspective.name,
+      Description: text(perspective.description)
+    });
+    for (const table of list(perspective.tables)) {
+      const perspectiveTableId = add('TMSCHEMA_PERSPECTIVE_TABLES', {
+        ID: nextId(),
+        PerspectiveID: perspectiveId,
+        TableID: tableIds.get(key(table.name)) ?? null,
+        IncludeAll: table.includeAll === true
+      });
+      const members: Array<[string, string, string, Map<string, number>]> = [
+        ['columns', 'TMSCHEMA_PERSPECTIVE_COLUMNS', 'ColumnID', columnIds],
+        ['measures', 'TMSCHEMA_PERSPECTIVE_MEASURES', 'MeasureID', measureIds],
+        ['hierarchies', 'TMSCHEMA_PERSPECTIVE_HIERARCHIES', 'HierarchyID', hierarchyIds]
+      ];
+      for (const [collection, requestType, idColumn, ids] of members) {
+        for (const member of list(table[collection])) {
+          add(requestType, {
+            ID: nextId(),
+            PerspectiveTableID: perspectiveTableId,
+            [idColumn]: ids.get(key(table.name, member.name)) ?? null
+          });
+        }
+      }
+    }
+  }
+
+  for (const culture of list(model.cultures)) {
+    add('TMSCHEMA_CULTURES', { ID: nextId(), ModelID: modelId, Name: culture.name });
+  }
+
+  for (const expression of list(model.expressions)) {
+    add('TMSCHEMA_EXPRESSIONS', {
+      ID: nextId(),
+      ModelID: modelId,
+      Name: expression.name,
+      Kind: String(expression.kind ?? 'm') === 'm' ? 0 : 1,
+      Expression: text(expression.expression),
+      Description: text(expression.description)
+    });
+  }
+
+  for (const dataSource of list(model.dataSources)) {
+    add('TMSCHEMA_DATA_SOURCES', {
+      ID: nextId(),
+      ModelID: modelId,
+      Name: dataSource.name,
+      Type: text(dataSource.type),
+      ConnectionString: text(dataSource.connectionString),
+      Description: text(dataSource.description)
+    });
+  }
+
+  return rowsets;
+}
+
+const ROWSET_TYPES = [
+  'TMSCHEMA_MODEL', 'TMSCHEMA_TABLES', 'TMSCHEMA_COLUMNS', 'TMSCHEMA_MEASURES',
+  'TMSCHEMA_HIERARCHIES', 'TMSCHEMA_LEVELS', 'TMSCHEMA_PARTITIONS',
+  'TMSCHEMA_CALCULATION_GROUPS', 'TMSCHEMA_CALCULATION_ITEMS', 'TMSCHEMA_RELATIONSHIPS',
+  'TMSCHEMA_ROLES', 'TMSCHEMA_ROLE_MEMBERSHIPS', 'TMSCHEMA_TABLE_PERMISSIONS',
+  'TMSCHEMA_PERSPECTIVES', 'TMSCHEMA_PERSPECTIVE_TABLES', 'TMSCHEMA_PERSPECTIVE_COLUMNS',
+  'TMSCHEMA_PERSPECTIVE_MEASURES', 'TMSCHEMA_PERSPECTIVE_HIERARCHIES',
+  'TMSCHEMA_CULTURES', 'TMSCHEMA_EXPRESSIONS', 'TMSCHEMA_DATA_SOURCES'
+];
+
+// Restrictions match row columns directly, plus the <Object>Name forms the
+// modeling tools send (TableName, MeasureName, ...)
+function matches(
+  row: XmlaRow,
+  requestType: string,
+  restrictions: Record<string, unknown>,
+  rowsets: Map<string, XmlaRow[]>
+): boolean {
+  return Object.entries(restrictions).every(([restriction, expected]) => {
+    if (restriction === 'DatabaseName' || expected === undefined || expected === null) return true;
+    const wanted = String(expected).toLowerCase();
+    if (restriction in row) return String(row[restriction]).toLowerCase() === wanted;
+    if (restriction === 'TableName' && requestType !== 'TMSCHEMA_TABLES' && 'TableID' in row) {
+      const table = rowsets.get('TMSCHEMA_TABLES')!.find(t => t.ID === row.TableID);
+      return String(table?.Name).toLowerCase() === wanted;
+    }
+    if (restriction.endsWith('Name')) {
+      return String(row.Name ?? row.ExplicitName).toLowerCase() === wanted;
+    }
+    return true;
+  });
+}
+
+function list(value: unknown): TmslDefinition[] {
+  return Array.isArray(value) ? value as TmslDefinition[] : [];
+}
+
+// TMSL allows multi-line text as arrays of lines
+function text(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  return Array.isArray(value) ? value.join('\n') : String(value);
+}
+
+function invert(values: Record<number, string>): Record<string, number> {
+  return Object.fromEntries(Object.entries(values).map(([id, name]) => [name, Number(id)]));
+}
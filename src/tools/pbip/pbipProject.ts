@@ -0,0 +1,228 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { TmslDatabase, TmslDefinition } from '../../types/index.js';
+import { XmlaRow } from '../xmlaRowset.js';
+import { readTmdlFolder, writeTmdlFolder, TmdlFiles } from './tmdl.js';
+import { applyTmsl, discoverRowset } from './offlineModel.js';
+
+// ============================================================
+// PBIP project model source
+// Opens the semantic model of a Power BI Project (PBIP) from disk
+// — TMDL (definition/*.tmdl) or model.bim — and serves it as an
+// offline XMLA endpoint: pbip://<path>. Edits are written back to
+// the same files, touching only the files whose content changed.
+// ============================================================
+
+export type PbipFormat = 'tmdl' | 'bim';
+
+const PBIP_SCHEME = /^pbip:\/\//i;
+
+export function isPbipEndpoint(endpoint: string): boolean {
+  return PBIP_SCHEME.test(endpoint.trim());
+}
+
+// Projects are shared per folder so concurrent edits queue on the same lock
+const projects = new Map<string, Promise<PbipProject>>();
+
+export class PbipProject {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(
+    readonly semanticModelPath: string,
+    readonly format: PbipFormat
+  ) {}
+
+  // Accepts pbip://<path> or a plain path to the project folder, the .pbip
+  // file, the .SemanticModel folder or its model.bim
+  static open(location: string): Promise<PbipProject> {
+    const target = path.resolve(location.trim().replace(PBIP_SCHEME, ''));
+    let pending = projects.get(target);
+    if (!pending) {
+      pending = locateSemanticModel(target).then(async folder => {
+        const format: PbipFormat = (await exists(path.join(folder, 'definition'))) ? 'tmdl' : 'bim';
+        return new PbipProject(folder, format);
+      });
+      pending.catch(() => projects.delete(target));
+      projects.set(target, pending);
+    }
+    return pending;
+  }
+
+  get endpoint(): string {
+    return `pbip://${this.semanticModelPath.replace(/\\/g, '/')}`;
+  }
+
+  get definitionPath(): string {
+    return this.format === 'tmdl'
+      ? path.join(this.semanticModelPath, 'definition')
+      : path.join(this.semanticModelPath, 'model.bim');
+  }
+
+  async load(): Promise<TmslDatabase> {
+    return (await this.read()).database;
+  }
+
+  databaseName(database: TmslDatabase): string {
+    return database.name ?? path.basename(this.semanticModelPath).replace(/\.SemanticModel$/i, '');
+  }
+
+  async discover(requestType: string, restrictions: Record<string, unknown>): Promise<XmlaRow[]> {
+    return discoverRowset(await this.load(), requestType, restrictions);
+  }
+
+  // Applies a TMSL command and saves the result; a failing command leaves
+  // the files untouched. Returns the command's warnings.
+  async execute(command: unknown): Promise<string[]> {
+    if (typeof command === 'string') {
+      throw new Error(
+        'Consultas DAX precisam de um mecanismo de cálculo: abra o projeto no Power BI Desktop e use local_pbi_operations.'
+      );
+    }
+    return this.exclusive(async () => {
+      const { database: original, sources } = await this.read();
+      const updated = structuredClone(original);
+      const warnings = applyTmsl(updated, command as TmslDefinition);
+      await this.write(original, updated, sources);
+      return warnings;
+    });
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // ---- Files ----
+
+  private async read(): Promise<{ database: TmslDatabase; sources: Map<string, string> }> {
+    const sources = new Map<string, string>();
+    if (this.format === 'bim') {
+      const content = await fs.readFile(this.definitionPath, 'utf8');
+      const database = JSON.parse(content.replace(/^\uFEFF/, '')) as TmslDatabase;
+      database.model ??= {};
+      return { database, sources };
+    }
+    const files = await readTmdlFiles(this.definitionPath);
+    if (files.size === 0) throw new Error(`Nenhum arquivo .tmdl encontrado em ${this.definitionPath}`);
+    return { database: readTmdlFolder(files, sources), sources };
+  }
+
+  private async write(original: TmslDatabase, updated: TmslDatabase, sources: Map<string, string>): Promise<void> {
+    if (this.format === 'bim') {
+      const previous = await fs.readFile(this.definitionPath, 'utf8');
+      await fs.writeFile(this.definitionPath, withLineEndings(JSON.stringify(updated, null, 2) + '\n', previous), 'utf8');
+      return;
+    }
+
+    // Diffing the serialized before/after states keeps untouched files
+    // byte-for-byte as Power BI Desktop wrote them
+    const before = writeTmdlFolder(original, sources);
+    const after = writeTmdlFolder(updated, sources);
+    for (const [relative, content] of after) {
+      if (before.get(relative) === content) continue;
+      const file = path.join(this.definitionPath, ...relative.split('/'));
+      const previous = await fs.readFile(file, 'utf8').catch(() => undefined);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, withLineEndings(content, previous), 'utf8');
+    }
+    for (const relative of before.keys()) {
+      if (!after.has(relative)) {
+        await fs.rm(path.join(this.definitionPath, ...relative.split('/')), { force: true });
+      }
+    }
+  }
+}
+
+// Reads a model from disk: a TMDL folder (such as one written by
+// exportTmdlFolder), any .bim file, or anything PbipProject.open accepts
+export async function readModelDefinition(location: string): Promise<TmslDatabase> {
+  const target = path.resolve(location.trim().replace(PBIP_SCHEME, ''));
+  const stat = await fs.stat(target).catch(() => undefined);
+  if (stat?.isFile() && /\.bim$/i.test(target)) {
+    const database = JSON.parse((await fs.readFile(target, 'utf8')).replace(/^\uFEFF/, '')) as TmslDatabase;
+    database.model ??= {};
+    database.name ??= path.basename(target, path.extname(target));
+    return database;
+  }
+  const isTmdlFolder = stat?.isDirectory()
+    && ((await exists(path.join(target, 'model.tmdl'))) || (await exists(path.join(target, 'database.tmdl'))));
+  if (isTmdlFolder && path.basename(target) !== 'definition') {
+    const database = readTmdlFolder(await readTmdlFiles(target));
+    database.name ??= path.basename(target);
+    return database;
+  }
+  const project = await PbipProject.open(target);
+  const database = await project.load();
+  return { ...database, name: project.databaseName(database) };
+}
+
+// Writes a model as a TMDL definition folder. .tmdl files left from a previous
+// export are removed so the folder always mirrors the model.
+export async function exportTmdlFolder(database: TmslDatabase, folder: string): Promise<string[]> {
+  const target = path.resolve(folder);
+  const previous = (await exists(target)) ? await readTmdlFiles(target) : new Map<string, string>();
+  const files = writeTmdlFolder(database);
+  for (const [relative, content] of files) {
+    const file = path.join(target, ...relative.split('/'));
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, withLineEndings(content, previous.get(relative)), 'utf8');
+  }
+  for (const relative of previous.keys()) {
+    if (!files.has(relative)) await fs.rm(path.join(target, ...relative.split('/')), { force: true });
+  }
+  return [...files.keys()];
+}
+
+async function locateSemanticModel(target: string): Promise<string> {
+  const stat = await fs.stat(target).catch(() => undefined);
+  if (!stat) throw new Error(`Caminho PBIP não encontrado: ${target}`);
+
+  if (stat.isFile()) {
+    if (/\.bim$/i.test(target)) return path.dirname(target);
+    if (!/\.pbip$/i.test(target)) {
+      throw new Error('Informe a pasta do projeto, o arquivo .pbip, a pasta .SemanticModel ou o model.bim.');
+    }
+    const sibling = path.join(path.dirname(target), `${path.basename(target, path.extname(target))}.SemanticModel`);
+    return (await isSemanticModelFolder(sibling)) ? sibling : locateSemanticModel(path.dirname(target));
+  }
+
+  if (await isSemanticModelFolder(target)) return target;
+  if (path.basename(target) === 'definition' && (await isSemanticModelFolder(path.dirname(target)))) {
+    return path.dirname(target);
+  }
+
+  const entries = await fs.readdir(target, { withFileTypes: true });
+  const models = entries.filter(e => e.isDirectory() && /\.SemanticModel$/i.test(e.name)).map(e => e.name);
+  if (models.length === 1) return path.join(target, models[0]);
+  if (models.length === 0) throw new Error(`Nenhuma pasta .SemanticModel encontrada em ${target}`);
+  throw new Error(`Mais de um modelo semântico em ${target}: ${models.join(', ')}. Informe a pasta .SemanticModel desejada.`);
+}
+
+async function isSemanticModelFolder(folder: string): Promise<boolean> {
+  return (await exists(path.join(folder, 'definition', 'model.tmdl')))
+    || (await exists(path.join(folder, 'definition', 'database.tmdl')))
+    || exists(path.join(folder, 'model.bim'));
+}
+
+async function readTmdlFiles(root: string): Promise<TmdlFiles> {
+  const files: TmdlFiles = new Map();
+  const visit = async (folder: string, prefix: string) => {
+    for (const entry of await fs.readdir(folder, { withFileTypes: true })) {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) await visit(path.join(folder, entry.name), relative);
+      else if (entry.name.toLowerCase().endsWith('.tmdl')) files.set(relative, await fs.readFile(path.join(folder, entry.name), 'utf8'));
+    }
+  };
+  await visit(root, '');
+  return files;
+}
+
+async function exists(file: string): Promise<boolean> {
+  return fs.access(file).then(() => true, () => false);
+}
+
+// Keeps CRLF files (as written on Windows) in CRLF
+function withLineEndings(content: string, previous: string | undefined): string {
+  return previous?.includes('\r\n') ? content.replace(/\r?\n/g, '\r\n') : content;
+}
@@ -0,0 +1,706 @@
+import { TmslDatabase, TmslDefinition } from '../../types/index.js';
+
+// ============================================================
+// TMDL (Tabular Model Definition Language)
+// Reads the files of a TMDL definition folder into the TMSL/BIM
+// JSON shape the rest of the server works with, and writes that
+// JSON back as TMDL. The syntax layer is generic; OBJECT_TYPES
+// only records where each TMDL keyword lives in the JSON tree,
+// so properties this module does not know about still round-trip.
+// ============================================================
+
+export class TmdlError extends Error {
+  constructor(message: string, readonly file?: string, readonly line?: number) {
+    super(file ? `${file}${line ? `:${line}` : ''}: ${message}` : message);
+    this.name = 'TmdlError';
+  }
+}
+
+// ---- Syntax tree ----
+
+export interface TmdlNode {
+  keyword: string;
+  name?: string;
+  value?: string;
+  expression?: boolean;         // value given after '=' rather than ':'
+  description?: string;         // from /// lines
+  isRef?: boolean;              // `ref table Sales`
+  children: TmdlNode[];
+}
+
+export function parseTmdl(text: string, file?: string): TmdlNode[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const root: TmdlNode = { keyword: '#document', children: [] };
+  const stack: Array<{ node: TmdlNode; indent: number }> = [{ node: root, indent: -1 }];
+  let description: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const content = lines[i].trim();
+    if (!content) continue;
+    const indent = indentOf(lines[i]);
+    if (content.startsWith('///')) {
+      description.push(content.slice(3).replace(/^ /, ''));
+      continue;
+    }
+
+    while (stack.length > 1 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const node = parseLine(content, file, i + 1);
+    if (description.length > 0) {
+      node.description = description.join('\n');
+      description = [];
+    }
+
+    if (node.expression) {
+      const block = readExpressionBlock(lines, i, indent, node.value ?? '', file);
+      node.value = block.value;
+      i = block.lastLine;
+    }
+
+    stack[stack.length - 1].node.children.push(node);
+    stack.push({ node, indent });
+  }
+
+  return root.children;
+}
+
+function parseLine(content: string, file: string | undefined, line: number): TmdlNode {
+  const ref = /^ref\s+(\w+)\s+(.+)$/.exec(content);
+  if (ref) return { keyword: ref[1], name: readName(ref[2]).name, isRef: true, children: [] };
+
+  const keyword = /^\w+/.exec(content)?.[0];
+  if (!keyword) throw new TmdlError(`linha inválida: ${content}`, file, line);
+  let rest = content.slice(keyword.length).trim();
+
+  if (rest === '') return { keyword, children: [] };
+  if (rest.startsWith(':')) return { keyword, value: unquoteValue(rest.slice(1).trim()), children: [] };
+  if (rest.startsWith('=')) return { keyword, value: rest.slice(1).trim(), expression: true, children: [] };
+
+  const { name, end } = readName(rest);
+  rest = rest.slice(end).trim();
+  if (rest === '') return { keyword, name, children: [] };
+  if (rest.startsWith('=')) return { keyword, name, value: rest.slice(1).trim(), expression: true, children: [] };
+  throw new TmdlError(`declaração inválida: ${content}`, file, line);
+}
+
+// Expressions continue on the lines indented two levels below the declaration,
+// or sit between ``` fences
+function readExpressionBlock(
+  lines: string[],
+  start: number,
+  indent: number,
+  inline: string,
+  file?: string
+): { value: string; lastLine: number } {
+  const fence = /^`{3,}$/.exec(inline)?.[0];
+  if (fence) {
+    let end = start + 1;
+    while (end < lines.length && lines[end].trim() !== fence) end++;
+    if (end >= lines.length) throw new TmdlError('expressão delimitada por ``` sem fechamento', file, start + 1);
+    return { value: dedent(lines.slice(start + 1, end)), lastLine: end };
+  }
+
+  let end = start + 1;
+  let lastContent = start;
+  while (end < lines.length && (!lines[end].trim() || indentOf(lines[end]) >= indent + 2)) {
+    if (lines[end].trim()) lastContent = end;
+    end++;
+  }
+  const block = dedent(lines.slice(start + 1, lastContent + 1));
+  return { value: [inline, block].filter(Boolean).join('\n'), lastLine: lastContent };
+}
+
+function indentOf(line: string): number {
+  let level = 0;
+  let spaces = 0;
+  for (const ch of line) {
+    if (ch === '\t') {
+      level++;
+      spaces = 0;
+    } else if (ch === ' ') {
+      if (++spaces === 4) {
+        level++;
+        spaces = 0;
+      }
+    } else {
+      break;
+    }
+  }
+  return level;
+}
+
+function dedent(lines: string[]): string {
+  const margins = lines.filter(l => l.trim()).map(l => /^\s*/.exec(l)![0].length);
+  const margin = margins.length > 0 ? Math.min(...margins) : 0;
+  const result = lines.map(l => (l.trim() ? l.slice(margin).trimEnd() : ''));
+  while (result.length > 0 && result[result.length - 1] === '') result.pop();
+  return result.join('\n');
+}
+
+// Names are bare words or single-quoted with '' as the escaped quote
+function readName(text: string): { name: string; end: number } {
+  if (!text.startsWith("'")) {
+    const end = text.search(/[=.]/);
+    return { name: text.slice(0, end === -1 ? text.length : end).trim(), end: end === -1 ? text.length : end };
+  }
+  let name = '';
+  for (let i = 1; i < text.length; i++) {
+    if (text[i] !== "'") {
+      name += text[i];
+    } else if (text[i + 1] === "'") {
+      name += "'";
+      i++;
+    } else {
+      return { name, end: i + 1 };
+    }
+  }
+  throw new TmdlError(`nome sem aspas de fechamento: ${text}`);
+}
+
+// `Sales.'Order Date'` -> ['Sales', 'Order Date']
+export function parseReference(text: string): string[] {
+  const parts: string[] = [];
+  let rest = text.trim();
+  while (rest) {
+    const { name, end } = readName(rest);
+    parts.push(name);
+    rest = rest.slice(end).trim();
+    if (rest.startsWith('.')) rest = rest.slice(1).trim();
+    else if (rest) throw new TmdlError(`referência inválida: ${text}`);
+  }
+  return parts;
+}
+
+export function quoteName(name: string): string {
+  return /^[^\s.=:'"]+$/.test(name) ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+function unquoteValue(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1).replace(/""/g, '"')
+    : value;
+}
+
+function quoteValue(value: string): string {
+  const needsQuotes = value === '' || value !== value.trim() || (value.startsWith('"') && value.endsWith('"'));
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// ---- Writer ----
+
+export function serializeTmdl(nodes: TmdlNode[]): string {
+  const out: string[] = [];
+  nodes.forEach((node, index) => {
+    if (index > 0 && !(node.isRef && nodes[index - 1].isRef)) out.push('');
+    writeNode(node, 0, out);
+  });
+  return out.join('\n') + '\n';
+}
+
+function writeNode(node: TmdlNode, depth: number, out: string[]): void {
+  const tabs = '\t'.repeat(depth);
+  for (const line of node.description?.split('\n') ?? []) out.push(`${tabs}/// ${line}`.trimEnd());
+
+  let header = `${tabs}${node.isRef ? 'ref ' : ''}${node.keyword}`;
+  if (node.name !== undefined) header += ` ${quoteName(node.name)}`;
+  if (node.value !== undefined && node.expression) {
+    if (node.value.includes('\n')) {
+      out.push(`${header} =`);
+      const body = '\t'.repeat(depth + 2);
+      for (const line of node.value.split('\n')) out.push(line ? `${body}${line}` : '');
+      header = '';
+    } else {
+      header += ` = ${node.value}`;
+    }
+  } else if (node.value !== undefined) {
+    header += `: ${quoteValue(node.value)}`;
+  }
+  if (header) out.push(header);
+
+  node.children.forEach((child, index) => {
+    // Child objects are separated by a blank line, properties are not
+    const isObject = child.name !== undefined && !child.isRef;
+    if (isObject || (child.isRef && !node.children[index - 1]?.isRef)) out.push('');
+    writeNode(child, depth + 1, out);
+  });
+}
+
+// ---- TMDL <-> TMSL JSON mapping ----
+
+interface ObjectType {
+  collection?: string;          // JSON array on the parent (default: plural of the keyword)
+  nameKey?: string;             // JSON property holding the name (default: name)
+  valueKey?: string;            // JSON property set by `keyword Name = value`
+}
+
+const OBJECT_TYPES: Record<string, ObjectType> = {
+  table: {},
+  column: { valueKey: 'expression' },
+  measure: { valueKey: 'expression' },
+  hierarchy: {},
+  level: {},
+  partition: {},
+  relationship: {},
+  expression: { valueKey: 'expression' },
+  dataSource: {},
+  annotation: { valueKey: 'value' },
+  extendedProperty: { valueKey: 'value' },
+  calculationItem: { valueKey: 'expression' },
+  role: {},
+  member: { nameKey: 'memberName' },
+  tablePermission: { valueKey: 'filterExpression' },
+  columnPermission: { valueKey: 'metadataPermission' },
+  cultureInfo: { collection: 'cultures' },
+  perspective: {},
+  perspectiveTable: { collection: 'tables' },
+  perspectiveColumn: { collection: 'columns' },
+  perspectiveMeasure: { collection: 'measures' },
+  perspectiveHierarchy: { collection: 'hierarchies' }
+};
+
+// Collections whose TMDL keyword depends on the parent object
+const MEMBER_KEYWORDS: Record<string, Record<string, string>> = {
+  perspective: { tables: 'perspectiveTable' },
+  perspectiveTable: { columns: 'perspectiveColumn', measures: 'perspectiveMeasure', hierarchies: 'perspectiveHierarchy' }
+};
+
+// Nameless objects held in a single JSON property, e.g. `formatStringDefinition = ...`
+const NESTED_OBJECTS: Record<string, { valueKey?: string }> = {
+  calculationGroup: {},
+  dataAccessOptions: {},
+  refreshPolicy: {},
+  alternateOf: {},
+  formatStringDefinition: { valueKey: 'expression' },
+  detailRowsDefinition: { valueKey: 'expression' },
+  defaultDetailRowsDefinition: { valueKey: 'expression' },
+  linguisticMetadata: { valueKey: 'content' }
+};
+
+// Properties repeated once per entry, e.g. `changedProperty = IsHidden`
+const REPEATED_PROPERTIES: Record<string, { collection: string; key: string }> = {
+  changedProperty: { collection: 'changedProperties', key: 'property' }
+};
+
+const NUMERIC_PROPERTIES = new Set([
+  'compatibilityLevel', 'ordinal', 'precedence', 'maxConnections', 'timeout',
+  'rollingWindowPeriods', 'incrementalPeriods', 'incrementalPeriodsOffset'
+]);
+
+// Text properties that are always written as expressions
+const EXPRESSION_PROPERTIES = new Set(['expression', 'filterExpression', 'query']);
+
+// Partition source properties flattened onto the partition in TMDL
+const PARTITION_SOURCE_PROPERTIES = new Set([
+  'entityName', 'expressionSource', 'schemaName', 'dataSource', 'pollingExpression'
+]);
+
+// Objects kept in their own file (or a shared file) instead of model.tmdl
+const MODEL_COLLECTIONS: Record<string, string> = {
+  tables: 'table',
+  relationships: 'relationship',
+  expressions: 'expression',
+  dataSources: 'dataSource',
+  roles: 'role',
+  cultures: 'cultureInfo',
+  perspectives: 'perspective'
+};
+
+// Top-level keywords that are objects on their own; anything else at column 0
+// (annotations, refs) belongs to the object declared before it in the file
+const TOP_LEVEL_OBJECTS = new Set(['database', 'model', ...Object.values(MODEL_COLLECTIONS)]);
+
+function objectType(keyword: string): Required<Omit<ObjectType, 'valueKey'>> & ObjectType {
+  const type = OBJECT_TYPES[keyword] ?? { valueKey: 'expression' };
+  return { collection: type.collection ?? pluralize(keyword), nameKey: type.nameKey ?? 'name', valueKey: type.valueKey };
+}
+
+function keywordForCollection(collection: string, parent?: string): string {
+  const member = parent ? MEMBER_KEYWORDS[parent]?.[collection] : undefined;
+  if (member) return member;
+  const known = Object.keys(OBJECT_TYPES).find(keyword => objectType(keyword).collection === collection);
+  return known ?? collection.replace(/ies$/, 'y').replace(/s$/, '');
+}
+
+function pluralize(keyword: string): string {
+  return keyword.endsWith('y') ? `${keyword.slice(0, -1)}ies` : `${keyword}s`;
+}
+
+// -- TMDL -> JSON --
+
+export function nodeToObject(node: TmdlNode): TmslDefinition {
+  const type = objectType(node.keyword);
+  const result: TmslDefinition = {};
+  if (node.name !== undefined) result[type.nameKey] = node.name;
+  if (node.description !== undefined) result.description = node.description;
+  if (node.value !== undefined) result[type.valueKey ?? 'expression'] = node.value;
+  readChildren(node, result);
+
+  switch (node.keyword) {
+    case 'column':
+      if (result.expression !== undefined && result.type === undefined) result.type = 'calculated';
+      break;
+    case 'expression':
+      if (result.kind === undefined) result.kind = 'm';
+      break;
+    case 'relationship':
+      for (const side of ['from', 'to']) {
+        const reference = result[`${side}Column`];
+        if (typeof reference === 'string' && result[`${side}Table`] === undefined) {
+          const [table, column] = parseReference(reference);
+          if (column !== undefined) {
+            result[`${side}Table`] = table;
+            result[`${side}Column`] = column;
+          }
+        }
+      }
+      break;
+    case 'partition': {
+      const source: TmslDefinition = { type: node.value };
+      delete result.expression;
+      if (result.source !== undefined) source[node.value === 'query' ? 'query' : 'expression'] = result.source;
+      for (const key of PARTITION_SOURCE_PROPERTIES) {
+        if (result[key] !== undefined) {
+          source[key] = result[key];
+          delete result[key];
+        }
+      }
+      result.source = source;
+      break;
+    }
+    case 'table': {
+      // Columns of calculated tables are produced by the table expression
+      const partitions = (result.partitions as TmslDefinition[] | undefined) ?? [];
+      if (partitions.some(p => (p.source as TmslDefinition | undefined)?.type === 'calculated')) {
+        for (const column of (result.columns as TmslDefinition[] | undefined) ?? []) {
+          if (column.type === undefined) column.type = 'calculatedTableColumn';
+        }
+      }
+      break;
+    }
+    case 'cultureInfo': {
+      const translations = node.children.find(c => c.keyword === 'translations' && c.name === undefined);
+      if (translations) result.translations = translationsFromNode(translations);
+      break;
+    }
+    case 'hierarchy':
+      (result.levels as TmslDefinition[] | undefined)?.forEach((level, index) => {
+        if (level.ordinal === undefined) level.ordinal = index;
+      });
+      break;
+  }
+  return result;
+}
+
+function readChildren(node: TmdlNode, target: TmslDefinition): void {
+  for (const child of node.children) {
+    if (child.isRef) continue;
+    if (child.name !== undefined) {
+      const collection = objectType(child.keyword).collection;
+      const list = (target[collection] as TmslDefinition[] | undefined) ?? [];
+      list.push(nodeToObject(child));
+      target[collection] = list;
+    } else if (REPEATED_PROPERTIES[child.keyword]) {
+      const { collection, key } = REPEATED_PROPERTIES[child.keyword];
+      const list = (target[collection] as TmslDefinition[] | undefined) ?? [];
+      list.push({ [key]: child.value });
+      target[collection] = list;
+    } else if (child.children.length > 0 || NESTED_OBJECTS[child.keyword]) {
+      target[child.keyword] = nestedToObject(child);
+    } else {
+      target[child.keyword] = readScalar(child);
+    }
+  }
+}
+
+function nestedToObject(node: TmdlNode): TmslDefinition {
+  const result: TmslDefinition = {};
+  if (node.value !== undefined) result[NESTED_OBJECTS[node.keyword]?.valueKey ?? 'expression'] = node.value;
+  readChildren(node, result);
+  if (node.keyword === 'linguisticMetadata' && typeof result.content === 'string' && result.contentType !== 'xml') {
+    try {
+      result.content = JSON.parse(result.content);
+    } catch {
+      // Keep content that is not valid JSON as text
+    }
+  }
+  return result;
+}
+
+function readScalar(node: TmdlNode): unknown {
+  if (node.value === undefined) return true;
+  if (node.expression) return node.value;
+  if (node.value === 'true' || node.value === 'false') return node.value === 'true';
+  if (NUMERIC_PROPERTIES.has(node.keyword) && /^-?\d+(\.\d+)?$/.test(node.value)) return Number(node.value);
+  return node.value;
+}
+
+// -- JSON -> TMDL --
+
+export function objectToNode(keyword: string, object: TmslDefinition): TmdlNode {
+  const type = objectType(keyword);
+  const source = prepareForWrite(keyword, object);
+  const node: TmdlNode = { keyword, children: [] };
+  if (source[type.nameKey] !== undefined) node.name = String(source[type.nameKey]);
+  if (typeof source.description === 'string') node.description = source.description;
+
+  const valueKey = keyword === 'partition' ? '#sourceType' : type.valueKey;
+  if (valueKey && source[valueKey] !== undefined && source[valueKey] !== null) {
+    node.value = expressionText(source[valueKey]);
+    node.expression = true;
+  }
+
+  const skip = new Set([type.nameKey, 'description', valueKey ?? '']);
+  if (keyword === 'cultureInfo') skip.add('translations');
+  node.children = writeProperties(source, skip, keyword);
+  if (keyword === 'cultureInfo' && source.translations) {
+    node.children.push(translationsToNode(source.translations as TmslDefinition));
+  }
+  return node;
+}
+
+// Reshapes the JSON of objects whose TMDL form differs from TMSL
+function prepareForWrite(keyword: string, object: TmslDefinition): TmslDefinition {
+  const result = { ...object };
+  switch (keyword) {
+    case 'column':
+      if (result.type === 'calculated' || result.type === 'data' || result.type === 'calculatedTableColumn') {
+        delete result.type;
+      }
+      break;
+    case 'expression':
+      if (result.kind === 'm') delete result.kind;
+      break;
+    case 'level':
+      delete result.ordinal;
+      break;
+    case 'relationship':
+      for (const side of ['from', 'to']) {
+        if (result[`${side}Table`] !== undefined && result[`${side}Column`] !== undefined) {
+          result[`${side}Column`] = `${quoteName(String(result[`${side}Table`]))}.${quoteName(String(result[`${side}Column`]))}`;
+          delete result[`${side}Table`];
+        }
+      }
+      break;
+    case 'partition': {
+      const { type, expression, query, ...sourceProperties } = (result.source as TmslDefinition | undefined) ?? {};
+      delete result.source;
+      // Keep the partition's own properties ahead of the flattened source ones
+      Object.assign(result, { '#sourceType': type }, sourceProperties);
+      if (expression !== undefined || query !== undefined) result.source = expressionText(expression ?? query);
+      break;
+    }
+  }
+  return result;
+}
+
+function writeProperties(object: TmslDefinition, skip: Set<string>, parent?: string): TmdlNode[] {
+  const properties: TmdlNode[] = [];
+  const nested: TmdlNode[] = [];
+  const collections: TmdlNode[] = [];
+  const trailing: TmdlNode[] = [];
+
+  for (const [key, value] of Object.entries(object)) {
+    if (skip.has(key) || value === undefined || value === null) continue;
+
+    const repeated = Object.entries(REPEATED_PROPERTIES).find(([, r]) => r.collection === key);
+    if (repeated && Array.isArray(value)) {
+      const [keyword, { key: valueKey }] = repeated;
+      for (const entry of value as TmslDefinition[]) {
+        properties.push({ keyword, value: String(entry[valueKey]), expression: true, children: [] });
+      }
+    } else if (Array.isArray(value) && value.every(v => typeof v === 'string')) {
+      // TMSL splits multi-line expressions into arrays of lines
+      properties.push({ keyword: key, value: value.join('\n'), expression: true, children: [] });
+    } else if (Array.isArray(value)) {
+      const keyword = keywordForCollection(key, parent);
+      const nodes = (value as TmslDefinition[]).map(item => objectToNode(keyword, item));
+      (key === 'annotations' || key === 'extendedProperties' ? trailing : collections).push(...nodes);
+    } else if (typeof value === 'object') {
+      nested.push(nestedToNode(key, value as TmslDefinition));
+    } else if (value === true) {
+      properties.push({ keyword: key, children: [] });
+    } else if (typeof value === 'string' && (value.includes('\n') || EXPRESSION_PROPERTIES.has(key) || key === 'source')) {
+      properties.push({ keyword: key, value, expression: true, children: [] });
+    } else {
+      properties.push({ keyword: key, value: String(value), children: [] });
+    }
+  }
+  return [...properties, ...nested, ...collections, ...trailing];
+}
+
+function nestedToNode(keyword: string, object: TmslDefinition): TmdlNode {
+  const valueKey = NESTED_OBJECTS[keyword]?.valueKey;
+  const node: TmdlNode = { keyword, children: [] };
+  let value = valueKey ? object[valueKey] : undefined;
+  if (value !== undefined && valueKey === 'content' && typeof value === 'object') {
+    value = JSON.stringify(value, null, 2);
+  }
+  if (value !== undefined) {
+    node.value = expressionText(value);
+    node.expression = true;
+  }
+  node.children = writeProperties(object, new Set(valueKey ? [valueKey] : []));
+  return node;
+}
+
+function expressionText(value: unknown): string {
+  return Array.isArray(value) ? value.join('\n') : String(value);
+}
+
+// -- Culture translations --
+// TMSL nests translated objects under translations.model and prefixes their
+// properties (translatedCaption); TMDL mirrors the model tree with plain names:
+//   translations
+//     model Model
+//       table Sales
+//         caption: Vendas
+
+const TRANSLATED_PROPERTIES: Record<string, string> = {
+  caption: 'translatedCaption',
+  description: 'translatedDescription',
+  displayFolder: 'translatedDisplayFolder'
+};
+
+function translationsFromNode(node: TmdlNode): TmslDefinition {
+  const result: TmslDefinition = {};
+  for (const child of node.children) {
+    if (child.keyword === 'model' && child.name !== undefined) result.model = translatedObjectFromNode(child);
+  }
+  return result;
+}
+
+function translatedObjectFromNode(node: TmdlNode): TmslDefinition {
+  const result: TmslDefinition = { name: node.name };
+  for (const child of node.children) {
+    if (child.name !== undefined) {
+      const collection = pluralize(child.keyword);
+      result[collection] = [...((result[collection] as TmslDefinition[] | undefined) ?? []), translatedObjectFromNode(child)];
+    } else {
+      result[TRANSLATED_PROPERTIES[child.keyword] ?? child.keyword] = child.value ?? true;
+    }
+  }
+  return result;
+}
+
+function translationsToNode(translations: TmslDefinition): TmdlNode {
+  const node: TmdlNode = { keyword: 'translations', children: [] };
+  if (translations.model) node.children.push(translatedObjectToNode('model', translations.model as TmslDefinition));
+  return node;
+}
+
+function translatedObjectToNode(keyword: string, object: TmslDefinition): TmdlNode {
+  const node: TmdlNode = { keyword, name: String(object.name ?? 'Model'), children: [] };
+  const collections: TmdlNode[] = [];
+  for (const [key, value] of Object.entries(object)) {
+    if (key === 'name' || value === undefined || value === null) continue;
+    if (Array.isArray(value)) {
+      const childKeyword = key.replace(/ies$/, 'y').replace(/s$/, '');
+      collections.push(...(value as TmslDefinition[]).map(item => translatedObjectToNode(childKeyword, item)));
+    } else {
+      const property = Object.entries(TRANSLATED_PROPERTIES).find(([, translated]) => translated === key)?.[0] ?? key;
+      const text = String(value);
+      node.children.push(text.includes('\n')
+        ? { keyword: property, value: text, expression: true, children: [] }
+        : { keyword: property, value: text, children: [] });
+    }
+  }
+  node.children.push(...collections);
+  return node;
+}
+
+// ---- Definition folder ----
+
+// Relative file path (forward slashes) -> content
+export type TmdlFiles = Map<string, string>;
+
+// `sources`, when given, receives the file each object kept in its own file was
+// read from (keyed `tables/Sales`), so writes go back to the same files
+export function readTmdlFolder(files: TmdlFiles, sources?: Map<string, string>): TmslDatabase {
+  const database: TmslDatabase = { model: {} };
+  const refs = new Map<string, string[]>();
+  const objects: TmdlNode[] = [];
+
+  for (const [path, content] of [...files.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    const nodes = parseTmdl(content, path);
+    let owner: TmdlNode | undefined;
+    for (const node of nodes) {
+      if (TOP_LEVEL_OBJECTS.has(node.keyword) && !node.isRef) {
+        owner = node;
+        objects.push(node);
+        if (path.includes('/')) sources?.set(`${objectType(node.keyword).collection}/${node.name}`, path);
+      } else if (owner) {
+        owner.children.push(node);
+      } else {
+        throw new TmdlError(`'${node.keyword}' fora de um objeto`, path);
+      }
+    }
+  }
+
+  for (const node of objects) {
+    if (node.keyword === 'database') {
+      Object.assign(database, nodeToObject(node));
+    } else if (node.keyword === 'model') {
+      for (const ref of node.children.filter(c => c.isRef)) {
+        refs.set(ref.keyword, [...(refs.get(ref.keyword) ?? []), ref.name ?? '']);
+      }
+      const { name: _name, ...model } = nodeToObject(node);
+      Object.assign(database.model, model);
+    } else {
+      const collection = objectType(node.keyword).collection;
+      const list = (database.model[collection] as TmslDefinition[] | undefined) ?? [];
+      list.push(nodeToObject(node));
+      database.model[collection] = list;
+    }
+  }
+
+  // model.tmdl's ref lines fix the order of objects kept in separate files
+  for (const [keyword, names] of refs) {
+    const collection = objectType(keyword).collection;
+    const list = database.model[collection] as TmslDefinition[] | undefined;
+    if (!list) continue;
+    const rank = (item: TmslDefinition) => {
+      const index = names.indexOf(String(item.name));
+      return index === -1 ? names.length : index;
+    };
+    list.sort((a, b) => rank(a) - rank(b));
+  }
+  return database;
+}
+
+export function writeTmdlFolder(database: TmslDatabase, sources?: Map<string, string>): TmdlFiles {
+  const files: TmdlFiles = new Map();
+  const { model, ...databaseProperties } = database;
+
+  files.set('database.tmdl', serializeTmdl([objectToNode('database', databaseProperties)]));
+
+  const modelProperties: TmslDefinition = {};
+  for (const [key, value] of Object.entries(model)) {
+    if (!MODEL_COLLECTIONS[key] && key !== 'annotations') modelProperties[key] = value;
+  }
+  const modelNode = objectToNode('model', { name: 'Model', ...modelProperties });
+  const annotations = ((model.annotations as TmslDefinition[] | undefined) ?? []).map(a => objectToNode('annotation', a));
+  const modelRefs: TmdlNode[] = [];
+  for (const collection of ['tables', 'perspectives', 'roles', 'cultures']) {
+    for (const item of (model[collection] as TmslDefinition[] | undefined) ?? []) {
+      modelRefs.push({ keyword: MODEL_COLLECTIONS[collection], name: String(item.name), isRef: true, children: [] });
+    }
+  }
+  files.set('model.tmdl', serializeTmdl([modelNode, ...annotations, ...modelRefs]));
+
+  for (const [collection, keyword] of Object.entries(MODEL_COLLECTIONS)) {
+    const items = (model[collection] as TmslDefinition[] | undefined) ?? [];
+    if (items.length === 0) continue;
+    if (collection === 'relationships' || collection === 'expressions' || collection === 'dataSources') {
+      files.set(`${collection}.tmdl`, serializeTmdl(items.map(item => objectToNode(keyword, item))));
+    } else {
+      for (const item of items) {
+        const path = sources?.get(`${collection}/${item.name}`) ?? `${collection}/${fileName(String(item.name))}.tmdl`;
+        files.set(path, serializeTmdl([objectToNode(keyword, item)]));
+      }
+    }
+  }
+  return files;
+}
+
+function fileName(name: string): string {
+  return name.replace(/[<>:"/\\|?*\x00-\x1f]/g, '_');
+}
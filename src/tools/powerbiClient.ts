@@ -1,27 +1,88 @@
 import axios, { AxiosInstance } from 'axios';
 import { AuthProvider } from '../auth/authProvider.js';
-import { DaxQueryResult, SemanticModelSchema } from '../types/index.js';
+import { restApiScope } from '../auth/tokenScopes.js';
+import { DatasetLocation, DaxQueryResult, SemanticModelSchema, TmslDatabase } from '../types/index.js';
+import { XmlaClient } from './xmlaClient.js';
+import { XmlaRow } from './xmlaRowset.js';
+import { PbipProject, isPbipEndpoint, readModelDefinition } from './pbip/pbipProject.js';
+import { discoverModelDefinition } from './modelDefinition.js';
+import { recordCommand } from './auditTrail.js';
+import { UndoJournal } from './undoJournal.js';
+import { ToolError } from './toolErrors.js';
+import { installRequestPipeline, isIdempotentMethod, limiterForTenant } from './requestPipeline.js';
+import { compileFilter } from './odataFilter.js';
 
 // ============================================================
 // Power BI REST API Client
 // ============================================================
 
 const PBI_BASE_URL = 'https://api.powerbi.com/v1.0/myorg';
+// Requests to this API are sent with a Fabric token (see restApiScope)
+const FABRIC_BASE_URL = 'https://api.fabric.microsoft.com/v1';
+
+// POSTs that only read, and so can be resent after a transient failure
+const READ_ONLY_POSTS = /\/(executeQueries|generateDaxQuery)$/i;
+
+// Largest $top the list APIs accept in one page
+const LIST_PAGE_SIZE = 5000;
+
+// A window of a list API result, optionally filtered (OData $filter syntax)
+export interface ListOptions {
+  filter?: string;
+  skip?: number;
+  top?: number;
+}
+
+// A model transaction opened on an XMLA endpoint. Mutating TMSL commands are
+// buffered here until commit, when they are sent as a single `sequence` batch.
+export interface ModelTransaction {
+  id: string;
+  xmlaEndpoint: string;
+  databaseName?: string;
+  startedAt: string;
+  commands: Record<string, unknown>[];
+}
 
 export class PowerBiClient {
   private http: AxiosInstance;
   private auth: AuthProvider;
+  private xmla: XmlaClient;
+  private transactions = new Map<string, ModelTransaction>();
+  // Changes made through this client (this connection profile), for undo
+  readonly undoJournal = new UndoJournal();
+  // Last definition read of each database, with the DATE_MODIFIED it was read at
+  private definitions = new Map<string, { modified: string; definition: TmslDatabase }>();
+  // Where each semantic model lives, by dataset ID (see locateDataset)
+  private datasetLocations = new Map<string, DatasetLocation>();
 
   constructor(auth: AuthProvider) {
     this.auth = auth;
     this.http = axios.create({ baseURL: PBI_BASE_URL, timeout: 60_000 });
+    this.xmla = new XmlaClient((scope, forceRefresh) => this.accessToken(scope, forceRefresh), () => limiterForTenant(this.auth.tenantId));
 
-    // Inject auth token on every request
+    // Inject auth token on every request, for the API the URL points to
     this.http.interceptors.request.use(async (config) => {
-      const token = await this.auth.getAccessToken();
+      const token = await this.accessToken(restApiScope(config.url ?? ''));
       config.headers.Authorization = `Bearer ${token}`;
       return config;
     });
+
+    // Retries, throttling and the per-tenant concurrency limit
+    installRequestPipeline(this.http, () => limiterForTenant(this.auth.tenantId), config => ({
+      idempotent: isIdempotentMethod(config.method) || READ_ONLY_POSTS.test(config.url ?? ''),
+      refreshToken: async () => {
+        config.headers.Authorization = `Bearer ${await this.accessToken(restApiScope(config.url ?? ''), true)}`;
+      }
+    }));
+  }
+
+  // Token failures (MSAL, expired credentials) surface as AUTH_FAILED
+  private async accessToken(scope: string, forceRefresh = false): Promise<string> {
+    try {
+      return await this.auth.getAccessToken(scope, forceRefresh);
+    } catch (error) {
+      throw new ToolError('AUTH_FAILED', `Falha ao obter token de acesso: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   // ---- Semantic Model Schema ----
@@ -54,6 +115,7 @@ export class PowerBiClient {
   // ---- DAX Query Execution ----
 
   async executeQuery(datasetId: string, daxQuery: string, clearCache = false): Promise<DaxQueryResult> {
+    recordCommand({ kind: 'dax', target: datasetId, command: daxQuery });
     const response = await this.http.post(`/datasets/${datasetId}/executeQueries`, {
       queries: [{ query: daxQuery }],
       serializerSettings: { includeNulls: true },
@@ -85,34 +147,224 @@ export class PowerBiClient {
     return response.data;
   }
 
-  async listDatasets(groupId?: string): Promise<Record<string, unknown>[]> {
+  // The datasets API takes no OData options: the full list is read and filtered here
+  async listDatasets(groupId?: string, options: ListOptions = {}): Promise<Record<string, unknown>[]> {
     const url = groupId ? `/groups/${groupId}/datasets` : '/datasets';
-    const response = await this.http.get(url);
-    return response.data.value || [];
+    return filterAndSlice(await this.getAll(url), options);
+  }
+
+  // The workspace and name of a semantic model. The dataset API does not
+  // return its workspace, so on a miss every workspace the account sees is
+  // listed (and My workspace, which has none) and the whole map is refreshed.
+  async locateDataset(datasetId: string): Promise<DatasetLocation | undefined> {
+    const key = datasetId.trim().toLowerCase();
+    if (!this.datasetLocations.has(key)) {
+      const locations = new Map<string, DatasetLocation>();
+      for (const dataset of await this.listDatasets()) {
+        locations.set(String(dataset.id).toLowerCase(), { name: String(dataset.name) });
+      }
+      for (const workspace of await this.listWorkspaces()) {
+        for (const dataset of await this.listDatasets(String(workspace.id))) {
+          locations.set(String(dataset.id).toLowerCase(), {
+            name: String(dataset.name),
+            workspaceId: String(workspace.id),
+            workspaceName: String(workspace.name)
+          });
+        }
+      }
+      this.datasetLocations = locations;
+    }
+    return this.datasetLocations.get(key);
   }
 
-  async listWorkspaces(): Promise<Record<string, unknown>[]> {
-    const response = await this.http.get('/groups');
-    return response.data.value || [];
+  // /groups pages and filters server-side ($top, $skip, $filter)
+  async listWorkspaces(options: ListOptions = {}): Promise<Record<string, unknown>[]> {
+    const items: Record<string, unknown>[] = [];
+    const wanted = options.top ?? Infinity;
+    let skip = options.skip ?? 0;
+    while (items.length < wanted) {
+      const top = Math.min(LIST_PAGE_SIZE, wanted - items.length);
+      const page = await this.getAll('/groups', { $top: top, $skip: skip, $filter: options.filter });
+      items.push(...page);
+      if (page.length < top) break;
+      skip += page.length;
+    }
+    return items.slice(0, wanted);
+  }
+
+  // Fabric items of a workspace (lakehouses, warehouses, notebooks, semantic
+  // models...), optionally of one type. The API has no OData options: pages
+  // are followed by continuationUri and the list is filtered here.
+  async listFabricItems(workspaceId: string, type?: string, options: ListOptions = {}): Promise<Record<string, unknown>[]> {
+    const query = type ? `?type=${encodeURIComponent(type)}` : '';
+    let response = await this.http.get(`${FABRIC_BASE_URL}/workspaces/${encodeURIComponent(workspaceId)}/items${query}`);
+    const items: Record<string, unknown>[] = [...(response.data.value || [])];
+    while (response.data.continuationUri) {
+      response = await this.http.get(response.data.continuationUri);
+      items.push(...(response.data.value || []));
+    }
+    return filterAndSlice(items, options);
+  }
+
+  // Reads a list and every page after it (@odata.nextLink)
+  private async getAll(url: string, query: Record<string, string | number | undefined> = {}): Promise<Record<string, unknown>[]> {
+    const params = Object.entries(query)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+      .join('&');
+    let response = await this.http.get(params ? `${url}?${params}` : url);
+    const items: Record<string, unknown>[] = [...(response.data.value || [])];
+    while (response.data['@odata.nextLink']) {
+      response = await this.http.get(response.data['@odata.nextLink']);
+      items.push(...(response.data.value || []));
+    }
+    return items;
   }
 
   // ---- XMLA / TMSL Operations ----
-  // Used for modeling operations via the XMLA endpoint
+  // Used for modeling operations via the XMLA endpoint: discovers are sent as
+  // SOAP Discover requests and every other TMSL command as a SOAP Execute.
+  // pbip://<path> endpoints are served offline from the project files.
 
   async executeTmsl(xmlaEndpoint: string, tmslCommand: unknown): Promise<unknown> {
-    const token = await this.auth.getAccessToken();
-    const response = await axios.post(
-      xmlaEndpoint,
-      { execute: { Commands: [{ Statement: JSON.stringify(tmslCommand) }] } },
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 120_000
-      }
+    // Inside a transaction, everything but discovers is queued until commit
+    const transaction = this.getTransaction(xmlaEndpoint);
+    if (transaction && !isDiscoverCommand(tmslCommand)) {
+      recordCommand({ kind: 'tmsl', target: xmlaEndpoint, command: tmslCommand, queued: true });
+      transaction.commands.push(...flattenSequence(tmslCommand as Record<string, unknown>));
+      return {
+        queued: true,
+        transactionId: transaction.id,
+        pendingCommands: transaction.commands.length
+      };
+    }
+    return this.sendTmsl(xmlaEndpoint, tmslCommand);
+  }
+
+  // Runs a TMSCHEMA_* discover and returns its rows
+  async discover(
+    xmlaEndpoint: string,
+    requestType: string,
+    restrictions: Record<string, unknown>
+  ): Promise<XmlaRow[]> {
+    if (isPbipEndpoint(xmlaEndpoint)) {
+      return (await PbipProject.open(xmlaEndpoint)).discover(requestType, restrictions);
+    }
+    return this.xmla.discover(xmlaEndpoint, requestType, restrictions);
+  }
+
+  // Full TMSL definition of a database, as a createOrReplace would carry it
+  async getModelDefinition(xmlaEndpoint: string, databaseName: string): Promise<TmslDatabase> {
+    if (isPbipEndpoint(xmlaEndpoint)) return readModelDefinition(xmlaEndpoint);
+    return discoverModelDefinition(
+      requestType => this.xmla.discover(xmlaEndpoint, requestType, { DatabaseName: databaseName }),
+      databaseName
     );
-    return response.data;
+  }
+
+  // Like getModelDefinition, but undefined when the database does not exist.
+  // The definition is read again only when the catalog's DATE_MODIFIED moved
+  // or this client sent the database a command since, so the undo journal's
+  // snapshot before a call is usually the one read after the previous call.
+  async findModelDefinition(xmlaEndpoint: string, databaseName: string): Promise<TmslDatabase | undefined> {
+    if (isPbipEndpoint(xmlaEndpoint)) return this.getModelDefinition(xmlaEndpoint, databaseName);
+    const key = definitionKey(xmlaEndpoint, databaseName);
+    const catalogs = await this.discover(xmlaEndpoint, 'DBSCHEMA_CATALOGS', {});
+    const catalog = catalogs.find(c => String(c.CATALOG_NAME).toLowerCase() === databaseName.toLowerCase());
+    if (!catalog) {
+      this.definitions.delete(key);
+      return undefined;
+    }
+    const stamp = catalog.DATE_MODIFIED;
+    const modified = stamp instanceof Date ? stamp.toISOString() : stamp == null ? undefined : String(stamp);
+    const cached = this.definitions.get(key);
+    if (modified && cached?.modified === modified) return structuredClone(cached.definition);
+    const definition = await this.getModelDefinition(xmlaEndpoint, databaseName);
+    if (modified) this.definitions.set(key, { modified, definition: structuredClone(definition) });
+    return definition;
+  }
+
+  private async sendTmsl(xmlaEndpoint: string, tmslCommand: unknown): Promise<unknown> {
+    const command = tmslCommand as Record<string, unknown>;
+    if (isDiscoverCommand(command)) {
+      const { requestType, restrictions } = command.discover as {
+        requestType: string;
+        restrictions?: Record<string, unknown>;
+      };
+      return this.discover(xmlaEndpoint, requestType, restrictions ?? {});
+    }
+    const databaseName = findDatabaseName(command);
+    // Commands without a database name are not journaled
+    if (databaseName) {
+      await this.undoJournal.captureBeforeChange(xmlaEndpoint, databaseName, command,
+        () => this.findModelDefinition(xmlaEndpoint, databaseName));
+      this.definitions.delete(definitionKey(xmlaEndpoint, databaseName));
+    }
+    recordCommand({ kind: 'tmsl', target: xmlaEndpoint, command });
+    if (isPbipEndpoint(xmlaEndpoint)) {
+      const warnings = await (await PbipProject.open(xmlaEndpoint)).execute(command);
+      return { success: true, ...(warnings.length > 0 && { warnings }) };
+    }
+    const result = await this.xmla.execute(xmlaEndpoint, command, databaseName);
+    return {
+      success: true,
+      ...(result.rows.length > 0 && { rows: result.rows }),
+      ...(result.messages.length > 0 && { warnings: result.messages.map(m => m.description) })
+    };
+  }
+
+  // ---- Transactions ----
+
+  beginTransaction(xmlaEndpoint: string, databaseName?: string): ModelTransaction {
+    const key = transactionKey(xmlaEndpoint);
+    const existing = this.transactions.get(key);
+    if (existing) {
+      throw new Error(
+        `Já existe uma transação aberta (${existing.id}) neste endpoint. Confirme ou reverta antes de iniciar outra.`
+      );
+    }
+    const transaction: ModelTransaction = {
+      id: `tx-${Date.now().toString(36)}`,
+      xmlaEndpoint,
+      databaseName,
+      startedAt: new Date().toISOString(),
+      commands: []
+    };
+    this.transactions.set(key, transaction);
+    return transaction;
+  }
+
+  getTransaction(xmlaEndpoint: string): ModelTransaction | undefined {
+    return this.transactions.get(transactionKey(xmlaEndpoint));
+  }
+
+  listTransactions(): ModelTransaction[] {
+    return [...this.transactions.values()];
+  }
+
+  async commitTransaction(xmlaEndpoint: string): Promise<ModelTransaction> {
+    const transaction = this.requireTransaction(xmlaEndpoint);
+    if (transaction.commands.length > 0) {
+      await this.sendTmsl(xmlaEndpoint, { sequence: { operations: transaction.commands } });
+    }
+    // Only forget the transaction once the batch went through, so a failed
+    // commit can be retried or rolled back explicitly
+    this.transactions.delete(transactionKey(xmlaEndpoint));
+    return transaction;
+  }
+
+  rollbackTransaction(xmlaEndpoint: string): ModelTransaction {
+    const transaction = this.requireTransaction(xmlaEndpoint);
+    this.transactions.delete(transactionKey(xmlaEndpoint));
+    return transaction;
+  }
+
+  private requireTransaction(xmlaEndpoint: string): ModelTransaction {
+    const transaction = this.getTransaction(xmlaEndpoint);
+    if (!transaction) {
+      throw new Error('Nenhuma transação aberta neste endpoint. Use a operação begin primeiro.');
+    }
+    return transaction;
   }
 
   // ---- Refresh Operations ----
@@ -124,11 +376,61 @@ export class PowerBiClient {
     await this.http.post(url, { notifyOption: 'NoNotification' });
   }
 
-  async getRefreshHistory(datasetId: string, groupId?: string): Promise<Record<string, unknown>[]> {
+  // Newest first. $top is the only option the refreshes API takes, so skip and
+  // filter are applied here
+  async getRefreshHistory(datasetId: string, groupId?: string, options: ListOptions = {}): Promise<Record<string, unknown>[]> {
     const url = groupId
       ? `/groups/${groupId}/datasets/${datasetId}/refreshes`
       : `/datasets/${datasetId}/refreshes`;
-    const response = await this.http.get(url);
-    return response.data.value || [];
+    const top = options.top !== undefined && !options.filter ? (options.skip ?? 0) + options.top : undefined;
+    return filterAndSlice(await this.getAll(url, { $top: top }), options);
+  }
+}
+
+// ---- List helpers ----
+
+function filterAndSlice(items: Record<string, unknown>[], options: ListOptions): Record<string, unknown>[] {
+  const matching = options.filter ? items.filter(compileFilter(options.filter)) : items;
+  const skip = options.skip ?? 0;
+  return matching.slice(skip, options.top === undefined ? undefined : skip + options.top);
+}
+
+// ---- TMSL helpers ----
+
+function transactionKey(xmlaEndpoint: string): string {
+  return xmlaEndpoint.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+function definitionKey(xmlaEndpoint: string, databaseName: string): string {
+  return `${transactionKey(xmlaEndpoint)}|${databaseName.toLowerCase()}`;
+}
+
+function isDiscoverCommand(tmslCommand: unknown): boolean {
+  return typeof tmslCommand === 'object' && tmslCommand !== null && 'discover' in tmslCommand;
+}
+
+// The catalog a command targets, used to route it to the right XMLA server
+function findDatabaseName(tmslCommand: Record<string, unknown>): string | undefined {
+  for (const body of Object.values(tmslCommand)) {
+    if (typeof body !== 'object' || body === null) continue;
+    const { object, objects, operations, database } = body as Record<string, unknown>;
+    const target = (object ?? (objects as unknown[] | undefined)?.[0]) as { database?: string } | undefined;
+    if (target?.database) return target.database;
+    if (typeof database === 'object' && database !== null && 'name' in database) {
+      return String((database as { name: unknown }).name);
+    }
+    if (Array.isArray(operations) && operations.length > 0) {
+      return findDatabaseName(operations[0] as Record<string, unknown>);
+    }
+  }
+  return undefined;
+}
+
+// A sequence cannot contain another sequence, so nested batches are unrolled
+function flattenSequence(tmslCommand: Record<string, unknown>): Record<string, unknown>[] {
+  const sequence = tmslCommand.sequence as { operations?: Record<string, unknown>[] } | undefined;
+  if (sequence?.operations) {
+    return sequence.operations.flatMap(flattenSequence);
   }
+  return [tmslCommand];
 }
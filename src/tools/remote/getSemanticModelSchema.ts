@@ -1,10 +1,12 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { PowerBiClient } from '../powerbiClient.js';
+import { SemanticModelSchema } from '../../types/index.js';
+import { buildSemanticModelSchema, SchemaRowsets, SCHEMA_ROWSET_TYPES } from '../modelSchema.js';
 
 export const definition: Tool = {
   name: 'get_semantic_model_schema',
   description:
-    'Recupera metadados completos de um modelo semântico do Power BI: tabelas, colunas, medidas, relacionamentos, tipos de dados e hierarquias.',
+    'Recupera metadados completos de um modelo semântico do Power BI: tabelas, colunas, medidas, relacionamentos, tipos de dados e hierarquias. Informe semanticModelId (REST API) ou xmlaEndpoint e databaseName (XMLA ou projeto pbip://).',
   inputSchema: {
     type: 'object',
     properties: {
@@ -12,21 +14,36 @@ export const definition: Tool = {
         type: 'string',
         description: 'ID do modelo semântico (dataset) do Power BI. Encontre na URL: app.powerbi.com/groups/{workspaceId}/datasets/{semanticModelId}'
       },
+      xmlaEndpoint: {
+        type: 'string',
+        description: 'Endpoint XMLA ou pbip://<caminho> (alternativa ao semanticModelId)'
+      },
+      databaseName: {
+        type: 'string',
+        description: 'Nome do banco de dados/modelo (com xmlaEndpoint)'
+      },
       includeHidden: {
         type: 'boolean',
         description: 'Incluir objetos ocultos (tabelas, colunas, medidas). Padrão: false',
         default: false
       }
     },
-    required: ['semanticModelId']
+    required: []
   }
 };
 
 export async function handler(
-  args: { semanticModelId: string; includeHidden?: boolean },
+  args: { semanticModelId?: string; xmlaEndpoint?: string; databaseName?: string; includeHidden?: boolean },
   client: PowerBiClient
 ): Promise<unknown> {
-  const schema = await client.getSemanticModelSchema(args.semanticModelId);
+  let schema: SemanticModelSchema;
+  if (args.semanticModelId) {
+    schema = await client.getSemanticModelSchema(args.semanticModelId);
+  } else if (args.xmlaEndpoint) {
+    schema = await getSchemaFromXmla(client, args.xmlaEndpoint, args.databaseName);
+  } else {
+    throw new Error('Informe semanticModelId ou xmlaEndpoint');
+  }
 
   // Filter hidden objects unless explicitly requested
   if (!args.includeHidden) {
@@ -46,8 +63,30 @@ export async function handler(
   };
 
   return {
-    semanticModelId: args.semanticModelId,
+    ...(args.semanticModelId ? { semanticModelId: args.semanticModelId } : { xmlaEndpoint: args.xmlaEndpoint, databaseName: args.databaseName }),
     summary,
     schema
   };
 }
+
+async function getSchemaFromXmla(
+  client: PowerBiClient,
+  xmlaEndpoint: string,
+  databaseName?: string
+): Promise<SemanticModelSchema> {
+  const restrictions = databaseName ? { DatabaseName: databaseName } : {};
+  const discover = (key: keyof SchemaRowsets) => client.discover(xmlaEndpoint, SCHEMA_ROWSET_TYPES[key], restrictions);
+
+  const [tables, columns, measures] = await Promise.all([
+    discover('tables'),
+    discover('columns'),
+    discover('measures')
+  ]);
+  const [relationships, hierarchies, levels] = await Promise.all([
+    discover('relationships').catch(() => []),
+    discover('hierarchies').catch(() => []),
+    discover('levels').catch(() => [])
+  ]);
+
+  return buildSemanticModelSchema({ tables, columns, measures, relationships, hierarchies, levels });
+}
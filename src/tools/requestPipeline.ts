@@ -0,0 +1,169 @@
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+// ============================================================
+// Request pipeline
+// Resilience for calls to the Power BI service: a concurrency
+// limit per tenant, Retry-After on 429, exponential backoff with
+// jitter for idempotent calls and one token refresh on 401.
+// Used by the REST client (as an axios adapter) and the XMLA
+// client.
+// ============================================================
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 4,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000
+};
+
+// Requests in flight per tenant; Power BI throttles per user/tenant, not per call site
+const MAX_CONCURRENT_REQUESTS = 4;
+
+// Retry-After values above this are not worth waiting for inside a tool call
+const MAX_RETRY_AFTER_MS = 120_000;
+
+export interface RequestPolicy {
+  // Safe to resend after a 5xx or a dropped connection (reads, DAX queries)
+  idempotent: boolean;
+  // Statuses worth retrying for idempotent calls. XMLA reports faults as HTTP
+  // 500, so its calls only retry gateway errors.
+  transientStatuses?: number[];
+  // Gets a new token and applies it to the next attempt; called once, on the first 401
+  refreshToken?: () => Promise<void>;
+}
+
+const DEFAULT_TRANSIENT_STATUSES = [500, 502, 503, 504];
+
+const TRANSIENT_NETWORK_ERRORS = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN', 'ERR_NETWORK'];
+
+// Limits the requests in flight. A 429 pauses every request of the tenant,
+// not just the one that got it, until Retry-After has passed.
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private resumeAt = 0;
+
+  constructor(private readonly max: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.max) {
+      this.active++;
+    } else {
+      // The slot is handed over by the request that finishes
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    try {
+      while (Date.now() < this.resumeAt) await sleep(this.resumeAt - Date.now());
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+
+  pause(ms: number): void {
+    this.resumeAt = Math.max(this.resumeAt, Date.now() + ms);
+  }
+}
+
+const limiters = new Map<string, ConcurrencyLimiter>();
+
+export function limiterForTenant(tenantId: string): ConcurrencyLimiter {
+  const key = tenantId.toLowerCase();
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new ConcurrencyLimiter(MAX_CONCURRENT_REQUESTS);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+// Sends a request through the limiter, retrying as the policy allows. `send`
+// may reject with an AxiosError or resolve with an error status (validateStatus).
+export async function sendWithRetry(
+  send: () => Promise<AxiosResponse>,
+  limiter: ConcurrencyLimiter,
+  policy: RequestPolicy,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<AxiosResponse> {
+  let refreshed = false;
+  for (let attempt = 0; ; attempt++) {
+    let response: AxiosResponse | undefined;
+    let error: unknown;
+    try {
+      response = await limiter.run(send);
+    } catch (e) {
+      error = e;
+      response = axios.isAxiosError(e) ? e.response : undefined;
+    }
+    const status = response?.status;
+
+    if (status === 401 && policy.refreshToken && !refreshed) {
+      refreshed = true;
+      await policy.refreshToken();
+      continue;
+    }
+    if (attempt < options.maxRetries) {
+      // Throttled requests were not processed, so any method can be resent
+      const retryAfter = parseRetryAfterMs(response?.headers?.['retry-after']);
+      if (status === 429 || (status === 503 && retryAfter !== undefined)) {
+        const delay = retryAfter ?? backoffDelay(attempt, options);
+        if (delay <= MAX_RETRY_AFTER_MS) {
+          limiter.pause(delay);
+          await sleep(delay);
+          continue;
+        }
+      } else if (policy.idempotent && isTransient(status, error, policy)) {
+        await sleep(backoffDelay(attempt, options));
+        continue;
+      }
+    }
+
+    if (error) throw error;
+    return response!;
+  }
+}
+
+// Routes every request of an axios instance through the pipeline. The request
+// interceptors (auth header) have already run when the adapter is called.
+export function installRequestPipeline(
+  http: AxiosInstance,
+  limiter: () => ConcurrencyLimiter,
+  policyFor: (config: InternalAxiosRequestConfig) => RequestPolicy
+): void {
+  const adapter = axios.getAdapter(http.defaults.adapter);
+  http.defaults.adapter = config => sendWithRetry(() => adapter(config), limiter(), policyFor(config));
+}
+
+export function isIdempotentMethod(method: string | undefined): boolean {
+  return ['get', 'head', 'options', 'put', 'delete'].includes((method ?? 'get').toLowerCase());
+}
+
+function isTransient(status: number | undefined, error: unknown, policy: RequestPolicy): boolean {
+  if (status !== undefined) return (policy.transientStatuses ?? DEFAULT_TRANSIENT_STATUSES).includes(status);
+  return axios.isAxiosError(error) && TRANSIENT_NETWORK_ERRORS.includes(error.code ?? '');
+}
+
+// Full jitter: a random delay up to base * 2^attempt, capped
+function backoffDelay(attempt: number, options: RetryOptions): number {
+  return Math.round(Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt));
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfterMs(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,231 @@
+import axios, { AxiosError } from 'axios';
+import { XmlaError } from './xmlaClient.js';
+import { XmlaMessage } from './xmlaRowset.js';
+import { ToolValidationError, ValidationIssue } from './validation.js';
+import { AccessDeniedError } from '../config/accessPolicy.js';
+
+// ============================================================
+// Tool errors
+// Classifies what a tool call threw — HTTP errors from the Power
+// BI REST API, XMLA faults, token failures, validation issues —
+// into a small taxonomy with a machine-readable code and a hint,
+// returned to the client as an isError tool result so the agent
+// can correct the call instead of giving up.
+// ============================================================
+
+export type ToolErrorCode =
+  | 'AUTH_FAILED'
+  | 'PERMISSION_DENIED'
+  | 'NOT_FOUND'
+  | 'THROTTLED'
+  | 'DAX_SYNTAX_ERROR'
+  | 'XMLA_FAULT'
+  | 'VALIDATION_ERROR'
+  | 'CONNECTION_FAILED'
+  | 'SERVICE_ERROR'
+  | 'INTERNAL_ERROR';
+
+export interface ToolErrorDetails {
+  hint?: string;                // overrides the code's default hint
+  httpStatus?: number;
+  powerBiCode?: string;         // e.g. PowerBIEntityNotFound, DatasetExecuteQueriesError
+  xmlaCode?: string;            // Analysis Services ErrorCode
+  location?: { line: number; column: number };
+  retryAfterSeconds?: number;
+  issues?: ValidationIssue[];
+  messages?: XmlaMessage[];
+}
+
+export interface ToolErrorInfo extends ToolErrorDetails {
+  code: ToolErrorCode;
+  message: string;
+  hint: string;
+  retryable: boolean;
+}
+
+// An error a tool already knows how to classify
+export class ToolError extends Error {
+  constructor(
+    readonly code: ToolErrorCode,
+    message: string,
+    readonly details: ToolErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+const HINTS: Record<ToolErrorCode, string> = {
+  AUTH_FAILED: 'Autentique-se novamente (comando "PowerBi MCP AeC: Limpar Token de Autenticação" e nova chamada) e confira tenantId, clientId e o método de autenticação nas configurações.',
+  PERMISSION_DENIED: 'A conta autenticada não tem acesso ao recurso. Confira o papel no workspace (Membro ou Colaborador para alterações) e se o XMLA de leitura/gravação está habilitado na capacidade.',
+  NOT_FOUND: 'Confira o nome ou ID informado: liste os workspaces, modelos ou objetos disponíveis (database_operations list, get_semantic_model_schema ou a operação list da ferramenta) e repita com um valor existente.',
+  THROTTLED: 'Limite de requisições do Power BI atingido. Aguarde antes de repetir e evite chamadas em paralelo.',
+  DAX_SYNTAX_ERROR: 'Corrija a expressão DAX e valide com dax_query_operations (validate_syntax) antes de repetir.',
+  XMLA_FAULT: 'O Analysis Services rejeitou o comando. Leia a descrição em messages, confira nomes e dependências dos objetos (operações get/list) e ajuste o comando antes de repetir.',
+  VALIDATION_ERROR: 'Corrija os argumentos conforme o inputSchema da ferramenta e repita a chamada.',
+  CONNECTION_FAILED: 'Não foi possível conectar ao endpoint. Confira a URL ou porta e a rede; para o Power BI Desktop, verifique se o arquivo .pbix está aberto.',
+  SERVICE_ERROR: 'O serviço do Power BI falhou ao processar a requisição. Repita em alguns instantes.',
+  INTERNAL_ERROR: 'Erro inesperado no servidor MCP. Consulte o log do PowerBi MCP AeC no painel Output.'
+};
+
+const RETRYABLE: ToolErrorCode[] = ['THROTTLED', 'CONNECTION_FAILED', 'SERVICE_ERROR'];
+
+// Power BI codes that mean the token, not the account's access, is the problem
+const TOKEN_CODES = /TokenExpired|InvalidToken|InvalidAuthenticationToken|Unauthorized/i;
+
+// "Query (3, 15) The syntax for 'FROM' is incorrect." / "line 3, column 15"
+const DAX_LOCATION = /\(\s*(\d+)\s*,\s*(\d+)\s*\)|\bline\s+(\d+)\s*,\s*(?:column|position)\s+(\d+)/i;
+const DAX_ERROR = /^Erro DAX|syntax for|sintaxe|failed to resolve name|cannot find table/i;
+
+const NOT_FOUND = /does not exist|doesn't exist|cannot be found|could not be found|not found|não encontrad[oa]|não existe/i;
+const PERMISSION = /permission|access denied|not authorized|unauthorized|sem permissão|acesso negado|não autorizad[oa]/i;
+
+// Turns anything a tool call threw into a classified error
+export function classifyError(error: unknown): ToolErrorInfo {
+  if (error instanceof ToolError) return build(error.code, error.message, error.details);
+  if (error instanceof ToolValidationError) {
+    return build('VALIDATION_ERROR', error.message, { issues: error.issues });
+  }
+  if (error instanceof AccessDeniedError) {
+    return build('PERMISSION_DENIED', error.message, {
+      hint: 'A política de acesso (powerbiMcpAec.accessPolicy) bloqueia este alvo. Use um workspace, modelo ou tabela permitido — não repita a chamada com o mesmo alvo.'
+    });
+  }
+  if (error instanceof XmlaError) return fromXmlaError(error);
+  if (axios.isAxiosError(error)) return fromHttpError(error);
+
+  const message = error instanceof Error ? error.message : String(error);
+  // Handlers report missing objects and arguments with plain errors
+  if (NOT_FOUND.test(message)) return build('NOT_FOUND', message);
+  if (/obrigatóri[oa]|desconhecid[oa]|inválid[oa]/i.test(message)) return build('VALIDATION_ERROR', message);
+  return build('INTERNAL_ERROR', message);
+}
+
+// The MCP tool result for a failed call
+export function toolErrorResult(toolName: string, info: ToolErrorInfo) {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({ tool: toolName, error: info }, null, 2)
+      }
+    ]
+  };
+}
+
+// Line and column of a DAX error, as reported by the engine
+export function daxErrorLocation(message: string): { line: number; column: number } | undefined {
+  const match = DAX_LOCATION.exec(message);
+  if (!match) return undefined;
+  return { line: Number(match[1] ?? match[3]), column: Number(match[2] ?? match[4]) };
+}
+
+// The engine's message and, when it reports one, where the expression breaks.
+// Validation wraps the expression in a query, so on its first line the
+// column is moved back by the length of the prefix the expression got.
+export function invalidDax(error: unknown, prefix: string): { error: string; location?: { line: number; column: number } } {
+  const { message, location } = classifyError(error);
+  if (!location) return { error: message };
+  const column = location.line === 1 ? Math.max(1, location.column - prefix.length) : location.column;
+  return { error: message, location: { line: location.line, column } };
+}
+
+function fromXmlaError(error: XmlaError): ToolErrorInfo {
+  const details: ToolErrorDetails = {
+    ...(error.httpStatus !== undefined && error.httpStatus >= 400 && { httpStatus: error.httpStatus }),
+    ...(error.code && { xmlaCode: error.code }),
+    ...(error.messages.length > 0 && { messages: error.messages })
+  };
+  if (error.httpStatus === 401) return build('AUTH_FAILED', error.message, details);
+  if (error.httpStatus === 403) return build('PERMISSION_DENIED', error.message, details);
+  if (error.httpStatus === 429 || error.httpStatus === 503) return build('THROTTLED', error.message, details);
+  const location = daxErrorLocation(error.message);
+  if (location || DAX_ERROR.test(error.message)) {
+    return build('DAX_SYNTAX_ERROR', error.message, { ...details, ...(location && { location }) });
+  }
+  if (NOT_FOUND.test(error.message)) return build('NOT_FOUND', error.message, details);
+  if (PERMISSION.test(error.message)) return build('PERMISSION_DENIED', error.message, details);
+  // Raised before anything reached the engine: malformed or unsupported endpoint
+  if (error.httpStatus === undefined && /inválido|não suportado/i.test(error.message)) {
+    return build('VALIDATION_ERROR', error.message, details);
+  }
+  return build('XMLA_FAULT', error.message, details);
+}
+
+interface PowerBiErrorBody {
+  error?: {
+    code?: string;
+    message?: string;
+    'pbi.error'?: {
+      code?: string;
+      details?: Array<{ code?: string; detail?: { value?: string } }>;
+    };
+  };
+}
+
+function fromHttpError(error: AxiosError): ToolErrorInfo {
+  const response = error.response;
+  if (!response) {
+    const code = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? 'tempo esgotado' : error.code ?? 'sem resposta';
+    return build('CONNECTION_FAILED', `Falha de conexão com ${error.config?.baseURL ?? ''}${error.config?.url ?? ''} (${code}): ${error.message}`);
+  }
+
+  const body = (typeof response.data === 'object' ? response.data : {}) as PowerBiErrorBody;
+  const pbiError = body.error?.['pbi.error'];
+  const powerBiCode = body.error?.code ?? pbiError?.code;
+  const detail = pbiError?.details?.find(d => d.code === 'DetailsMessage')?.detail?.value;
+  const status = response.status;
+  const message = detail ?? body.error?.message ?? `API do Power BI respondeu HTTP ${status}${powerBiCode ? ` (${powerBiCode})` : ''}`;
+  const details: ToolErrorDetails = { httpStatus: status, ...(powerBiCode && { powerBiCode }) };
+
+  if (status === 429 || (status === 503 && response.headers['retry-after'] !== undefined)) {
+    const retryAfterSeconds = parseRetryAfter(response.headers['retry-after']);
+    return build('THROTTLED', message, {
+      ...details,
+      ...(retryAfterSeconds !== undefined && {
+        retryAfterSeconds,
+        hint: `Limite de requisições do Power BI atingido. Aguarde ${retryAfterSeconds} s antes de repetir e evite chamadas em paralelo.`
+      })
+    });
+  }
+  if (status === 401 || (status === 403 && powerBiCode && TOKEN_CODES.test(powerBiCode))) {
+    return build('AUTH_FAILED', message, details);
+  }
+  if (status === 403) return build('PERMISSION_DENIED', message, details);
+  if (status === 404) return build('NOT_FOUND', message, details);
+
+  const location = daxErrorLocation(message);
+  if (status === 400 && (location || /ExecuteQueries/i.test(powerBiCode ?? ''))) {
+    return build('DAX_SYNTAX_ERROR', message, { ...details, ...(location && { location }) });
+  }
+  if (status >= 400 && status < 500) return build('VALIDATION_ERROR', message, details);
+  return build('SERVICE_ERROR', message, details);
+}
+
+function build(code: ToolErrorCode, message: string, details: ToolErrorDetails = {}): ToolErrorInfo {
+  const { hint, ...rest } = details;
+  return {
+    code,
+    message,
+    hint: hint ?? defaultHint(code, details),
+    retryable: RETRYABLE.includes(code),
+    ...rest
+  };
+}
+
+function defaultHint(code: ToolErrorCode, details: ToolErrorDetails): string {
+  if (code === 'DAX_SYNTAX_ERROR' && details.location) {
+    return `Corrija a expressão DAX na linha ${details.location.line}, coluna ${details.location.column}, e valide com dax_query_operations (validate_syntax) antes de repetir.`;
+  }
+  return HINTS[code];
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
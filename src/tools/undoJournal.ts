@@ -0,0 +1,190 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { TmslDatabase, TmslDefinition } from '../types/index.js';
+import { CollectionDiff, buildSyncScript, diffModels, hasDifferences } from './modelDiff.js';
+
+// ============================================================
+// Undo journal
+// Before a mutating tool call first changes a model, the model is
+// snapshotted (via discover); when the call ends it is read again
+// and the TMSL that restores the snapshot is kept in the journal.
+// transaction_operations replays it on undo / undo_last. Each
+// PowerBiClient (one per connection profile) keeps its own journal.
+// ============================================================
+
+const MAX_ENTRIES = 50;
+
+// Commands that change a model's definition; refreshes only touch data
+const SCHEMA_COMMANDS = ['createOrReplace', 'create', 'alter', 'delete'];
+
+export interface UndoEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  operation?: string;
+  xmlaEndpoint: string;
+  databaseName: string;
+  // Objects the call changed, by collection
+  changes: Record<string, { added: string[]; removed: string[]; changed: string[] }>;
+  inverse: TmslDefinition;
+  // Objects left without data after undoing, until refreshed
+  requiresRefresh: string[];
+  undoOf?: string;              // set on the entry recorded by an undo (undoing it redoes)
+  undoneAt?: string;
+}
+
+type ModelLoader = () => Promise<TmslDatabase | undefined>;
+
+interface Snapshot {
+  xmlaEndpoint: string;
+  databaseName: string;
+  // Resolves to false when the model could not be read: the call then goes
+  // ahead without a journal entry rather than being blocked
+  before: Promise<TmslDatabase | undefined | false>;
+  load: ModelLoader;
+}
+
+interface JournalScope {
+  journal: UndoJournal;
+  snapshots: Map<string, Snapshot>;
+  undoOf?: string;
+}
+
+const scope = new AsyncLocalStorage<JournalScope>();
+
+export class UndoJournal {
+  private entries: UndoEntry[] = [];
+
+  // Runs a mutating tool call, journaling the models it changes. When the call
+  // fails midway, what it already applied is journaled all the same.
+  async run<T>(tool: string, args: Record<string, unknown>, task: () => Promise<T>): Promise<{ result: T; entries: UndoEntry[] }> {
+    const current: JournalScope = { journal: this, snapshots: new Map() };
+    let result: T;
+    try {
+      result = await scope.run(current, task);
+    } catch (error) {
+      const entries = await this.record(current, tool, args).catch(() => []);
+      if (entries.length === 0 || !(error instanceof Error)) throw error;
+      error.message += ` Alterações já aplicadas podem ser revertidas com transaction_operations (undo, undoId: ${entries.map(e => e.id).join(', ')}).`;
+      throw error;
+    }
+    return { result, entries: await this.record(current, tool, args) };
+  }
+
+  // Called before a TMSL command is sent: snapshots the model the first time
+  // the current call changes it. Concurrent commands share the same snapshot.
+  // Commands sent through another client (profile) are not part of the call.
+  async captureBeforeChange(xmlaEndpoint: string, databaseName: string, command: TmslDefinition, load: ModelLoader): Promise<void> {
+    const current = scope.getStore();
+    if (current?.journal !== this || !isSchemaChange(command)) return;
+    const key = `${xmlaEndpoint.toLowerCase()}|${databaseName.toLowerCase()}`;
+    let snapshot = current.snapshots.get(key);
+    if (!snapshot) {
+      snapshot = { xmlaEndpoint, databaseName, before: load().catch(() => false as const), load };
+      current.snapshots.set(key, snapshot);
+    }
+    await snapshot.before;
+  }
+
+  // Marks the current call as the undo of an entry, so the entry it records redoes
+  markAsUndo(id: string): void {
+    const current = scope.getStore();
+    if (current?.journal === this) current.undoOf = id;
+  }
+
+  get(id: string): UndoEntry | undefined {
+    return this.entries.find(entry => entry.id === id);
+  }
+
+  // Newest first
+  list(xmlaEndpoint?: string): UndoEntry[] {
+    return this.entries.filter(entry => !xmlaEndpoint || sameEndpoint(entry.xmlaEndpoint, xmlaEndpoint)).reverse();
+  }
+
+  // The most recent change not yet undone (undos themselves are skipped)
+  lastUndoable(xmlaEndpoint?: string): UndoEntry | undefined {
+    return this.list(xmlaEndpoint).find(entry => !entry.undoneAt && !entry.undoOf);
+  }
+
+  // Later changes to the same model that are still applied; undoing past them
+  // would also revert or conflict with what they did. An undo and the entry it
+  // reverted cancel out.
+  laterThan(entry: UndoEntry): UndoEntry[] {
+    return this.entries
+      .slice(this.entries.indexOf(entry) + 1)
+      .filter(later => !later.undoneAt && !(later.undoOf && this.get(later.undoOf)?.undoneAt)
+        && sameEndpoint(later.xmlaEndpoint, entry.xmlaEndpoint)
+        && later.databaseName.toLowerCase() === entry.databaseName.toLowerCase());
+  }
+
+  markUndone(entry: UndoEntry): void {
+    entry.undoneAt = new Date().toISOString();
+  }
+
+  private async record(current: JournalScope, tool: string, args: Record<string, unknown>): Promise<UndoEntry[]> {
+    const entries: UndoEntry[] = [];
+    for (const snapshot of current.snapshots.values()) {
+      const before = await snapshot.before;
+      const after = await snapshot.load().catch(() => false as const);
+      if (before === false || after === false) continue;
+      const inverse = buildInverse(before, after, snapshot.databaseName);
+      if (!inverse) continue;
+      const entry: UndoEntry = {
+        id: randomUUID().slice(0, 8),
+        timestamp: new Date().toISOString(),
+        tool,
+        ...(typeof args.operation === 'string' && { operation: args.operation }),
+        xmlaEndpoint: snapshot.xmlaEndpoint,
+        databaseName: snapshot.databaseName,
+        ...inverse,
+        ...(current.undoOf && { undoOf: current.undoOf })
+      };
+      this.entries.push(entry);
+      entries.push(entry);
+    }
+    this.entries.splice(0, Math.max(0, this.entries.length - MAX_ENTRIES));
+    return entries;
+  }
+}
+
+function isSchemaChange(command: TmslDefinition): boolean {
+  const [commandType, body] = Object.entries(command)[0] ?? [];
+  if (commandType === 'sequence') {
+    return (((body as TmslDefinition | undefined)?.operations as TmslDefinition[] | undefined) ?? []).some(isSchemaChange);
+  }
+  return SCHEMA_COMMANDS.includes(commandType);
+}
+
+function buildInverse(
+  before: TmslDatabase | undefined,
+  after: TmslDatabase | undefined,
+  databaseName: string
+): Pick<UndoEntry, 'changes' | 'inverse' | 'requiresRefresh'> | undefined {
+  const object = { database: databaseName };
+  if (!before && !after) return undefined;
+  if (!before) {
+    return { changes: { databases: { added: [databaseName], removed: [], changed: [] } }, inverse: { delete: { object } }, requiresRefresh: [] };
+  }
+  if (!after) {
+    return {
+      changes: { databases: { added: [], removed: [databaseName], changed: [] } },
+      inverse: { createOrReplace: { object, database: { ...before, name: databaseName } } },
+      requiresRefresh: [databaseName]
+    };
+  }
+  // What the call did: the objects that differ between the model after and before it
+  const diff = diffModels(after, before);
+  if (!hasDifferences(diff)) return undefined;
+  const script = buildSyncScript(before, after, databaseName);
+  if (!script.tmsl) return undefined;
+  const changes: UndoEntry['changes'] = {};
+  for (const [collection, c] of Object.entries(diff) as Array<[string, CollectionDiff]>) {
+    if (c.added.length + c.removed.length + c.changed.length === 0) continue;
+    changes[collection] = { added: c.added, removed: c.removed, changed: c.changed.map(change => change.name) };
+  }
+  return { changes, inverse: script.tmsl, requiresRefresh: script.requiresRefresh };
+}
+
+function sameEndpoint(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
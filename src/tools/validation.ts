@@ -0,0 +1,168 @@
+// ============================================================
+// Argument validation
+// Checks tool arguments against the tool's inputSchema before
+// dispatch — types, enums, required fields, nested objects and
+// arrays, and the fields each operation requires — so invalid
+// calls get field-level errors instead of reaching the API.
+// Covers the JSON Schema subset the tool definitions use. The
+// per-operation requirements stay out of the published schema
+// (some clients reject allOf/if/then) and are listed in the
+// operation's description instead.
+// ============================================================
+
+export interface ValidationIssue {
+  field: string;                // e.g. measureDefinition.expression, renames[1].newName
+  message: string;
+}
+
+export class ToolValidationError extends Error {
+  constructor(
+    readonly toolName: string,
+    readonly issues: ValidationIssue[]
+  ) {
+    super(
+      `Argumentos inválidos para '${toolName}':\n` +
+      issues.map(issue => `- ${issue.field || '(argumentos)'}: ${issue.message}`).join('\n')
+    );
+    this.name = 'ToolValidationError';
+  }
+}
+
+type Schema = Record<string, unknown>;
+
+// Fields each operation requires besides the schema's `required`, by operation
+export type OperationRequirements = Record<string, string[]>;
+
+export function validateArguments(
+  schema: Schema,
+  args: Record<string, unknown>,
+  requirements: OperationRequirements = {}
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validate(schema, args, '', issues);
+  const schemaRequired = (schema.required as string[] | undefined) ?? [];
+  for (const name of operationRequirements(requirements, args)) {
+    if (!schemaRequired.includes(name) && isMissing(args[name])) {
+      issues.push({ field: name, message: `obrigatório para a operação '${args.operation}'` });
+    }
+  }
+  return issues;
+}
+
+// Top-level fields a call must have: the schema's and those of its operation
+export function requiredFields(schema: Schema, args: Record<string, unknown>, requirements: OperationRequirements = {}): string[] {
+  return [...((schema.required as string[] | undefined) ?? []), ...operationRequirements(requirements, args)];
+}
+
+// "Campos obrigatórios por operação — get: tableName; rename: tableName, newName."
+export function describeRequirements(requirements: OperationRequirements, operations?: string[]): string {
+  const listed = Object.entries(requirements).filter(([operation]) => !operations || operations.includes(operation));
+  if (listed.length === 0) return '';
+  return `Campos obrigatórios por operação — ${listed.map(([operation, fields]) => `${operation}: ${fields.join(', ')}`).join('; ')}.`;
+}
+
+function operationRequirements(requirements: OperationRequirements, args: Record<string, unknown>): string[] {
+  return typeof args.operation === 'string' && Object.hasOwn(requirements, args.operation) ? requirements[args.operation] : [];
+}
+
+function validate(schema: Schema, value: unknown, field: string, issues: ValidationIssue[]): void {
+  const type = schema.type as string | string[] | undefined;
+  if (type !== undefined && !matchesType(value, type)) {
+    issues.push({ field, message: `deve ser ${describeType(type)}, recebido ${typeName(value)}` });
+    return;
+  }
+
+  const options = schema.enum as unknown[] | undefined;
+  if (options && !options.includes(value)) {
+    issues.push({ field, message: `valor ${JSON.stringify(value)} inválido; use um de: ${options.join(', ')}` });
+  }
+  if ('const' in schema && value !== schema.const) {
+    issues.push({ field, message: `deve ser ${JSON.stringify(schema.const)}` });
+  }
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issues.push({ field, message: `deve ser maior ou igual a ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issues.push({ field, message: `deve ser menor ou igual a ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issues.push({ field, message: `deve ter ao menos ${schema.minItems} item(ns)` });
+    }
+    const items = schema.items as Schema | undefined;
+    if (items) value.forEach((item, index) => validate(items, item, `${field}[${index}]`, issues));
+  }
+
+  if (isObject(value)) {
+    validateObject(schema, value, field, issues);
+  }
+}
+
+function validateObject(schema: Schema, value: Record<string, unknown>, field: string, issues: ValidationIssue[]): void {
+  const properties = (schema.properties as Record<string, Schema> | undefined) ?? {};
+  const operation = typeof value.operation === 'string' && !field ? ` para a operação '${value.operation}'` : '';
+  for (const name of (schema.required as string[] | undefined) ?? []) {
+    if (isMissing(value[name])) issues.push({ field: join(field, name), message: `obrigatório${operation}` });
+  }
+  for (const [name, item] of Object.entries(value)) {
+    const property = properties[name];
+    if (property) {
+      if (item !== undefined && item !== null) validate(property, item, join(field, name), issues);
+    } else if (schema.additionalProperties === false) {
+      issues.push({ field: join(field, name), message: 'campo não reconhecido' });
+    } else if (isObject(schema.additionalProperties) && item !== undefined) {
+      validate(schema.additionalProperties, item, join(field, name), issues);
+    }
+  }
+}
+
+function matchesType(value: unknown, type: string | string[]): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some(t => {
+    switch (t) {
+      case 'string': return typeof value === 'string';
+      case 'number': return typeof value === 'number' && Number.isFinite(value);
+      case 'integer': return Number.isInteger(value);
+      case 'boolean': return typeof value === 'boolean';
+      case 'array': return Array.isArray(value);
+      case 'object': return isObject(value);
+      case 'null': return value === null;
+      default: return true;
+    }
+  });
+}
+
+const TYPE_NAMES: Record<string, string> = {
+  string: 'texto',
+  number: 'número',
+  integer: 'número inteiro',
+  boolean: 'booleano (true/false)',
+  array: 'uma lista',
+  object: 'um objeto',
+  null: 'nulo'
+};
+
+function describeType(type: string | string[]): string {
+  return (Array.isArray(type) ? type : [type]).map(t => TYPE_NAMES[t] ?? t).join(' ou ');
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return 'nulo';
+  if (Array.isArray(value)) return 'uma lista';
+  return TYPE_NAMES[typeof value] ?? typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function join(field: string, name: string): string {
+  return field ? `${field}.${name}` : name;
+}
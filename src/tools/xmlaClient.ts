@@ -0,0 +1,277 @@
+import axios from 'axios';
+import { XmlElement, XmlaMessage, XmlaRow, RowsetColumn, parseXml, readFault, readMessages, readRowsets } from './xmlaRowset.js';
+import { ConcurrencyLimiter, RequestPolicy, sendWithRetry } from './requestPipeline.js';
+import { POWER_BI_SCOPE, xmlaScope } from '../auth/tokenScopes.js';
+
+// ============================================================
+// XMLA over HTTP client
+// Sends TMSL commands as SOAP Execute requests and TMSCHEMA_*
+// rowset queries as SOAP Discover requests. Resolves
+// powerbi:// workspace and asazure:// server endpoints to the
+// cluster serving them.
+// ============================================================
+
+const XMLA_NAMESPACE = 'urn:schemas-microsoft-com:xml-analysis';
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+// Faults come back as HTTP 500, so only gateway errors are worth resending
+const TRANSIENT_STATUSES = [502, 503, 504];
+
+export interface XmlaExecuteResult {
+  columns: RowsetColumn[];
+  rows: XmlaRow[];
+  messages: XmlaMessage[];
+}
+
+// HTTP target an XMLA endpoint resolves to; scope is the audience of its
+// token, undefined for local endpoints that take none
+export interface ResolvedXmlaEndpoint {
+  url: string;
+  headers: Record<string, string>;
+  scope?: string;
+}
+
+export class XmlaError extends Error {
+  constructor(
+    message: string,
+    readonly code?: string,
+    readonly messages: XmlaMessage[] = [],
+    readonly httpStatus?: number
+  ) {
+    super(message);
+    this.name = 'XmlaError';
+  }
+}
+
+export class XmlaClient {
+  private resolved = new Map<string, Promise<ResolvedXmlaEndpoint>>();
+
+  constructor(
+    private readonly getAccessToken: (scope: string, forceRefresh?: boolean) => Promise<string>,
+    private readonly limiter: () => ConcurrencyLimiter,
+    private readonly timeoutMs = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  // ---- Public API ----
+
+  // Executes a TMSL command (object) or a DAX/MDX statement (string)
+  async execute(xmlaEndpoint: string, command: unknown, databaseName?: string): Promise<XmlaExecuteResult> {
+    const statement = typeof command === 'string' ? command : JSON.stringify(command);
+    // TMSL names its target database itself (which may not exist yet), so the
+    // Catalog property is only set for DAX/MDX statements
+    const catalog = typeof command === 'string' ? databaseName : undefined;
+    const body = `<Execute xmlns="${XMLA_NAMESPACE}">
+      <Command><Statement>${escapeXml(statement)}</Statement></Command>
+      <Properties><PropertyList>${catalog ? `<Catalog>${escapeXml(catalog)}</Catalog>` : ''}</PropertyList></Properties>
+    </Execute>`;
+    // DAX/MDX statements only read; TMSL commands are never resent after a failure
+    const response = await this.send(xmlaEndpoint, 'Execute', body, databaseName, typeof command === 'string');
+    const rowset = readRowsets(response)[0];
+    return { columns: rowset?.columns ?? [], rows: rowset?.rows ?? [], messages: readMessages(response) };
+  }
+
+  async discover(
+    xmlaEndpoint: string,
+    requestType: string,
+    restrictions: Record<string, unknown> = {},
+    databaseName = restrictions.DatabaseName as string | undefined
+  ): Promise<XmlaRow[]> {
+    // DatabaseName is a convenience restriction: XMLA scopes rowsets by Catalog
+    const { DatabaseName: _database, ...rest } = restrictions;
+    const restrictionXml = Object.entries(rest)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => `<${key}>${escapeXml(String(value))}</${key}>`)
+      .join('');
+    const body = `<Discover xmlns="${XMLA_NAMESPACE}">
+      <RequestType>${requestType}</RequestType>
+      <Restrictions><RestrictionList>${restrictionXml}</RestrictionList></Restrictions>
+      <Properties><PropertyList>${databaseName ? `<Catalog>${escapeXml(databaseName)}</Catalog>` : ''}</PropertyList></Properties>
+    </Discover>`;
+    const response = await this.send(xmlaEndpoint, 'Discover', body, databaseName, true);
+    return readRowsets(response)[0]?.rows ?? [];
+  }
+
+  // ---- Endpoint resolution ----
+
+  resolveEndpoint(xmlaEndpoint: string, databaseName?: string): Promise<ResolvedXmlaEndpoint> {
+    const key = `${xmlaEndpoint.trim().toLowerCase()}|${databaseName ?? ''}`;
+    let pending = this.resolved.get(key);
+    if (!pending) {
+      pending = this.resolve(xmlaEndpoint.trim(), databaseName);
+      // Do not cache failures, so the next call can retry the resolution
+      pending.catch(() => this.resolved.delete(key));
+      this.resolved.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async resolve(xmlaEndpoint: string, databaseName?: string): Promise<ResolvedXmlaEndpoint> {
+    if (/^https?:\/\//i.test(xmlaEndpoint)) {
+      return { url: xmlaEndpoint, headers: {}, ...(!isLoopback(new URL(xmlaEndpoint).hostname) && { scope: xmlaScope(xmlaEndpoint) }) };
+    }
+    // Power BI Desktop / local Analysis Services: localhost:<port>
+    const local = /^(localhost|127\.0\.0\.1)(:\d+)?$/i.exec(xmlaEndpoint);
+    if (local) {
+      return { url: `http://${xmlaEndpoint}/xmla`, headers: {} };
+    }
+    if (/^powerbi:\/\//i.test(xmlaEndpoint)) {
+      return this.resolvePowerBiEndpoint(xmlaEndpoint, databaseName);
+    }
+    if (/^asazure:\/\//i.test(xmlaEndpoint)) {
+      return this.resolveAnalysisServicesEndpoint(xmlaEndpoint, databaseName);
+    }
+    throw new XmlaError(
+      `Endpoint XMLA não suportado: ${xmlaEndpoint}. Use powerbi://api.powerbi.com/v1.0/myorg/<Workspace>, asazure://<região>.asazure.windows.net/<servidor> ou uma URL http(s).`
+    );
+  }
+
+  // powerbi://<host>/v1.0/<tenant>/<workspace> -> https://<cluster>/webapi/xmla
+  private async resolvePowerBiEndpoint(xmlaEndpoint: string, databaseName?: string): Promise<ResolvedXmlaEndpoint> {
+    const url = new URL(xmlaEndpoint.replace(/^powerbi:/i, 'https:'));
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    if (segments.length < 3) {
+      throw new XmlaError(`Endpoint XMLA inválido: ${xmlaEndpoint}. Formato esperado: powerbi://api.powerbi.com/v1.0/myorg/<Workspace>`);
+    }
+    const workspaceName = segments.slice(2).join('/');
+    const lookup = await this.lookupPolicy(POWER_BI_SCOPE);
+
+    const details = await sendWithRetry(
+      () => axios.get(`https://${url.host}/powerbi/globalservice/v201606/clusterdetails`, { headers: lookup.headers, timeout: this.timeoutMs }),
+      this.limiter(),
+      lookup.policy
+    );
+    const clusterUrl = String(details.data?.fixedClusterUri ?? details.data?.clusterUrl ?? '').replace(/\/+$/, '');
+    if (!clusterUrl) throw new XmlaError('Não foi possível descobrir o cluster do Power BI para o endpoint XMLA.');
+
+    const target = await this.resolveCluster(clusterUrl, { serverName: workspaceName, databaseName: databaseName ?? '', premiumPublicXmlaEndpoint: true }, lookup);
+    if (!target) {
+      throw new XmlaError(`Workspace '${workspaceName}' não encontrado ou sem suporte a XMLA (requer capacidade Premium/Fabric).`);
+    }
+    return { ...target, scope: POWER_BI_SCOPE };
+  }
+
+  // asazure://<region>.asazure.windows.net/<server> -> https://<cluster>/webapi/xmla
+  private async resolveAnalysisServicesEndpoint(xmlaEndpoint: string, databaseName?: string): Promise<ResolvedXmlaEndpoint> {
+    const url = new URL(xmlaEndpoint.replace(/^asazure:/i, 'https:'));
+    const serverName = url.pathname.split('/').filter(Boolean).map(decodeURIComponent).join('/');
+    if (!serverName) {
+      throw new XmlaError(`Endpoint XMLA inválido: ${xmlaEndpoint}. Formato esperado: asazure://<região>.asazure.windows.net/<servidor>`);
+    }
+    const scope = xmlaScope(xmlaEndpoint);
+    const lookup = await this.lookupPolicy(scope);
+
+    const target = await this.resolveCluster(`https://${url.host}`, { serverName, databaseName: databaseName ?? '' }, lookup);
+    if (!target) {
+      throw new XmlaError(`Servidor do Azure Analysis Services '${serverName}' não encontrado em ${url.host}.`);
+    }
+    return { ...target, scope };
+  }
+
+  // Headers and retry policy of the resolution lookups; both only read, so
+  // they can be resent, with a fresh token after a 401
+  private async lookupPolicy(scope: string): Promise<{ headers: Record<string, string>; policy: RequestPolicy }> {
+    const headers = { Authorization: `Bearer ${await this.getAccessToken(scope)}` };
+    return {
+      headers,
+      policy: {
+        idempotent: true,
+        refreshToken: async () => { headers.Authorization = `Bearer ${await this.getAccessToken(scope, true)}`; }
+      }
+    };
+  }
+
+  // Asks the cluster front end which node serves the server; undefined when unknown
+  private async resolveCluster(
+    clusterUrl: string,
+    request: Record<string, unknown>,
+    lookup: { headers: Record<string, string>; policy: RequestPolicy }
+  ): Promise<Omit<ResolvedXmlaEndpoint, 'scope'> | undefined> {
+    const resolution = await sendWithRetry(
+      () => axios.post(`${clusterUrl}/webapi/clusterResolve`, request, { headers: lookup.headers, timeout: this.timeoutMs }),
+      this.limiter(),
+      lookup.policy
+    );
+    const { clusterFQDN, coreServerName } = resolution.data ?? {};
+    if (!clusterFQDN || !coreServerName) return undefined;
+    return {
+      url: `https://${clusterFQDN}/webapi/xmla`,
+      headers: {
+        'x-ms-xmlaserver': coreServerName,
+        'x-ms-xmlacaps-negotiation-flags': '1,0,0,0,0',
+        'x-ms-xmlaerror-extended': '1'
+      }
+    };
+  }
+
+  // ---- Transport ----
+
+  private async send(
+    xmlaEndpoint: string,
+    action: 'Execute' | 'Discover',
+    body: string,
+    databaseName: string | undefined,
+    idempotent: boolean
+  ): Promise<XmlElement> {
+    const target = await this.resolveEndpoint(xmlaEndpoint, databaseName);
+    const headers: Record<string, string> = {
+      'Content-Type': 'text/xml; charset=utf-8',
+      SOAPAction: `"${XMLA_NAMESPACE}:${action}"`,
+      ...target.headers
+    };
+    const scope = target.scope;
+    if (scope) {
+      headers.Authorization = `Bearer ${await this.getAccessToken(scope)}`;
+    }
+
+    const response = await sendWithRetry(
+      () => axios.post(target.url, soapEnvelope(body), {
+        headers,
+        timeout: this.timeoutMs,
+        responseType: 'text',
+        // SOAP faults arrive as HTTP 500 with a parseable body
+        validateStatus: () => true
+      }),
+      this.limiter(),
+      {
+        idempotent,
+        transientStatuses: TRANSIENT_STATUSES,
+        ...(scope && {
+          refreshToken: async () => { headers.Authorization = `Bearer ${await this.getAccessToken(scope, true)}`; }
+        })
+      }
+    );
+    const document = parseXml(String(response.data ?? ''));
+
+    const fault = readFault(document);
+    if (fault) throw new XmlaError(fault.description, fault.code, [fault], response.status);
+    if (response.status >= 400) {
+      throw new XmlaError(`Endpoint XMLA respondeu HTTP ${response.status}`, undefined, [], response.status);
+    }
+    const errors = readMessages(document).filter(m => m.type === 'error');
+    if (errors.length > 0) {
+      throw new XmlaError(errors.map(e => e.description).join('\n'), errors[0].code, errors, response.status);
+    }
+    return document;
+  }
+}
+
+// ---- SOAP helpers ----
+
+export function soapEnvelope(body: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<Envelope xmlns="http://schemas.xmlsoap.org/soap/envelope/">
+  <Body>${body}</Body>
+</Envelope>`;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function isLoopback(hostname: string): boolean {
+  return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+}
@@ -0,0 +1,284 @@
+// ============================================================
+// XMLA response parsing
+// Minimal XML reader (no external deps) plus rowset decoding:
+// reads the inline XSD schema of each <root>, decodes XML-encoded
+// column names (_x0020_) and converts values to JS types.
+// Shared by the local Desktop tool and the remote XMLA client.
+// ============================================================
+
+export type XmlaRow = Record<string, unknown>;
+
+export interface XmlaMessage {
+  type: 'error' | 'warning';
+  code?: string;
+  description: string;
+  source?: string;
+}
+
+export interface XmlElement {
+  name: string;               // qualified name, e.g. xsd:element
+  localName: string;          // name without prefix, e.g. element
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+export interface RowsetColumn {
+  name: string;               // decoded column name
+  element: string;            // XML element name used in <row>
+  type: string;               // XSD type, e.g. xsd:double
+}
+
+export interface Rowset {
+  columns: RowsetColumn[];
+  rows: XmlaRow[];
+}
+
+// ---- XML reader ----
+
+export function parseXml(xml: string): XmlElement {
+  const document = createElement('#document', {});
+  const stack: XmlElement[] = [document];
+  let i = 0;
+
+  while (i < xml.length) {
+    const current = stack[stack.length - 1];
+    const lt = xml.indexOf('<', i);
+    if (lt === -1) {
+      current.text += decodeEntities(xml.slice(i));
+      break;
+    }
+    if (lt > i) current.text += decodeEntities(xml.slice(i, lt));
+
+    if (xml.startsWith('<!--', lt)) {
+      i = skipPast(xml, '-->', lt + 4);
+      continue;
+    }
+    if (xml.startsWith('<![CDATA[', lt)) {
+      const end = xml.indexOf(']]>', lt + 9);
+      current.text += xml.slice(lt + 9, end === -1 ? xml.length : end);
+      i = end === -1 ? xml.length : end + 3;
+      continue;
+    }
+    if (xml.startsWith('<?', lt) || xml.startsWith('<!', lt)) {
+      i = skipPast(xml, '>', lt + 2);
+      continue;
+    }
+
+    const end = findTagEnd(xml, lt + 1);
+    const tag = xml.slice(lt + 1, end);
+    i = end + 1;
+
+    if (tag.startsWith('/')) {
+      const name = tag.slice(1).trim();
+      // Tolerate unbalanced markup by unwinding to the matching open tag
+      const index = stack.map(e => e.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameMatch = /^[^\s/>]+/.exec(body);
+    if (!nameMatch) continue;
+    const element = createElement(nameMatch[0], parseAttributes(body.slice(nameMatch[0].length)));
+    current.children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  return document;
+}
+
+function createElement(name: string, attributes: Record<string, string>): XmlElement {
+  const colon = name.indexOf(':');
+  return { name, localName: colon === -1 ? name : name.slice(colon + 1), attributes, children: [], text: '' };
+}
+
+function skipPast(xml: string, token: string, from: number): number {
+  const end = xml.indexOf(token, from);
+  return end === -1 ? xml.length : end + token.length;
+}
+
+// Finds the closing '>' of a tag, ignoring '>' inside quoted attribute values
+function findTagEnd(xml: string, from: number): number {
+  let quote: string | undefined;
+  for (let i = from; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) quote = undefined;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+  return xml.length;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const regex = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match;
+  while ((match = regex.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(lt|gt|quot|apos|amp|#x[0-9a-fA-F]+|#\d+);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      case 'amp': return '&';
+    }
+    return entity.startsWith('#x')
+      ? String.fromCodePoint(parseInt(entity.slice(2), 16))
+      : String.fromCodePoint(parseInt(entity.slice(1), 10));
+  });
+}
+
+export function findAll(root: XmlElement, predicate: (element: XmlElement) => boolean): XmlElement[] {
+  const found: XmlElement[] = [];
+  const visit = (element: XmlElement) => {
+    for (const child of element.children) {
+      if (predicate(child)) found.push(child);
+      visit(child);
+    }
+  };
+  visit(root);
+  return found;
+}
+
+// XMLA encodes characters that are invalid in element names as _xHHHH_
+export function decodeXmlName(name: string): string {
+  return name.replace(/_x([0-9A-Fa-f]{4}|[0-9A-Fa-f]{8})_/g, (_, hex: string) =>
+    String.fromCodePoint(parseInt(hex, 16))
+  );
+}
+
+// ---- Rowsets ----
+
+export function readRowsets(document: XmlElement): Rowset[] {
+  return findAll(document, e => e.localName === 'root')
+    .filter(root => root.children.some(c => c.localName === 'row' || c.localName === 'schema'))
+    .map(readRowset);
+}
+
+// First rowset of a response, or an empty one when it carries no data
+export function parseRowset(xml: string): Rowset {
+  return readRowsets(parseXml(xml))[0] ?? { columns: [], rows: [] };
+}
+
+function readRowset(root: XmlElement): Rowset {
+  const schema = root.children.find(c => c.localName === 'schema');
+  const columns = schema ? readSchemaColumns(schema) : [];
+  const byElement = new Map(columns.map(c => [c.element, c]));
+
+  const rows = root.children
+    .filter(c => c.localName === 'row')
+    .map(rowElement => {
+      const row: XmlaRow = {};
+      // Absent elements are how XMLA encodes nulls
+      for (const column of columns) row[column.name] = null;
+      for (const cell of rowElement.children) {
+        const column = byElement.get(cell.localName);
+        const name = column?.name ?? decodeXmlName(cell.localName);
+        row[name] = readCell(cell, cell.attributes['xsi:type'] ?? column?.type);
+      }
+      return row;
+    });
+
+  return { columns, rows };
+}
+
+function readSchemaColumns(schema: XmlElement): RowsetColumn[] {
+  const simpleTypes = new Map<string, string>();
+  for (const simpleType of findAll(schema, e => e.localName === 'simpleType' && !!e.attributes.name)) {
+    const base = findAll(simpleType, e => e.localName === 'restriction')[0]?.attributes.base;
+    if (base) simpleTypes.set(simpleType.attributes.name, base);
+  }
+
+  const rowType = findAll(schema, e => e.localName === 'complexType' && e.attributes.name === 'row')[0];
+  if (!rowType) return [];
+
+  return findAll(rowType, e => e.localName === 'element' && !!e.attributes.name).map(element => {
+    const declared = element.attributes.type
+      ?? findAll(element, e => e.localName === 'restriction')[0]?.attributes.base
+      ?? 'xsd:string';
+    return {
+      name: element.attributes['sql:field'] ?? decodeXmlName(element.attributes.name),
+      element: element.attributes.name,
+      type: simpleTypes.get(declared) ?? declared
+    };
+  });
+}
+
+function readCell(cell: XmlElement, type: string | undefined): unknown {
+  if (cell.attributes['xsi:nil'] === 'true') return null;
+  if (cell.children.length > 0) {
+    // Nested rowset (e.g. restrictions in DISCOVER_SCHEMA_ROWSETS)
+    const nested: XmlaRow = {};
+    for (const child of cell.children) nested[decodeXmlName(child.localName)] = readCell(child, child.attributes['xsi:type']);
+    return nested;
+  }
+  return convertValue(cell.text, type);
+}
+
+const INTEGER_TYPES = new Set([
+  'int', 'integer', 'long', 'short', 'byte',
+  'unsignedInt', 'unsignedLong', 'unsignedShort', 'unsignedByte',
+  'nonNegativeInteger', 'positiveInteger', 'negativeInteger', 'nonPositiveInteger'
+]);
+
+export function convertValue(text: string, type: string | undefined): unknown {
+  const localType = type?.slice(type.indexOf(':') + 1);
+  switch (localType) {
+    case 'double':
+    case 'float':
+    case 'decimal':
+      if (text === 'INF') return Infinity;
+      if (text === '-INF') return -Infinity;
+      return Number(text);
+    case 'boolean':
+      return text === 'true' || text === '1';
+    case 'dateTime':
+    case 'date':
+      // XMLA sends wall-clock values without offset; read them as UTC so the
+      // serialized value keeps the same date and time the model holds
+      return new Date(/[zZ]|[+-]\d\d:\d\d$/.test(text) ? text : `${text}${localType === 'date' ? 'T00:00:00' : ''}Z`);
+  }
+  if (localType && INTEGER_TYPES.has(localType)) {
+    const value = Number(text);
+    // Keep 64-bit values beyond double precision as strings
+    return Number.isSafeInteger(value) ? value : text;
+  }
+  return text;
+}
+
+// ---- Errors and warnings ----
+
+export function readFault(document: XmlElement): XmlaMessage | undefined {
+  const fault = findAll(document, e => e.localName === 'Fault')[0];
+  if (!fault) return undefined;
+  const error = findAll(fault, e => e.localName === 'Error')[0];
+  const faultString = findAll(fault, e => e.localName === 'faultstring')[0]?.text.trim();
+  return {
+    type: 'error',
+    code: error?.attributes.ErrorCode,
+    description: error?.attributes.Description || faultString || 'Falha SOAP no endpoint XMLA',
+    source: error?.attributes.Source
+  };
+}
+
+export function readMessages(document: XmlElement): XmlaMessage[] {
+  return findAll(document, e => (e.localName === 'Error' || e.localName === 'Warning') && 'Description' in e.attributes)
+    .map(e => ({
+      type: e.localName === 'Error' ? 'error' as const : 'warning' as const,
+      code: e.attributes.ErrorCode ?? e.attributes.WarningCode,
+      description: e.attributes.Description,
+      source: e.attributes.Source
+    }));
+}
@@ -3,7 +3,7 @@
 // ============================================================
 
 export type ToolCategory = 'remote' | 'modeling';
-export type AuthMethod = 'interactive' | 'deviceCode' | 'clientCredentials';
+export type AuthMethod = 'interactive' | 'deviceCode' | 'clientCredentials' | 'certificate' | 'federated' | 'azureCli';
 export type ServerStatus = 'stopped' | 'starting' | 'running' | 'error';
 
 // ---- Tool Configuration ----
@@ -17,10 +17,17 @@ export interface ToolInfo {
   defaultEnabled: boolean;
   isDestructive: boolean;       // Can modify / delete model objects
   isAdvanced: boolean;          // Hidden by default in simple mode
+  operations?: Record<string, OperationKind>;  // Values of the `operation` argument
 }
 
+// read: leaves the model untouched; write: changes it; destructive: removes
+// or overwrites objects
+export type OperationKind = 'read' | 'write' | 'destructive';
+
+// toolId -> enabled, plus `toolId.operation` -> allowed for operations
+// switched individually (absent means allowed when the tool is enabled)
 export interface ToolsState {
-  [toolId: string]: boolean;    // toolId -> enabled
+  [toolId: string]: boolean;
 }
 
 // ---- Auth Configuration ----
@@ -29,9 +36,16 @@ export interface AuthConfig {
   tenantId: string;
   clientId: string;
   method: AuthMethod;
-  clientSecret?: string;
+  clientSecret?: string;           // standalone use only; the extension keeps it in SecretStorage
+  certificatePath?: string;        // PEM (certificate + private key) or PFX
+  certificateThumbprint?: string;  // SHA-1 or SHA-256; picks the certificate in the file
+  clientAssertionFile?: string;    // federated token file (default: AZURE_FEDERATED_TOKEN_FILE)
+  account?: string;                // sign-in name of the account to use among those in the token cache
 }
 
+// Secrets kept in the extension's SecretStorage, never in settings.json
+export type AuthSecretName = 'clientSecret' | 'certificatePassword';
+
 // ---- Connection Configuration ----
 
 export interface ConnectionConfig {
@@ -39,18 +53,77 @@ export interface ConnectionConfig {
   xmlaEndpoint: string;
 }
 
+// ---- Connection Profiles ----
+
+// A named tenant/account with its connection defaults. The main auth and
+// connection settings are the profile named `default`.
+export interface ConnectionProfile {
+  name: string;
+  auth: AuthConfig;
+  connection: ConnectionConfig;
+}
+
 // ---- Server Configuration (written to config file for MCP server process) ----
 
 export interface ServerConfig {
   tools: ToolsState;
   auth: AuthConfig;
   connection: ConnectionConfig;
+  profiles?: ConnectionProfile[];
+  activeProfile?: string;       // profile of calls without a `profile` argument
+  tokensClearedAt?: string;     // set when the extension clears the token cache
+  secretsChangedAt?: Record<string, string>;  // by profile, set when its stored secrets change
   readOnly: boolean;
   requireConfirmation: boolean;
+  accessPolicy?: AccessPolicy;
+  audit?: AuditConfig;
+  bridge?: BridgeConfig;
+}
+
+// ---- Extension Bridge ----
+
+// Local socket of the extension that the server asks for what only the
+// extension host can do (secrets, opening URLs); token authenticates the caller
+export interface BridgeConfig {
+  path: string;
+  token: string;
+}
+
+// ---- Audit Log ----
+
+export interface AuditConfig {
+  enabled: boolean;
+  maxFileSizeMb: number;        // rotate when the log grows past this size
+  maxFiles: number;             // rotated files kept
+}
+
+// ---- Access Policy ----
+
+// Glob patterns (`*`, `?`, case-insensitive). A value matching `deny` is
+// refused; with a non-empty `allow`, only matching values are accepted.
+export interface PatternList {
+  allow?: string[];
+  deny?: string[];
+}
+
+// Which objects tool calls may target, checked before any handler runs
+export interface AccessPolicy {
+  workspaces?: PatternList;      // workspace IDs, or names in powerbi:// endpoints
+  datasets?: PatternList;        // semantic model (dataset) IDs
+  xmlaEndpoints?: PatternList;
+  databases?: PatternList;
+  tables?: PatternList;
 }
 
 // ---- Power BI REST API Types ----
 
+// The workspace (none for My workspace) and name of a semantic model
+export interface DatasetLocation {
+  name: string;
+  workspaceId?: string;
+  workspaceName?: string;
+}
+
 export interface SemanticModel {
   id: string;
   name: string;
@@ -69,8 +142,10 @@ export interface TableSchema {
   name: string;
   columns: ColumnSchema[];
   measures: MeasureSchema[];
+  hierarchies?: HierarchySchema[];
   isHidden?: boolean;
   description?: string;
+  dataCategory?: string;
 }
 
 export interface ColumnSchema {
@@ -79,6 +154,10 @@ export interface ColumnSchema {
   isHidden?: boolean;
   description?: string;
   formatString?: string;
+  expression?: string;          // DAX for calculated columns
+  sourceColumn?: string;        // source column for data columns
+  isKey?: boolean;
+  displayFolder?: string;
 }
 
 export interface MeasureSchema {
@@ -88,15 +167,26 @@ export interface MeasureSchema {
   description?: string;
   formatString?: string;
   isHidden?: boolean;
+  displayFolder?: string;
+}
+
+export interface HierarchySchema {
+  name: string;
+  levels: string[];             // column names, top to bottom
+  isHidden?: boolean;
+  description?: string;
 }
 
 export interface RelationshipSchema {
+  name?: string;
   fromTable: string;
   fromColumn: string;
   toTable: string;
   toColumn: string;
   crossFilteringBehavior?: string;
   isActive?: boolean;
+  fromCardinality?: string;
+  toCardinality?: string;
 }
 
 // ---- DAX Query Types ----
@@ -127,6 +217,37 @@ export interface TmslObject {
   role?: string;
   perspective?: string;
   calculationGroup?: string;
+  calculationItem?: string;
+  hierarchy?: string;
+  level?: string;
+  culture?: string;
+  expression?: string;
+  dataSource?: string;
+}
+
+// A model definition in TMSL/BIM JSON: { name, compatibilityLevel, model: { tables, ... } }
+export type TmslDefinition = Record<string, unknown>;
+
+export interface TmslDatabase {
+  name?: string;
+  compatibilityLevel?: number;
+  model: TmslDefinition;
+  [property: string]: unknown;
+}
+
+// ---- Tool Execution Context ----
+
+// Server-side state handed to every tool handler on each call
+export interface ToolContext {
+  readOnly: boolean;
+  requireConfirmation: boolean;
+  accessPolicy?: AccessPolicy;
+  // Asks the user directly through the MCP client (elicitation); absent when
+  // the client cannot, in which case confirmation tokens are used
+  confirm?: (message: string) => Promise<boolean>;
+  // Connection profiles of the server and the one this call runs with
+  profiles?: ConnectionProfile[];
+  profile?: string;
 }
 
 // ---- MCP Tool Result ----
@@ -142,7 +263,7 @@ export interface McpToolResult {
 
 export interface WebViewMessage {
   type: 'getConfig' | 'updateConfig' | 'startServer' | 'stopServer' | 'restartServer'
-      | 'authenticate' | 'clearToken' | 'configUpdated' | 'statusUpdate' | 'error';
+      | 'authenticate' | 'clearToken' | 'setSecret' | 'editProfiles' | 'configUpdated' | 'statusUpdate' | 'error';
   payload?: unknown;
 }
 
@@ -151,6 +272,11 @@ export interface ConfigUpdatePayload {
   value: unknown;
 }
 
+export interface SecretUpdatePayload {
+  name: AuthSecretName;
+  value: string;                // empty removes the secret
+}
+
 export interface StatusUpdatePayload {
   serverStatus: ServerStatus;
   isAuthenticated: boolean;